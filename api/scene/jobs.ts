@@ -0,0 +1,140 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { apiError, jobWithoutDebug } from '../../server/apiErrors';
+import { createCachedDetectionProvider } from '../../server/detectionCache';
+import { selectPrompt } from '../../server/detectionPrompts';
+import { createLogger, startRequestLog } from '../../server/logger';
+import {
+    clientKey,
+    createConcurrencyGate,
+    createRateLimiter,
+    withConcurrencyLimit,
+} from '../../server/rateLimit';
+import { generateScene } from '../../server/scenePipeline';
+import { createSceneJobStore } from '../../server/sceneJobs';
+import { corsHeaders, isDebugRequest, loadServerConfig } from '../../server/serverConfig';
+import { readMultipartUpload, uploadLimits } from '../../server/multipartUpload';
+
+export const config = {
+    maxDuration: 60,
+    api: {
+        bodyParser: false,
+    },
+};
+
+// Settings from the environment, with the Vercel defaults (see serverConfig.ts)
+const serverConfig = loadServerConfig(process.env, 'vercel');
+if (!serverConfig.ok) console.error(`Server misconfiguration: ${serverConfig.error}`);
+
+// Structured logs at LOG_LEVEL in LOG_FORMAT (see logger.ts)
+const logger = createLogger(serverConfig.ok ? serverConfig.value.log : { level: 'info', format: 'json' });
+
+// Upload rate limit and AI concurrency cap (RATE_LIMIT_*, AI_*), per warm instance
+const limiter = serverConfig.ok ? createRateLimiter(serverConfig.value.rateLimit) : undefined;
+const aiGate = serverConfig.ok ? createConcurrencyGate(serverConfig.value.rateLimit) : undefined;
+
+// Same detection provider and cache as /api/scene
+const detectionProvider = serverConfig.ok
+    ? createCachedDetectionProvider(
+        serverConfig.value,
+        (provider) => (aiGate ? withConcurrencyLimit(provider, aiGate) : provider),
+    )
+    : serverConfig;
+
+// Background scene jobs (SCENE_JOB_*), per warm instance
+const jobs = serverConfig.ok ? createSceneJobStore(serverConfig.value.jobs) : undefined;
+
+/** Retry-After suggested when the job store is full (s) */
+const JOBS_FULL_RETRY_SECONDS = 10;
+
+/**
+ * POST /api/scene/jobs
+ * Same upload as POST /api/scene, but answers 202 with a job at once and
+ * generates the scene in the background (see sceneJobs.ts).
+ *
+ * GET /api/scene/jobs/:id (rewritten to ?id= in vercel.json)
+ * The job's status and latest stage, then its result or error.
+ *
+ * Jobs live in this instance's memory, and Vercel may suspend an instance
+ * once it has answered, so a job here is best effort: it may stop midway,
+ * and a poll that reaches another instance gets 404. The client's
+ * production build therefore streams /api/scene instead and only submits
+ * jobs to the Express server, which keeps them reliably (see UploadFlow).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (!serverConfig.ok || !detectionProvider.ok || !limiter || !jobs) {
+        const error = !detectionProvider.ok ? detectionProvider.error : 'scene jobs';
+        logger.error('scene jobs misconfigured', { error });
+        return res.status(500).json(apiError('SERVER_MISCONFIGURED', `Server misconfiguration: ${error}`));
+    }
+    const settings = serverConfig.value;
+    const provider = detectionProvider.value;
+    const debug = isDebugRequest(settings.debug, req.headers);
+
+    // CORS headers (CORS_ORIGINS; any origin by default)
+    for (const [name, value] of Object.entries(corsHeaders(settings.cors, req.headers.origin, ['GET', 'POST']))) {
+        res.setHeader(name, value);
+    }
+
+    if (req.method === 'OPTIONS') {
+        return res.status(204).end();
+    }
+
+    // The request's id, echoed in x-request-id, on every line it logs
+    const log = startRequestLog(logger, req, res, 'jobs');
+
+    if (req.method === 'GET') {
+        const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+        const job = id ? jobs.get(id) : undefined;
+        if (!job) {
+            return res.status(404).json(apiError('JOB_NOT_FOUND', 'Job not found or expired'));
+        }
+        res.setHeader('Cache-Control', 'no-store');
+        return res.status(200).json(jobWithoutDebug(job, debug));
+    }
+
+    if (req.method !== 'POST') {
+        return res.status(405).json(apiError('METHOD_NOT_ALLOWED', 'Method not allowed'));
+    }
+
+    // One token per upload, as for /api/scene
+    const client = clientKey(settings.rateLimit, req.headers['x-api-key'], req.socket?.remoteAddress, req.headers['x-forwarded-for']);
+    const admission = limiter.take(client);
+    if (!admission.ok) {
+        log.warn('rate limited', { client, retry_after: admission.retryAfterSeconds });
+        res.setHeader('Retry-After', String(admission.retryAfterSeconds));
+        return res.status(429).json(apiError('RATE_LIMITED', 'Too many uploads. Try again shortly.', {
+            retry_after: admission.retryAfterSeconds,
+        }));
+    }
+
+    // Same upload rules as /api/scene
+    const upload = await readMultipartUpload(req, req.headers['content-type'], uploadLimits(settings));
+    if (!upload.ok) {
+        log.info('upload rejected', { code: upload.body.code });
+        return res.status(upload.status).json(upload.body);
+    }
+    const { images, fields } = upload.value;
+    if (images.length === 0) {
+        log.info('no image');
+        return res.status(400).json(apiError('NO_IMAGE', 'No image file provided. Send a multipart/form-data request with field name "image".'));
+    }
+    const prompt = selectPrompt(settings.promptVersion, req.headers, fields);
+    if (!prompt.ok) {
+        return res.status(prompt.status).json(prompt.body);
+    }
+
+    // The job outlives the request, so its lines carry the job id too (known once
+    // submit() returns, which is before the work starts)
+    let jobLog = log;
+    const job = jobs.submit((onStage) => generateScene(provider, { images, fields, prompt: prompt.value }, jobLog, onStage));
+    if (!job) {
+        log.warn('job store full', { jobs: jobs.size });
+        res.setHeader('Retry-After', String(JOBS_FULL_RETRY_SECONDS));
+        return res.status(503).json(apiError('SERVER_BUSY', 'Server busy. Try again shortly.', { retry_after: JOBS_FULL_RETRY_SECONDS }));
+    }
+
+    jobLog = log.child({ job_id: job.id });
+    jobLog.info('job queued', { photos: images.length });
+    res.setHeader('Location', `/api/scene/jobs/${job.id}`);
+    return res.status(202).json(job);
+}
@@ -0,0 +1,102 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { BUILDER_VERSION, buildLevel, buildStitchedLevel, parseRebuildRequest, randomSeed } from '../../server/levelBuilder';
+import { apiError, withoutDebug } from '../../server/apiErrors';
+import { postprocessDetections } from '../../server/detectionPostprocess';
+import { createLogger, startRequestLog } from '../../server/logger';
+import { corsHeaders, isDebugRequest, loadServerConfig } from '../../server/serverConfig';
+import { parseSceneV1 } from '../../src/shared/schema/scene_v1.schema';
+
+export const config = {
+    maxDuration: 10,
+};
+
+// Settings from the environment, with the Vercel defaults (see serverConfig.ts);
+// the detection post-processing is re-applied on rebuild
+const serverConfig = loadServerConfig(process.env, 'vercel');
+if (!serverConfig.ok) console.error(`Server misconfiguration: ${serverConfig.error}`);
+
+// Structured logs at LOG_LEVEL in LOG_FORMAT (see logger.ts)
+const logger = createLogger(serverConfig.ok ? serverConfig.value.log : { level: 'info', format: 'json' });
+
+/**
+ * POST /api/scene/rebuild
+ * JSON body: { detections, seed?, strategy?, difficulty? }
+ * Rebuilds a level from stored detections (the `detections` of an
+ * earlier /api/scene response — an array for multi-photo levels) without
+ * calling the AI. Omitting the seed draws a fresh one, i.e. "reroll layout".
+ * The detections are post-processed again with the current settings.
+ */
+export default function handler(req: VercelRequest, res: VercelResponse) {
+    if (!serverConfig.ok) {
+        return res.status(500).json(apiError('SERVER_MISCONFIGURED', `Server misconfiguration: ${serverConfig.error}`));
+    }
+    const { postprocess } = serverConfig.value;
+    const debug = isDebugRequest(serverConfig.value.debug, req.headers);
+
+    // CORS headers (CORS_ORIGINS; any origin by default)
+    for (const [name, value] of Object.entries(corsHeaders(serverConfig.value.cors, req.headers.origin, ['POST']))) {
+        res.setHeader(name, value);
+    }
+
+    if (req.method === 'OPTIONS') {
+        return res.status(204).end();
+    }
+
+    // The request's id, echoed in x-request-id, on every line it logs
+    const log = startRequestLog(logger, req, res, 'rebuild');
+
+    if (req.method !== 'POST') {
+        return res.status(405).json(apiError('METHOD_NOT_ALLOWED', 'Method not allowed'));
+    }
+
+    const parsed = parseRebuildRequest(req.body);
+    if (!parsed.ok) {
+        log.info('invalid rebuild request', { error: parsed.error });
+        return res.status(400).json(apiError('INVALID_REBUILD_REQUEST', `Invalid rebuild request: ${parsed.error}`));
+    }
+
+    const { options } = parsed.value;
+    const stored = Array.isArray(parsed.value.detections) ? parsed.value.detections : [parsed.value.detections];
+    const processed = stored.map((d) => (postprocess ? postprocessDetections(d, postprocess) : { detections: d }));
+    const detections = processed.map((p) => p.detections);
+    const debugDetections = processed.map((p) => ('postprocess' in p ? { ...p.detections, postprocess: p.postprocess } : p.detections));
+
+    const buildOptions = { ...options, seed: options.seed ?? randomSeed() };
+    const built = detections.length > 1
+        ? buildStitchedLevel(detections, buildOptions)
+        : buildLevel(detections[0], buildOptions);
+    const names = detections[0];
+    const { scene, path, repairs } = built;
+
+    for (const event of built.events) log[event.level](event.msg, event.fields);
+    log.info('level rebuilt', {
+        objects: scene.objects.length,
+        path_steps: path.length,
+        repairs,
+        seed: built.seed,
+        strategy: built.strategy,
+    });
+
+    const checked = parseSceneV1(scene);
+    if (!checked.ok) {
+        log.error('rebuilt level failed validation', { errors: checked.errors });
+        return res.status(500).json(withoutDebug(
+            apiError('LEVEL_INVALID', 'Built level failed validation', { _debug: { issues: checked.issues } }),
+            debug,
+        ));
+    }
+
+    return res.status(200).json(withoutDebug({
+        ...checked.data,
+        player_name: names.player_name || 'happy-little-adventurer',
+        level_name: names.level_name || 'Mystery Level',
+        seed: built.seed,
+        strategy: built.strategy,
+        builder_version: BUILDER_VERSION,
+        detections: stored.length > 1 ? stored : stored[0],
+        _debug: {
+            detections: debugDetections.length > 1 ? debugDetections : debugDetections[0],
+            reachability: { path, repairs },
+        },
+    }, debug));
+}
@@ -0,0 +1,52 @@
+/**
+ * API ERROR TESTS
+ * ================
+ *
+ * The error envelope, and `_debug` only for debug requests.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { apiError, jobWithoutDebug, withoutDebug } from './apiErrors';
+import { createSceneJobStore } from './sceneJobs';
+import { isApiErrorCode, parseApiErrorCode } from '../src/shared/types/ApiError';
+
+describe('apiError', () => {
+    it('builds the envelope', () => {
+        expect(apiError('RATE_LIMITED', 'Too many uploads.', { retry_after: 3 })).toEqual({
+            error: 'Too many uploads.',
+            code: 'RATE_LIMITED',
+            retry_after: 3,
+        });
+    });
+
+    it('round-trips through the client parser', () => {
+        const body = JSON.stringify(apiError('AI_INVALID_JSON', 'AI returned invalid JSON'));
+        expect(parseApiErrorCode(body)).toBe('AI_INVALID_JSON');
+        expect(parseApiErrorCode('{"code":"SOMETHING_NEW"}')).toBeUndefined();
+        expect(parseApiErrorCode('<html>')).toBeUndefined();
+        expect(isApiErrorCode('UPLOAD_TOO_LARGE')).toBe(true);
+    });
+});
+
+describe('withoutDebug', () => {
+    const body = { version: 1, _debug: { raw_ai_response: '{}' } };
+
+    it('drops `_debug` unless the request is a debug request', () => {
+        expect(withoutDebug(body, false)).toEqual({ version: 1 });
+        expect(withoutDebug(body, true)).toBe(body);
+    });
+
+    it('drops it from job results and errors', async () => {
+        const store = createSceneJobStore({ ttlMs: 60_000, maxJobs: 10 });
+        const job = store.submit(() => Promise.resolve({ status: 502, body: apiError('AI_FAILED', 'AI processing failed', { _debug: { details: 'boom' } }), headers: {} }));
+        for (let i = 0; i < 20 && store.get(job!.id)?.status !== 'failed'; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+
+        const failed = store.get(job!.id)!;
+        expect(jobWithoutDebug(failed, false).error).toEqual({ status: 502, error: 'AI processing failed', code: 'AI_FAILED' });
+        expect(jobWithoutDebug(failed, true).error).toMatchObject({ _debug: { details: 'boom' } });
+    });
+});
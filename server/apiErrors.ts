@@ -0,0 +1,48 @@
+/**
+ * API ERRORS & DEBUG OUTPUT
+ * ==========================
+ *
+ * Builds the error envelope (see src/shared/types/ApiError.ts) and keeps
+ * `_debug` out of the answers of requests that aren't debug requests.
+ *
+ *   res.status(400).json(apiError('NO_IMAGE', 'No image file provided'));
+ *   res.json(withoutDebug(body, isDebugRequest(config.debug, req.headers)));
+ *
+ * Whether a request is a debug request is decided by the server
+ * configuration (DEBUG_RESPONSES, DEBUG_TOKEN) and the request's
+ * `x-debug-token` header, see isDebugRequest() in serverConfig.ts. The
+ * `_debug` fields are always built, so logs and jobs don't depend on who
+ * asked; they are dropped on the way out.
+ */
+
+import type { ApiErrorBody, ApiErrorCode } from '../src/shared/types/ApiError';
+import type { SceneJob } from '../src/shared/types/SceneJob';
+
+/**
+ * An error body: `message` for people, `code` for clients. `extra` holds
+ * `retry_after` and, for debug requests only, `_debug`.
+ */
+export function apiError(
+    code: ApiErrorCode,
+    message: string,
+    extra: Pick<ApiErrorBody, 'retry_after' | '_debug'> = {},
+): ApiErrorBody & Record<string, unknown> {
+    return { error: message, code, ...extra };
+}
+
+/** `body` as is for a debug request, else without its `_debug` */
+export function withoutDebug<T extends Record<string, unknown>>(body: T, debug: boolean): T {
+    if (debug || !('_debug' in body)) return body;
+    const { _debug: _, ...rest } = body;
+    return rest as T;
+}
+
+/** A job's result or error without `_debug`, unless `debug` */
+export function jobWithoutDebug(job: SceneJob, debug: boolean): SceneJob {
+    if (debug) return job;
+    return {
+        ...job,
+        ...(job.result && { result: withoutDebug(job.result, false) }),
+        ...(job.error && { error: withoutDebug(job.error, false) }),
+    };
+}
@@ -0,0 +1,173 @@
+/**
+ * DETECTION CACHE TESTS
+ * ======================
+ *
+ * The memory and disk stores, and the caching provider wrapper.
+ *
+ * Run: npm test
+ */
+
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, describe, it, expect } from 'vitest';
+import {
+    cacheKey,
+    createDetectionCache,
+    diskStore,
+    memoryStore,
+    withCache,
+    type CachedDetection,
+} from './detectionCache';
+import { resolvePrompt } from './detectionPrompts';
+import { DEFAULT_PROMPT, type DetectionOutcome, type DetectionProvider } from './detectionProviders';
+import { createLogger } from './logger';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+function entry(level_name: string): CachedDetection {
+    return {
+        detections: {
+            image: { w: 800, h: 600 },
+            level_name,
+            detections: [
+                { label: 'table', category: 'furniture', confidence: 0.9, bounds_normalized: { x: 0.1, y: 0.7, w: 0.4, h: 0.1 } },
+            ],
+        },
+        cleaned: '{}',
+        validation: { attempts: 1, structured_output: false, rejected: [], salvaged: [] },
+    };
+}
+
+/** A provider that counts its calls and answers `outcome` */
+function counting(name: string, outcome: DetectionOutcome = { ok: true, ...entry('Fresh Room') }) {
+    const provider = {
+        calls: 0,
+        name,
+        async detect() {
+            provider.calls++;
+            return outcome;
+        },
+    } satisfies DetectionProvider & { calls: number };
+    return provider;
+}
+
+const image = (bytes: string) => ({ buffer: Buffer.from(bytes), mimetype: 'image/jpeg' });
+
+// ============================================================
+//  Stores
+// ============================================================
+
+describe('memoryStore', () => {
+    it('evicts the least recently used entry', async () => {
+        const store = memoryStore(2);
+        await store.set('a', entry('A'));
+        await store.set('b', entry('B'));
+        await store.get('a');
+        await store.set('c', entry('C'));
+
+        expect(await store.get('a')).toBeDefined();
+        expect(await store.get('b')).toBeUndefined();
+        expect(await store.get('c')).toBeDefined();
+    });
+});
+
+describe('diskStore', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'detection-cache-'));
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('reads back what it wrote, leaving no temp files', async () => {
+        const store = diskStore(path.join(dir, 'nested'));
+        await store.set('k1', entry('Disk Room'));
+        expect(await store.get('k1')).toEqual(entry('Disk Room'));
+        expect(readdirSync(path.join(dir, 'nested'))).toEqual(['k1.json']);
+    });
+
+    it('treats missing, corrupt and invalid files as misses', async () => {
+        const store = diskStore(dir);
+        writeFileSync(path.join(dir, 'corrupt.json'), '{"detections":');
+        writeFileSync(path.join(dir, 'invalid.json'), JSON.stringify({ ...entry('X'), detections: { detections: 'none' } }));
+
+        expect(await store.get('missing')).toBeUndefined();
+        expect(await store.get('corrupt')).toBeUndefined();
+        expect(await store.get('invalid')).toBeUndefined();
+    });
+});
+
+// ============================================================
+//  Caching provider
+// ============================================================
+
+describe('withCache', () => {
+    it('answers a repeat photo from the cache', async () => {
+        const inner = counting('openai:gpt-4o');
+        const provider = withCache(inner, memoryStore(10));
+
+        const first = await provider.detect(image('photo'), log);
+        const second = await provider.detect(image('photo'), log);
+
+        expect(inner.calls).toBe(1);
+        expect(first.ok && first.cache).toEqual({ hit: false, key: cacheKey('openai:gpt-4o', Buffer.from('photo'), DEFAULT_PROMPT.hash) });
+        expect(second.ok && second.cache?.hit).toBe(true);
+        expect(second.ok && second.detections).toEqual(first.ok && first.detections);
+    });
+
+    it('keys by provider as well as image', async () => {
+        const store = memoryStore(10);
+        await withCache(counting('openai:gpt-4o'), store).detect(image('photo'), log);
+
+        const other = counting('compatible:llava');
+        const outcome = await withCache(other, store).detect(image('photo'), log);
+        expect(other.calls).toBe(1);
+        expect(outcome.ok && outcome.cache?.hit).toBe(false);
+    });
+
+    it('keys by prompt as well as image', async () => {
+        const inner = counting('openai:gpt-4o');
+        const provider = withCache(inner, memoryStore(10));
+
+        await provider.detect(image('photo'), log);
+        const outcome = await provider.detect(image('photo'), log, undefined, resolvePrompt(2));
+        expect(inner.calls).toBe(2);
+        expect(outcome.ok && outcome.cache?.hit).toBe(false);
+    });
+
+    it('does not cache failures', async () => {
+        const inner = counting('openai:gpt-4o', { ok: false, status: 502, body: { error: 'AI returned invalid JSON' } });
+        const provider = withCache(inner, memoryStore(10));
+
+        await provider.detect(image('photo'), log);
+        const again = await provider.detect(image('photo'), log);
+        expect(inner.calls).toBe(2);
+        expect(again.ok).toBe(false);
+    });
+
+    it('falls through to the provider when the store fails', async () => {
+        const inner = counting('openai:gpt-4o');
+        const broken = {
+            name: 'broken',
+            get: () => Promise.reject(new Error('disk full')),
+            set: () => Promise.reject(new Error('disk full')),
+        };
+        const outcome = await withCache(inner, broken).detect(image('photo'), log);
+        expect(outcome.ok).toBe(true);
+        expect(inner.calls).toBe(1);
+    });
+});
+
+// ============================================================
+//  Selection
+// ============================================================
+
+describe('createDetectionCache', () => {
+    const cache = { kind: 'memory' as const, size: 200, dir: 'tmp/cache' };
+
+    it('builds a memory store, or none when caching is off', () => {
+        expect(createDetectionCache(cache)?.name).toBe('memory:200');
+        expect(createDetectionCache({ ...cache, kind: 'off' })).toBeUndefined();
+    });
+
+    it('builds a disk store', () => {
+        expect(createDetectionCache({ ...cache, kind: 'disk' })?.name).toBe('disk:tmp/cache');
+    });
+});
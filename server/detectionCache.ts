@@ -0,0 +1,228 @@
+/**
+ * DETECTION CACHE
+ * ================
+ *
+ * Remembers validated detections by image content, so uploading the same
+ * photo again skips the AI call (the build itself is already deterministic:
+ * the same detections derive the same seed).
+ *
+ * withCache() wraps any DetectionProvider. The key is the SHA-256 of the
+ * image bytes together with the provider name and the prompt's hash, so
+ * switching model, provider or prompt never serves another one's answer. Only successful outcomes
+ * are stored; a store that fails is treated as a miss.
+ *
+ * Stores are pluggable:
+ *
+ *   memory → in-process LRU (DETECTION_CACHE_SIZE entries)
+ *   disk   → one JSON file per key in DETECTION_CACHE_DIR, re-validated
+ *            against DetectionResponseSchema when read back
+ *
+ * DETECTION_CACHE picks one (default: memory; "off" disables caching).
+ * The cache sits inside withImagePreprocessing(), so it hashes the photo
+ * as the model gets it: upright, within DETECTION_MAX_EDGE and without
+ * metadata. The same photo with other EXIF, GPS or comments therefore hits.
+ * Matching is still exact on those bytes: a re-encoded or cropped copy
+ * misses, since a perceptual hash would also match photos whose objects
+ * differ slightly, and those must get their own detections.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+    createDetectionProvider,
+    DEFAULT_PROMPT,
+    imageHash,
+    type DetectionProvider,
+} from './detectionProviders';
+import { withPostprocessing } from './detectionPostprocess';
+import { withImagePreprocessing } from './imagePreprocess';
+import type { ServerConfig } from './serverConfig';
+import {
+    DetectionResponseSchema,
+    type DetectionResponse,
+    type DetectionValidation,
+} from '../src/shared/types/Detection';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What is stored per photo: everything a successful outcome carries */
+export interface CachedDetection {
+    detections: DetectionResponse;
+    cleaned: string;
+    validation: DetectionValidation;
+}
+
+export interface DetectionCacheStore {
+    /** Shown in logs, e.g. "memory:200" */
+    readonly name: string;
+    get(key: string): Promise<CachedDetection | undefined>;
+    set(key: string, value: CachedDetection): Promise<void>;
+}
+
+export type DetectionCacheKind = 'memory' | 'disk' | 'off';
+
+/**
+ * Which store to use, read by the server configuration (serverConfig.ts):
+ *
+ *   DETECTION_CACHE       memory | disk | off (default memory)
+ *   DETECTION_CACHE_SIZE  entries the memory store keeps (default 200)
+ *   DETECTION_CACHE_DIR   disk store directory (default .cache/detections)
+ */
+export interface CacheSettings {
+    kind: DetectionCacheKind;
+    size: number;
+    dir: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Entries the memory store keeps unless DETECTION_CACHE_SIZE says otherwise */
+export const DEFAULT_CACHE_SIZE = 200;
+
+/** Disk store directory unless DETECTION_CACHE_DIR says otherwise (relative to cwd) */
+export const DEFAULT_CACHE_DIR = '.cache/detections';
+
+/** Response header reporting hit / miss per photo */
+export const CACHE_HEADER = 'X-Detection-Cache';
+
+export const CACHE_KINDS = ['memory', 'disk', 'off'] as const satisfies readonly DetectionCacheKind[];
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+/** In-process LRU: a Map kept in use order, oldest first. */
+export function memoryStore(maxEntries: number): DetectionCacheStore {
+    const entries = new Map<string, CachedDetection>();
+
+    return {
+        name: `memory:${maxEntries}`,
+        async get(key) {
+            const value = entries.get(key);
+            if (value) {
+                // Move to the back (most recently used)
+                entries.delete(key);
+                entries.set(key, value);
+            }
+            return value;
+        },
+        async set(key, value) {
+            entries.delete(key);
+            entries.set(key, value);
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+    };
+}
+
+/** One `<key>.json` per entry in `dir`. Unreadable or invalid files are misses. */
+export function diskStore(dir: string): DetectionCacheStore {
+    const file = (key: string) => path.join(dir, `${key}.json`);
+
+    return {
+        name: `disk:${dir}`,
+        async get(key) {
+            let stored: Partial<CachedDetection>;
+            try {
+                stored = JSON.parse(await readFile(file(key), 'utf8'));
+            } catch {
+                return undefined;
+            }
+            const detections = DetectionResponseSchema.safeParse(stored.detections);
+            if (!detections.success || typeof stored.cleaned !== 'string' || !stored.validation) {
+                return undefined;
+            }
+            return { detections: detections.data, cleaned: stored.cleaned, validation: stored.validation };
+        },
+        async set(key, value) {
+            await mkdir(dir, { recursive: true });
+            // Write then rename, so a concurrent read never sees half a file
+            const tmp = `${file(key)}.${process.pid}.tmp`;
+            await writeFile(tmp, JSON.stringify(value));
+            await rename(tmp, file(key));
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Caching provider
+// ---------------------------------------------------------------------------
+
+/** Cache key: SHA-256 of the provider name, the prompt's hash and the image's content hash */
+export function cacheKey(providerName: string, image: Buffer, promptHash: string): string {
+    return createHash('sha256').update(`${providerName}\n${promptHash}\n${imageHash(image)}`).digest('hex');
+}
+
+/** `provider`, answering repeat photos from `store`. */
+export function withCache(provider: DetectionProvider, store: DetectionCacheStore): DetectionProvider {
+    return {
+        name: provider.name,
+        async detect(image, log, signal, prompt = DEFAULT_PROMPT, onStage) {
+            const key = cacheKey(provider.name, image.buffer, prompt.hash);
+
+            const cached = await store.get(key).catch((err) => {
+                log.warn('cache read failed', { store: store.name, err });
+                return undefined;
+            });
+            if (cached) {
+                log.info('cache hit', { key: key.substring(0, 12), objects: cached.detections.detections.length });
+                return { ok: true, ...cached, cache: { hit: true, key } };
+            }
+
+            const outcome = await provider.detect(image, log, signal, prompt, onStage);
+            if (!outcome.ok) return outcome;
+
+            const { detections, cleaned, validation } = outcome;
+            await store.set(key, { detections, cleaned, validation }).catch((err) => {
+                log.warn('cache write failed', { store: store.name, err });
+            });
+            return { ...outcome, cache: { hit: false, key } };
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Selection from the configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the store `cache.kind` selects (undefined when caching is off).
+ */
+export function createDetectionCache(cache: CacheSettings): DetectionCacheStore | undefined {
+    switch (cache.kind) {
+        case 'memory':
+            return memoryStore(cache.size);
+        case 'disk':
+            return diskStore(cache.dir);
+        case 'off':
+            return undefined;
+    }
+}
+
+/**
+ * The configured provider (with the configured model), behind the
+ * configured cache, handed preprocessed photos no larger than
+ * DETECTION_MAX_EDGE (see imagePreprocess.ts), with the configured
+ * post-processing on top (see detectionPostprocess.ts). What both
+ * entrypoints use. `wrap` is applied inside the cache (e.g. the AI
+ * concurrency limit), so cache hits skip it.
+ */
+export function createCachedDetectionProvider(
+    config: Pick<ServerConfig, 'provider' | 'detection' | 'cache' | 'imageMaxEdge' | 'postprocess'>,
+    wrap: (provider: DetectionProvider) => DetectionProvider = (provider) => provider,
+): { ok: true; value: DetectionProvider } | { ok: false; error: string } {
+    const provider = createDetectionProvider(config.provider, config.detection);
+    if (!provider.ok) return provider;
+
+    const cache = createDetectionCache(config.cache);
+    const inner = wrap(provider.value);
+    const cached = cache ? withCache(inner, cache) : inner;
+    const preprocessed = withImagePreprocessing(cached, config.imageMaxEdge);
+    return { ok: true, value: config.postprocess ? withPostprocessing(preprocessed, config.postprocess) : preprocessed };
+}
@@ -0,0 +1,153 @@
+/**
+ * DETECTION POST-PROCESSING TESTS
+ * ================================
+ *
+ * Label normalization, clamping, the confidence threshold, NMS, merging,
+ * the notes explaining each change, the provider wrapper, and
+ * configuration from the environment.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createPostprocessConfig,
+    DEFAULT_POSTPROCESS,
+    iou,
+    normalizeLabel,
+    postprocessDetections,
+    withPostprocessing,
+} from './detectionPostprocess';
+import type { DetectionProvider } from './detectionProviders';
+import { createLogger } from './logger';
+import type { Detection, DetectionResponse } from '../src/shared/types/Detection';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+function detection(label: string, x: number, y: number, w: number, h: number, confidence = 0.9): Detection {
+    return { label, category: 'furniture', confidence, bounds_normalized: { x, y, w, h } };
+}
+
+function photo(...detections: Detection[]): DetectionResponse {
+    return { image: { w: 800, h: 600 }, level_name: 'Den', detections };
+}
+
+// ============================================================
+//  Steps
+// ============================================================
+
+describe('postprocessDetections', () => {
+    it('maps labels through the synonyms', () => {
+        const { detections, postprocess } = postprocessDetections(photo(detection('  Couch ', 0.1, 0.6, 0.4, 0.2)), DEFAULT_POSTPROCESS);
+        expect(detections.detections[0].label).toBe('sofa');
+        expect(postprocess.notes).toEqual(['detections.0 (  Couch ): relabeled "sofa"']);
+        expect(normalizeLabel('Coffee  Table', DEFAULT_POSTPROCESS.synonyms)).toBe('table');
+    });
+
+    it('drops low-confidence guesses and empty boxes, and clamps the rest', () => {
+        const { detections, postprocess } = postprocessDetections(photo(
+            detection('lamp', 0.1, 0.1, 0.1, 0.1, 0.1),
+            detection('shelf', 0.5, 0.5, 0, 0.1),
+            detection('table', 0.8, 0.7, 0.4, 0.2),
+        ), DEFAULT_POSTPROCESS);
+
+        expect(detections.detections).toHaveLength(1);
+        expect(detections.detections[0].bounds_normalized.w).toBeCloseTo(0.2);
+        expect(postprocess.notes).toEqual([
+            'detections.0 (lamp): dropped (confidence 0.1 < 0.25)',
+            'detections.1 (shelf): dropped (empty box)',
+            'detections.2 (table): clamped into the frame',
+        ]);
+    });
+
+    it('keeps the most confident of overlapping same-label boxes', () => {
+        const { detections, postprocess } = postprocessDetections(photo(
+            detection('table', 0.1, 0.6, 0.4, 0.2, 0.7),
+            detection('table', 0.12, 0.61, 0.4, 0.2, 0.95),
+            detection('cup', 0.12, 0.61, 0.4, 0.2, 0.5),
+        ), DEFAULT_POSTPROCESS);
+
+        expect(detections.detections.map((d) => [d.label, d.confidence])).toEqual([['table', 0.95], ['cup', 0.5]]);
+        expect(postprocess.notes).toEqual(['detections.0 (table): dropped (duplicate of detections.1, IoU 0.82)']);
+    });
+
+    it('merges same-label boxes side by side into one', () => {
+        const { detections, postprocess } = postprocessDetections(photo(
+            detection('sofa', 0.1, 0.5, 0.3, 0.2, 0.8),
+            detection('sofa', 0.41, 0.52, 0.3, 0.2, 0.6),
+            detection('sofa', 0.1, 0.1, 0.3, 0.1, 0.6),
+        ), DEFAULT_POSTPROCESS);
+
+        expect(detections.detections).toHaveLength(2);
+        const merged = detections.detections[0];
+        expect(merged.confidence).toBe(0.8);
+        expect(merged.bounds_normalized.x).toBeCloseTo(0.1);
+        expect(merged.bounds_normalized.w).toBeCloseTo(0.61);
+        expect(merged.bounds_normalized.h).toBeCloseTo(0.22);
+        expect(postprocess.notes).toEqual(['detections.1 (sofa): merged into detections.0']);
+    });
+
+    it('keeps the detections from before and leaves names alone', () => {
+        const input = photo(detection('lamp', 0.1, 0.1, 0.1, 0.1, 0.1));
+        const { detections, postprocess } = postprocessDetections(input, DEFAULT_POSTPROCESS);
+        expect(postprocess.before).toBe(input.detections);
+        expect(detections).toMatchObject({ image: input.image, level_name: 'Den', detections: [] });
+    });
+});
+
+describe('iou', () => {
+    it('is 1 for the same box and 0 for disjoint ones', () => {
+        const box = { x: 0.1, y: 0.1, w: 0.2, h: 0.2 };
+        expect(iou(box, box)).toBeCloseTo(1);
+        expect(iou(box, { x: 0.5, y: 0.5, w: 0.2, h: 0.2 })).toBe(0);
+    });
+});
+
+// ============================================================
+//  Provider wrapper
+// ============================================================
+
+describe('withPostprocessing', () => {
+    it('cleans successful outcomes and records what changed', async () => {
+        const inner: DetectionProvider = {
+            name: 'fixed',
+            detect: async () => ({
+                ok: true,
+                detections: photo(detection('Couch', 0.1, 0.6, 0.4, 0.2)),
+                cleaned: '{}',
+                validation: { attempts: 1, structured_output: false, rejected: [], salvaged: [] },
+            }),
+        };
+        const outcome = await withPostprocessing(inner, DEFAULT_POSTPROCESS).detect({ buffer: Buffer.from('x'), mimetype: 'image/jpeg' }, log);
+
+        expect(outcome.ok && outcome.detections.detections[0].label).toBe('sofa');
+        expect(outcome.ok && outcome.postprocess?.before[0].label).toBe('Couch');
+    });
+});
+
+// ============================================================
+//  Configuration
+// ============================================================
+
+describe('createPostprocessConfig', () => {
+    it('uses the defaults and reads overrides and extra synonyms', () => {
+        const made = createPostprocessConfig({ DETECTION_MIN_CONFIDENCE: '0.5', DETECTION_SYNONYMS: 'Armchair=chair, worktop = counter' });
+        expect(made.ok && made.value).toMatchObject({ minConfidence: 0.5, nmsIou: 0.5, mergeGap: 0.02 });
+        expect(made.ok && made.value?.synonyms.get('armchair')).toBe('chair');
+        expect(made.ok && made.value?.synonyms.get('worktop')).toBe('counter');
+        expect(made.ok && made.value?.synonyms.get('couch')).toBe('sofa');
+    });
+
+    it('can be turned off', () => {
+        expect(createPostprocessConfig({ DETECTION_POSTPROCESS: 'off' })).toEqual({ ok: true, value: undefined });
+    });
+
+    it('rejects bad settings', () => {
+        expect(createPostprocessConfig({ DETECTION_NMS_IOU: '2' })).toEqual({
+            ok: false,
+            error: 'DETECTION_NMS_IOU must be a number from 0 to 1',
+        });
+        expect(createPostprocessConfig({ DETECTION_SYNONYMS: 'chair' }).ok).toBe(false);
+        expect(createPostprocessConfig({ DETECTION_POSTPROCESS: 'maybe' }).ok).toBe(false);
+    });
+});
@@ -0,0 +1,299 @@
+/**
+ * DETECTION POST-PROCESSING
+ * ==========================
+ *
+ * Cleans a photo's validated detections before the level builder sees
+ * them. Models report the same table twice, split one sofa into halves,
+ * and add guesses they hardly believe; each of those would become a
+ * platform. In order:
+ *
+ *   1. labels   → lowercased, whitespace collapsed, synonyms mapped
+ *                 ("couch" → "sofa"), so the steps below compare like with like
+ *   2. clamp    → boxes kept inside the frame; empty boxes dropped
+ *   3. threshold→ detections below DETECTION_MIN_CONFIDENCE dropped
+ *   4. NMS      → of two same-label boxes overlapping by IoU ≥ DETECTION_NMS_IOU,
+ *                 the less confident one is dropped
+ *   5. merge    → same-label boxes side by side (or stacked) within
+ *                 DETECTION_MERGE_GAP of each other become one box
+ *
+ * Every change is noted, and the detections from before are kept, so
+ * `_debug.detections` shows what was filtered and why (see
+ * DetectionPostprocess). A rebuild runs them again from the stored
+ * `before`, so it follows the current settings too.
+ *
+ * withPostprocessing() wraps a DetectionProvider; it sits outside the
+ * cache, so cached answers are cleaned with the current settings.
+ */
+
+import type { DetectionProvider } from './detectionProviders';
+import type {
+    Detection,
+    DetectionPostprocess,
+    DetectionResponse,
+} from '../src/shared/types/Detection';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PostprocessConfig {
+    /** Detections below this confidence are dropped */
+    minConfidence: number;
+    /** Same-label boxes overlapping by at least this IoU are duplicates */
+    nmsIou: number;
+    /** Largest gap (normalized) between same-label boxes that are merged */
+    mergeGap: number;
+    /** Lowercase label → the label it stands for */
+    synonyms: Map<string, string>;
+}
+
+type Bounds = Detection['bounds_normalized'];
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Labels the level builder's patterns know under another name */
+export const DEFAULT_SYNONYMS: Readonly<Record<string, string>> = {
+    couch: 'sofa',
+    settee: 'sofa',
+    'coffee table': 'table',
+    'dining table': 'table',
+    desk: 'table',
+    television: 'tv',
+    'tv screen': 'tv',
+    monitor: 'screen',
+    'potted plant': 'plant',
+    houseplant: 'plant',
+    'house plant': 'plant',
+    mug: 'cup',
+    'throw pillow': 'cushion',
+};
+
+export const DEFAULT_POSTPROCESS: PostprocessConfig = {
+    minConfidence: 0.25,
+    nmsIou: 0.5,
+    mergeGap: 0.02,
+    synonyms: new Map(Object.entries(DEFAULT_SYNONYMS)),
+};
+
+/** Share of the shorter side two boxes must overlap on to be merged across the other */
+const MERGE_MIN_ALIGNMENT = 0.5;
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+const area = (b: Bounds) => b.w * b.h;
+
+/** Overlap of the spans [a, a + al) and [b, b + bl); negative for a gap */
+const overlap = (a: number, al: number, b: number, bl: number) =>
+    Math.min(a + al, b + bl) - Math.max(a, b);
+
+/** Intersection over union of two boxes, 0–1 */
+export function iou(a: Bounds, b: Bounds): number {
+    const w = overlap(a.x, a.w, b.x, b.w);
+    const h = overlap(a.y, a.h, b.y, b.h);
+    if (w <= 0 || h <= 0) return 0;
+    const inter = w * h;
+    return inter / (area(a) + area(b) - inter);
+}
+
+/**
+ * Whether two boxes are side by side or stacked: at most `gap` apart on
+ * one axis, and lined up along the other.
+ */
+function adjacent(a: Bounds, b: Bounds, gap: number): boolean {
+    const across = overlap(a.x, a.w, b.x, b.w);
+    const down = overlap(a.y, a.h, b.y, b.h);
+    const lined = (span: number, al: number, bl: number) => span >= MERGE_MIN_ALIGNMENT * Math.min(al, bl);
+    return (across >= -gap && lined(down, a.h, b.h)) || (down >= -gap && lined(across, a.w, b.w));
+}
+
+/** Smallest box holding both */
+function union(a: Bounds, b: Bounds): Bounds {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        w: Math.max(a.x + a.w, b.x + b.w) - x,
+        h: Math.max(a.y + a.h, b.y + b.h) - y,
+    };
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// Post-processing
+// ---------------------------------------------------------------------------
+
+/** Lowercase, single-spaced label with synonyms mapped */
+export function normalizeLabel(label: string, synonyms: Map<string, string>): string {
+    const clean = label.toLowerCase().replace(/\s+/g, ' ').trim();
+    return synonyms.get(clean) ?? clean;
+}
+
+/**
+ * Run the steps in the header over one photo's detections. Notes refer to
+ * detections by their index in `before`.
+ */
+export function postprocessDetections(
+    response: DetectionResponse,
+    config: PostprocessConfig,
+): { detections: DetectionResponse; postprocess: DetectionPostprocess } {
+    const before = response.detections;
+    const notes: string[] = [];
+    const at = (i: number) => `detections.${i} (${before[i].label})`;
+
+    // 1–3: one detection at a time
+    let kept: { index: number; det: Detection }[] = [];
+    before.forEach((det, index) => {
+        const label = normalizeLabel(det.label, config.synonyms);
+        if (label !== det.label) {
+            notes.push(`${at(index)}: relabeled "${label}"`);
+        }
+
+        const { x: rawX, y: rawY, w: rawW, h: rawH } = det.bounds_normalized;
+        const x = Math.min(1, Math.max(0, rawX));
+        const y = Math.min(1, Math.max(0, rawY));
+        const bounds = { x, y, w: Math.min(Math.max(0, rawW), 1 - x), h: Math.min(Math.max(0, rawH), 1 - y) };
+        if (bounds.w === 0 || bounds.h === 0) {
+            notes.push(`${at(index)}: dropped (empty box)`);
+            return;
+        }
+        if (bounds.x !== rawX || bounds.y !== rawY || bounds.w !== rawW || bounds.h !== rawH) {
+            notes.push(`${at(index)}: clamped into the frame`);
+        }
+
+        if (det.confidence < config.minConfidence) {
+            notes.push(`${at(index)}: dropped (confidence ${round(det.confidence)} < ${config.minConfidence})`);
+            return;
+        }
+
+        kept.push({ index, det: { ...det, label, bounds_normalized: bounds } });
+    });
+
+    // 4: most confident first, so each box is only compared with better ones
+    kept.sort((a, b) => b.det.confidence - a.det.confidence || a.index - b.index);
+    const survivors: typeof kept = [];
+    for (const entry of kept) {
+        const overlapping = (s: typeof entry) => {
+            const score = iou(s.det.bounds_normalized, entry.det.bounds_normalized);
+            return s.det.label === entry.det.label && score > 0 && score >= config.nmsIou;
+        };
+        const duplicate = survivors.find(overlapping);
+        if (duplicate) {
+            const score = iou(duplicate.det.bounds_normalized, entry.det.bounds_normalized);
+            notes.push(`${at(entry.index)}: dropped (duplicate of detections.${duplicate.index}, IoU ${round(score)})`);
+            continue;
+        }
+        survivors.push(entry);
+    }
+    kept = survivors;
+
+    // 5: merge until no pair is left (a merged box can reach a third one)
+    for (let merged = true; merged;) {
+        merged = false;
+        for (let i = 0; i < kept.length && !merged; i++) {
+            for (let j = i + 1; j < kept.length && !merged; j++) {
+                const a = kept[i].det;
+                const b = kept[j].det;
+                if (a.label !== b.label || !adjacent(a.bounds_normalized, b.bounds_normalized, config.mergeGap)) continue;
+                notes.push(`${at(kept[j].index)}: merged into detections.${kept[i].index}`);
+                kept[i] = {
+                    index: kept[i].index,
+                    det: { ...a, confidence: Math.max(a.confidence, b.confidence), bounds_normalized: union(a.bounds_normalized, b.bounds_normalized) },
+                };
+                kept.splice(j, 1);
+                merged = true;
+            }
+        }
+    }
+
+    // Back in the model's order
+    kept.sort((a, b) => a.index - b.index);
+    return {
+        detections: { ...response, detections: kept.map((k) => k.det) },
+        postprocess: { before, notes },
+    };
+}
+
+/** `provider`, with every successful outcome post-processed. */
+export function withPostprocessing(provider: DetectionProvider, config: PostprocessConfig): DetectionProvider {
+    return {
+        name: provider.name,
+        async detect(image, log, signal, prompt, onStage) {
+            const outcome = await provider.detect(image, log, signal, prompt, onStage);
+            if (!outcome.ok) return outcome;
+
+            const { detections, postprocess } = postprocessDetections(outcome.detections, config);
+            if (postprocess.notes.length > 0) {
+                log.info('post-processed detections', {
+                    before: postprocess.before.length,
+                    after: detections.detections.length,
+                    changes: postprocess.notes.length,
+                });
+            }
+            return { ...outcome, detections, postprocess };
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the post-processing settings from the environment (undefined when
+ * post-processing is off).
+ *
+ * Environment:
+ *   DETECTION_POSTPROCESS     on | off (default on)
+ *   DETECTION_MIN_CONFIDENCE  0–1 (default 0.25)
+ *   DETECTION_NMS_IOU         0–1 (default 0.5)
+ *   DETECTION_MERGE_GAP       0–1, normalized (default 0.02)
+ *   DETECTION_SYNONYMS        extra "from=to" pairs, comma-separated
+ *                             (e.g. "armchair=chair,worktop=counter")
+ */
+export function createPostprocessConfig(
+    env: Record<string, string | undefined>,
+): { ok: true; value: PostprocessConfig | undefined } | { ok: false; error: string } {
+    const mode = env.DETECTION_POSTPROCESS?.trim() || 'on';
+    if (mode !== 'on' && mode !== 'off') {
+        return { ok: false, error: 'DETECTION_POSTPROCESS must be one of on, off' };
+    }
+    if (mode === 'off') {
+        return { ok: true, value: undefined };
+    }
+
+    const settings = [
+        ['DETECTION_MIN_CONFIDENCE', 'minConfidence'],
+        ['DETECTION_NMS_IOU', 'nmsIou'],
+        ['DETECTION_MERGE_GAP', 'mergeGap'],
+    ] as const;
+
+    const value: PostprocessConfig = { ...DEFAULT_POSTPROCESS, synonyms: new Map(DEFAULT_POSTPROCESS.synonyms) };
+    for (const [name, field] of settings) {
+        const setting = env[name]?.trim();
+        if (!setting) continue;
+        const n = Number(setting);
+        if (!Number.isFinite(n) || n < 0 || n > 1) {
+            return { ok: false, error: `${name} must be a number from 0 to 1` };
+        }
+        value[field] = n;
+    }
+
+    for (const pair of (env.DETECTION_SYNONYMS ?? '').split(',')) {
+        if (!pair.trim()) continue;
+        const [from, to, ...rest] = pair.split('=');
+        const key = normalizeLabel(from ?? '', new Map());
+        const label = normalizeLabel(to ?? '', new Map());
+        if (!key || !label || rest.length > 0) {
+            return { ok: false, error: `DETECTION_SYNONYMS entries must look like "from=to" (got "${pair.trim()}")` };
+        }
+        value.synonyms.set(key, label);
+    }
+
+    return { ok: true, value };
+}
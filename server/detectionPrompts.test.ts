@@ -0,0 +1,81 @@
+/**
+ * DETECTION PROMPT TESTS
+ * =======================
+ *
+ * The template registry, putting prompts together by version and locale,
+ * and picking one for an upload.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_PROMPT_VERSION,
+    PROMPT_TEMPLATES,
+    PROMPT_VERSIONS,
+    resolvePrompt,
+    selectPrompt,
+} from './detectionPrompts';
+
+// ============================================================
+//  Registry
+// ============================================================
+
+describe('PROMPT_TEMPLATES', () => {
+    it('has one template per name, version and locale', () => {
+        const keys = PROMPT_TEMPLATES.map((t) => `${t.name}@${t.version}.${t.locale ?? ''}`);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('has the templates of every prompt version', () => {
+        for (const version of Object.keys(PROMPT_VERSIONS).map(Number)) {
+            expect(() => resolvePrompt(version)).not.toThrow();
+        }
+    });
+});
+
+// ============================================================
+//  Resolving
+// ============================================================
+
+describe('resolvePrompt', () => {
+    it('names its templates and hashes its text', () => {
+        const prompt = resolvePrompt(DEFAULT_PROMPT_VERSION);
+        expect(prompt).toMatchObject({ id: 'detection@1+naming@1', version: 1, locale: 'en' });
+        expect(prompt.hash).toMatch(/^[0-9a-f]{12}$/);
+        expect(prompt.text).toContain('RESPOND WITH ONLY VALID JSON');
+        expect(prompt.text).toContain('Kitchen Quest');
+    });
+
+    it('gives every version and locale its own hash', () => {
+        const hashes = [resolvePrompt(1), resolvePrompt(2), resolvePrompt(1, 'de')].map((p) => p.hash);
+        expect(new Set(hashes).size).toBe(3);
+        expect(resolvePrompt(2).hash).toBe(resolvePrompt(2).hash);
+    });
+
+    it('picks the naming variant of a locale, and English for others', () => {
+        expect(resolvePrompt(2, 'de-DE')).toMatchObject({ id: 'detection@2+naming@1.de', locale: 'de' });
+        expect(resolvePrompt(2, 'de-DE').text).toContain('in German');
+        expect(resolvePrompt(1, 'ja-JP')).toMatchObject({ id: 'detection@1+naming@1', locale: 'en' });
+    });
+});
+
+describe('selectPrompt', () => {
+    it('uses the configured version unless the request asks for another', () => {
+        expect(selectPrompt(2, {}, {})).toMatchObject({ ok: true, value: { version: 2 } });
+        expect(selectPrompt(2, { 'x-prompt-version': '1' }, { locale: 'fr' })).toMatchObject({
+            ok: true,
+            value: { version: 1, id: 'detection@1+naming@1.fr' },
+        });
+    });
+
+    it('rejects an unknown version with a 400', () => {
+        for (const asked of ['7', 'latest', '1.5']) {
+            expect(selectPrompt(1, { 'x-prompt-version': asked }, {})).toMatchObject({
+                ok: false,
+                status: 400,
+                body: { code: 'INVALID_REQUEST' },
+            });
+        }
+    });
+});
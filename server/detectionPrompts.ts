@@ -0,0 +1,207 @@
+/**
+ * DETECTION PROMPTS
+ * ==================
+ *
+ * The registry of what the chat providers ask the model. Prompts are put
+ * together from named, versioned templates, and a published template's
+ * text never changes: a tweak is a new version, so a level's `prompt` (id
+ * and hash) says exactly what the model was asked.
+ *
+ *   detection@1   objects, boxes and the JSON format
+ *   detection@2   as 1, with box tops on the surfaces players stand on
+ *   naming@1      player and level names (locale variants: de, es, fr)
+ *
+ * A prompt version (PROMPT_VERSIONS) is one detection and one naming
+ * template; its id names both, and the naming locale when it isn't
+ * English, e.g. "detection@2+naming@1.de". The hash is the first 12 hex
+ * characters of the SHA-256 of the text.
+ *
+ * DETECTION_PROMPT_VERSION picks the version (default 1); a request may
+ * ask for another with x-prompt-version, for A/B comparisons. The upload's
+ * "locale" field (e.g. "de-DE") picks the naming variant, English when
+ * there is none.
+ */
+
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { apiError } from './apiErrors';
+import type { DetectionPromptRef } from '../src/shared/types/Detection';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PromptTemplateName = 'detection' | 'naming';
+
+export interface PromptTemplate {
+    name: PromptTemplateName;
+    version: number;
+    /** Language the template asks for, e.g. "de"; English when unset */
+    locale?: string;
+    text: string;
+}
+
+/** Which templates a prompt version is made of */
+interface PromptComposition {
+    detection: number;
+    naming: number;
+}
+
+/** The prompt a detection is asked with */
+export interface DetectionPrompt extends DetectionPromptRef {
+    version: number;
+    /** Naming locale, "en" unless a variant matched */
+    locale: string;
+    /** The system message */
+    text: string;
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+const DETECTION_V1 = `You are an object detection AI. You receive a photo and detect objects in it.
+
+RESPOND WITH ONLY VALID JSON — no markdown, no backticks, no explanation.
+
+Detect objects visible in the photo. For each object, return its label, category, confidence, and bounding box in normalized coordinates (0.0 to 1.0 relative to image dimensions).
+
+{
+  "image": { "w": <estimated_width>, "h": <estimated_height> },
+  "player_name": "<adjective-adjective-noun>",
+  "level_name": "<creative level name based on photo>",
+  "detections": [
+    {
+      "label": "<what the object is>",
+      "category": "furniture | food | plant | electric | other",
+      "confidence": <0.0-1.0>,
+      "bounds_normalized": { "x": <left>, "y": <top>, "w": <width>, "h": <height> }
+    }
+  ]
+}
+
+RULES:
+- bounds_normalized: x,y is the top-left corner. w,h is width and height as fraction of image.
+- Detect ALL visible objects: tables, chairs, books, cups, plants, screens, cables, boxes, shelves, food, etc.
+- Estimate image dimensions from typical phone photos (e.g. 4032x3024). If unsure use 1280x720.
+- Return up to 15 detections, prioritizing larger and more distinct objects.
+- Be accurate with bounding boxes — they should tightly fit the object.
+- category must be one of: furniture, food, plant, electric, other.
+- Prefer detecting flat horizontal surfaces (tables, shelves, counters, desks, books, window sills) — these are the most important objects.`;
+
+const DETECTION_V2 = `${DETECTION_V1}
+- For a flat surface, the top of its box must be the top of the surface (where something placed on it would rest), not the top of anything standing on it.`;
+
+/** The player name rule every naming variant shares (the name must match PLAYER_NAME_PATTERN) */
+const PLAYER_NAME_RULE = '- player_name: always English, lowercase with hyphens, family-friendly. Use fun adjectives and an animal or nature noun. Examples: "brave-sparkly-penguin", "fuzzy-cosmic-otter", "cheerful-mighty-fox".';
+
+/** naming@1 in the language `language`, with level name examples in it */
+function namingV1(language: string, examples: string[]): string {
+    return `NAMES:
+1. player_name: a fun player name in the format "adjective-adjective-noun" (noun must be a nature thing or animal)
+2. level_name: a creative level name inspired by what you see in the photo (2-4 words, title case)
+
+${PLAYER_NAME_RULE}
+- level_name: a short creative title in ${language}, inspired by the scene in the photo. Family-friendly, title case. Examples: ${examples.map((e) => `"${e}"`).join(', ')}.`;
+}
+
+/** Every template; the text of a published one never changes */
+export const PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+    { name: 'detection', version: 1, text: DETECTION_V1 },
+    { name: 'detection', version: 2, text: DETECTION_V2 },
+    { name: 'naming', version: 1, text: namingV1('English', ['Kitchen Quest', 'Sunny Garden Dash', 'Cozy Bookshelf Canyon']) },
+    { name: 'naming', version: 1, locale: 'de', text: namingV1('German', ['Küchen-Abenteuer', 'Sonniger Gartenlauf', 'Gemütliche Regalschlucht']) },
+    { name: 'naming', version: 1, locale: 'es', text: namingV1('Spanish', ['Aventura en la Cocina', 'Carrera del Jardín Soleado', 'Cañón de la Estantería']) },
+    { name: 'naming', version: 1, locale: 'fr', text: namingV1('French', ['Quête de la Cuisine', 'Course au Jardin Ensoleillé', 'Canyon de la Bibliothèque']) },
+];
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** The templates of each prompt version */
+export const PROMPT_VERSIONS: Readonly<Record<number, PromptComposition>> = {
+    1: { detection: 1, naming: 1 },
+    2: { detection: 2, naming: 1 },
+};
+
+/** Version asked with unless DETECTION_PROMPT_VERSION says otherwise */
+export const DEFAULT_PROMPT_VERSION = 1;
+
+/** Header a request picks a prompt version with, e.g. "x-prompt-version: 2" */
+export const PROMPT_HEADER = 'x-prompt-version';
+
+/** Locale of the templates without a `locale` */
+const DEFAULT_LOCALE = 'en';
+
+/** Characters of the SHA-256 kept as the prompt hash */
+const HASH_LENGTH = 12;
+
+// ---------------------------------------------------------------------------
+// Resolving
+// ---------------------------------------------------------------------------
+
+export function isPromptVersion(version: number): boolean {
+    return Number.isInteger(version) && PROMPT_VERSIONS[version] !== undefined;
+}
+
+/** The language of a locale like "de-DE", if a template is written in it */
+function templateLocale(locale: unknown): string | undefined {
+    if (typeof locale !== 'string') return undefined;
+    const language = locale.trim().toLowerCase().split(/[-_]/)[0];
+    return PROMPT_TEMPLATES.some((t) => t.locale === language) ? language : undefined;
+}
+
+function findTemplate(name: PromptTemplateName, version: number, locale: string | undefined): PromptTemplate {
+    const found = PROMPT_TEMPLATES.find((t) => t.name === name && t.version === version && t.locale === locale)
+        ?? PROMPT_TEMPLATES.find((t) => t.name === name && t.version === version && t.locale === undefined);
+    if (!found) throw new Error(`No prompt template ${name}@${version}`);
+    return found;
+}
+
+/**
+ * The prompt of `version` (one of PROMPT_VERSIONS) with names in `locale`
+ * when there is a variant for it.
+ */
+export function resolvePrompt(version: number, locale?: unknown): DetectionPrompt {
+    const composition = PROMPT_VERSIONS[version];
+    if (!composition) throw new Error(`No prompt version ${version}`);
+    const language = templateLocale(locale);
+    const detection = findTemplate('detection', composition.detection, undefined);
+    const naming = findTemplate('naming', composition.naming, language);
+
+    const text = `${detection.text}\n\n${naming.text}`;
+    const id = `detection@${detection.version}+naming@${naming.version}${naming.locale ? `.${naming.locale}` : ''}`;
+    return {
+        id,
+        hash: createHash('sha256').update(text).digest('hex').substring(0, HASH_LENGTH),
+        version,
+        locale: naming.locale ?? DEFAULT_LOCALE,
+        text,
+    };
+}
+
+/**
+ * The prompt for an upload: the version its PROMPT_HEADER asks for, else
+ * `version` (DETECTION_PROMPT_VERSION), in its "locale" field's language.
+ * An unknown version in the header is a 400.
+ */
+export function selectPrompt(
+    version: number,
+    headers: IncomingMessage['headers'],
+    fields: Record<string, unknown>,
+): { ok: true; value: DetectionPrompt } | { ok: false; status: number; body: Record<string, unknown> } {
+    const asked = headers[PROMPT_HEADER];
+    if (typeof asked === 'string' && asked.trim()) {
+        const requested = Number(asked);
+        if (!isPromptVersion(requested)) {
+            return {
+                ok: false,
+                status: 400,
+                body: apiError('INVALID_REQUEST', `Unknown prompt version "${asked}". Known: ${Object.keys(PROMPT_VERSIONS).join(', ')}.`),
+            };
+        }
+        return { ok: true, value: resolvePrompt(requested, fields.locale) };
+    }
+    return { ok: true, value: resolvePrompt(version, fields.locale) };
+}
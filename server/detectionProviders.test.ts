@@ -0,0 +1,209 @@
+/**
+ * DETECTION PROVIDER TESTS
+ * =========================
+ *
+ * Provider selection from the configuration, parsing of model output, the
+ * offline fixture provider, and the repair loop of the chat completions
+ * provider (against a local server that answers from a script).
+ *
+ * Run: npm test
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import {
+    chatCompletionsProvider,
+    createDetectionProvider,
+    fixtureProvider,
+    imageHash,
+    parseDetectionText,
+} from './detectionProviders';
+import { resolvePrompt } from './detectionPrompts';
+import { buildLevel } from './levelBuilder';
+import { createLogger } from './logger';
+import { parseSceneV1 } from '../src/shared/schema/scene_v1.schema';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+const recorded = {
+    image: { w: 800, h: 600 },
+    level_name: 'Recorded Room',
+    detections: [
+        { label: 'table', category: 'furniture', confidence: 0.9, bounds_normalized: { x: 0.1, y: 0.7, w: 0.4, h: 0.1 } },
+    ],
+};
+
+const image = (bytes: string) => ({ buffer: Buffer.from(bytes), mimetype: 'image/jpeg' });
+
+// ============================================================
+//  Selection
+// ============================================================
+
+describe('createDetectionProvider', () => {
+    const settings = { detail: 'low' as const, maxTokens: 1500 };
+    const openai = { kind: 'openai' as const, structuredOutput: true, repairRetries: 2, fixturesDir: 'some/dir' };
+
+    it('builds OpenAI with its key, and needs one', () => {
+        expect(createDetectionProvider(openai, settings)).toEqual({ ok: false, error: 'missing OPENAI_API_KEY' });
+
+        const made = createDetectionProvider({ ...openai, openaiApiKey: 'sk-test' }, settings);
+        expect(made.ok && made.value.name).toBe('openai:gpt-4o');
+    });
+
+    it('builds an OpenAI-compatible provider from a base URL and model', () => {
+        const compatible = { ...openai, kind: 'compatible' as const, baseUrl: 'http://localhost:11434/v1' };
+        expect(createDetectionProvider(compatible, settings)).toEqual({ ok: false, error: 'missing DETECTION_MODEL' });
+        expect(createDetectionProvider({ ...compatible, baseUrl: undefined }, settings)).toEqual({ ok: false, error: 'missing DETECTION_BASE_URL' });
+
+        const made = createDetectionProvider(compatible, { ...settings, model: 'llava' });
+        expect(made.ok && made.value.name).toBe('compatible:llava');
+    });
+
+    it('builds the fixture provider without any key', () => {
+        const made = createDetectionProvider({ ...openai, kind: 'fixture' }, settings);
+        expect(made.ok && made.value.name).toBe('fixture:some/dir');
+    });
+});
+
+// ============================================================
+//  Parsing model output
+// ============================================================
+
+describe('parseDetectionText', () => {
+    it('strips markdown fences', () => {
+        const outcome = parseDetectionText('```json\n' + JSON.stringify(recorded) + '\n```', log);
+        expect(outcome.ok && outcome.detections).toEqual(recorded);
+    });
+
+    it('rejects invalid JSON and answers without detections', () => {
+        expect(parseDetectionText('not json', log)).toMatchObject({ ok: false, error: 'AI returned invalid JSON' });
+        expect(parseDetectionText('{"image":{"w":1,"h":1}}', log)).toMatchObject({
+            ok: false,
+            errors: ['detections: expected an array'],
+        });
+    });
+
+    it('salvages what it can', () => {
+        const answer = { ...recorded, detections: [...recorded.detections, { label: 'lamp', category: 'spaceship' }] };
+        const outcome = parseDetectionText(JSON.stringify(answer), log);
+        expect(outcome.ok && outcome.detections.detections).toHaveLength(1);
+        expect(outcome.ok && outcome.salvaged[0]).toMatch(/^detections\.1: dropped/);
+    });
+});
+
+// ============================================================
+//  Fixtures
+// ============================================================
+
+describe('fixtureProvider', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'detections-'));
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('serves the recording for the image hash', async () => {
+        writeFileSync(path.join(dir, `${imageHash(Buffer.from('photo-a'))}.json`), JSON.stringify(recorded));
+        const outcome = await fixtureProvider(dir).detect(image('photo-a'), log);
+        expect(outcome.ok && outcome.detections).toEqual(recorded);
+    });
+
+    it('answers 404 for an unknown image when there is no default', async () => {
+        const outcome = await fixtureProvider(dir).detect(image('photo-b'), log);
+        expect(outcome).toMatchObject({ ok: false, status: 404 });
+    });
+
+    it('falls back to default.json', async () => {
+        writeFileSync(path.join(dir, 'default.json'), JSON.stringify({ ...recorded, level_name: 'Default Room' }));
+        const outcome = await fixtureProvider(dir).detect(image('photo-b'), log);
+        expect(outcome.ok && outcome.detections.level_name).toBe('Default Room');
+    });
+
+    it('the bundled default fixture builds a valid level', async () => {
+        const outcome = await fixtureProvider(path.join(__dirname, 'fixtures/detections')).detect(image('any photo'), log);
+        expect(outcome.ok).toBe(true);
+        if (outcome.ok) {
+            expect(parseSceneV1(buildLevel(outcome.detections, { seed: 1 }).scene).ok).toBe(true);
+        }
+    });
+});
+
+// ============================================================
+//  Structured output and repairs
+// ============================================================
+
+describe('chatCompletionsProvider', () => {
+    /** Answers the server gives, in order */
+    let script: string[] = [];
+    /** Request bodies the server received */
+    let requests: { messages: { role: string; content: unknown }[]; response_format?: unknown }[] = [];
+    let server: Server;
+    let baseURL = '';
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                requests.push(JSON.parse(body));
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({
+                    id: 'test', object: 'chat.completion', created: 0, model: 'test',
+                    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: script.shift() ?? '' } }],
+                }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    const provider = (structuredOutput: boolean, repairRetries: number) => {
+        script = [];
+        requests = [];
+        return chatCompletionsProvider({ model: 'test', detail: 'low', maxTokens: 1500, structuredOutput, repairRetries, baseURL, apiKey: 'test' });
+    };
+
+    it('asks for the JSON schema when structured output is on', async () => {
+        const p = provider(true, 0);
+        script = [JSON.stringify(recorded)];
+        const outcome = await p.detect(image('photo'), log);
+        expect(outcome.ok && outcome.validation).toEqual({ attempts: 1, structured_output: true, rejected: [], salvaged: [] });
+        expect(requests[0].response_format).toMatchObject({ type: 'json_schema', json_schema: { strict: true } });
+    });
+
+    it("asks with the request's prompt", async () => {
+        const p = provider(false, 0);
+        script = [JSON.stringify(recorded)];
+        const prompt = resolvePrompt(2, 'de-DE');
+        await p.detect(image('photo'), log, undefined, prompt);
+        expect(requests[0].messages[0]).toEqual({ role: 'system', content: prompt.text });
+    });
+
+    it('sends unusable answers back with the errors', async () => {
+        const p = provider(false, 2);
+        script = ['Sorry, I cannot see the photo.', JSON.stringify(recorded)];
+        const outcome = await p.detect(image('photo'), log);
+        expect(outcome.ok && outcome.detections).toEqual(recorded);
+        expect(outcome.ok && outcome.validation.attempts).toBe(2);
+        expect(requests[0].response_format).toBeUndefined();
+
+        const repair = requests[1].messages;
+        expect(repair).toHaveLength(4);
+        expect(repair[2]).toEqual({ role: 'assistant', content: 'Sorry, I cannot see the photo.' });
+        expect(repair[3].content).toMatch(/not valid JSON/);
+    });
+
+    it('gives up after the last repair with a 502', async () => {
+        const p = provider(false, 1);
+        script = ['{}', '{"detections": "none"}'];
+        const outcome = await p.detect(image('photo'), log);
+        expect(outcome).toMatchObject({
+            ok: false,
+            status: 502,
+            body: { error: 'AI returned unexpected structure', code: 'AI_INVALID_RESPONSE', _debug: { raw: '{"detections": "none"}' } },
+        });
+        expect(requests).toHaveLength(2);
+    });
+});
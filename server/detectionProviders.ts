@@ -0,0 +1,461 @@
+/**
+ * DETECTION PROVIDERS
+ * ====================
+ *
+ * Where object detections come from. Both entrypoints ask a
+ * DetectionProvider for one photo's DetectionResponse and never talk to a
+ * model directly, so the upload → build → play loop runs with or without
+ * a live key:
+ *
+ *   openai      → GPT-4o vision (OPENAI_API_KEY)
+ *   compatible  → any OpenAI-compatible chat completions server, e.g. a
+ *                 local model server (DETECTION_BASE_URL, DETECTION_MODEL)
+ *   fixture     → recorded detections, keyed by the SHA-256 of the image
+ *                 bytes (DETECTION_FIXTURES_DIR). No network at all.
+ *
+ * DETECTION_PROVIDER picks one (default: openai). See docs/backend_contract.md.
+ *
+ * A fixture is a `_debug.detections` from an earlier response saved as
+ * `<sha256>.json`. Images without a recording get `default.json`, if the
+ * directory has one, so any photo works offline.
+ *
+ * Chat providers ask with the request's prompt from the registry in
+ * detectionPrompts.ts (the DETECTION_PROMPT_VERSION one when none is given).
+ *
+ * Every answer is validated against DetectionResponseSchema (with salvage,
+ * see src/shared/types/Detection.ts). Chat providers ask for JSON-schema
+ * structured output where the server supports it, and answers that can't
+ * be salvaged are sent back with the validation errors for up to
+ * DETECTION_REPAIR_RETRIES repairs. How it went is the outcome's
+ * `validation`, which the routes return as `_debug.validation`.
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { apiError } from './apiErrors';
+import { DEFAULT_PROMPT_VERSION, resolvePrompt, type DetectionPrompt } from './detectionPrompts';
+import type { Logger } from './logger';
+import {
+    DETECTION_JSON_SCHEMA,
+    parseDetectionResponse,
+    type DetectionPostprocess,
+    type DetectionResponse,
+    type DetectionUsage,
+    type DetectionValidation,
+    type ImagePreprocess,
+} from '../src/shared/types/Detection';
+import type { ApiErrorCode } from '../src/shared/types/ApiError';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One uploaded photo (multer files and parsed multipart parts both fit) */
+export interface DetectionImage {
+    buffer: Buffer;
+    mimetype: string;
+}
+
+/** Whether a photo's detections came from the cache (see detectionCache.ts) */
+export interface CacheStatus {
+    hit: boolean;
+    key: string;
+}
+
+/** One photo's detections, or the error response when they are unusable. */
+export type DetectionOutcome =
+    | {
+        ok: true;
+        detections: DetectionResponse;
+        cleaned: string;
+        validation: DetectionValidation;
+        cache?: CacheStatus;
+        /** Set by withPostprocessing() (detectionPostprocess.ts) */
+        postprocess?: DetectionPostprocess;
+        /** Set by withImagePreprocessing() (imagePreprocess.ts) */
+        preprocess?: ImagePreprocess;
+        /** Tokens and time the model took; absent for cache hits and fixtures */
+        usage?: DetectionUsage;
+    }
+    | {
+        ok: false;
+        status: number;
+        body: Record<string, unknown>;
+        retryAfterSeconds?: number;
+        /** What the model took before its answers were given up on */
+        usage?: DetectionUsage;
+    };
+
+export interface DetectionProvider {
+    /** Shown in logs, e.g. "openai:gpt-4o" */
+    readonly name: string;
+    /**
+     * Detect the objects in one photo. `log` is the request's logger (its
+     * lines carry the request id and, for multi-photo uploads, the photo
+     * number). `signal` aborts the AI call, e.g. when the client has gone away.
+     * `prompt` is what to ask the model (default: DEFAULT_PROMPT).
+     * `onStage` hears when the photo starts being prepared and when it is
+     * handed to the model, from wrappers that prepare it first
+     * (withImagePreprocessing()).
+     */
+    detect(
+        image: DetectionImage,
+        log: Logger,
+        signal?: AbortSignal,
+        prompt?: DetectionPrompt,
+        onStage?: DetectionStageHook,
+    ): Promise<DetectionOutcome>;
+}
+
+/** Told when one photo's detection reaches `stage` */
+export type DetectionStageHook = (stage: 'preprocessing' | 'detecting') => void;
+
+export type DetectionProviderKind = 'openai' | 'compatible' | 'fixture';
+
+/** How much detail vision models look at; 'low' is faster and cheaper. */
+export type ImageDetail = 'low' | 'high' | 'auto';
+
+/** What a model charges, in USD per million tokens (DETECTION_PRICE_PER_MTOK) */
+export interface TokenPrices {
+    input: number;
+    output: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Model used by the openai provider unless DETECTION_MODEL says otherwise */
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+/** Fixture directory unless DETECTION_FIXTURES_DIR says otherwise (relative to cwd) */
+export const DEFAULT_FIXTURES_DIR = 'server/fixtures/detections';
+
+/** Fixture served for images without a recording of their own */
+const DEFAULT_FIXTURE = 'default.json';
+
+/** Placeholder key for compatible servers that don't check one (the SDK requires a key) */
+const NO_API_KEY = 'not-needed';
+
+/** Repair retries unless DETECTION_REPAIR_RETRIES says otherwise */
+export const DEFAULT_REPAIR_RETRIES = 2;
+
+/** Most repair retries DETECTION_REPAIR_RETRIES may ask for */
+export const MAX_REPAIR_RETRIES = 5;
+
+/** The prompt of detect() calls that don't bring one: DEFAULT_PROMPT_VERSION, in English */
+export const DEFAULT_PROMPT: DetectionPrompt = resolvePrompt(DEFAULT_PROMPT_VERSION);
+
+// ---------------------------------------------------------------------------
+// Parsing model output
+// ---------------------------------------------------------------------------
+
+/** SHA-256 of the image bytes (hex) — the fixture key. */
+export function imageHash(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+}
+
+/** A model's text answer, validated (and salvaged) */
+export type ParsedDetectionText =
+    | { ok: true; detections: DetectionResponse; cleaned: string; salvaged: string[] }
+    | { ok: false; code: ApiErrorCode; error: string; errors: string[] };
+
+/**
+ * Turn a model's text answer into detections: strip markdown fences, parse
+ * the JSON and validate it against DetectionResponseSchema.
+ */
+export function parseDetectionText(raw: string, log: Logger): ParsedDetectionText {
+    let cleaned = raw.trim();
+    if (cleaned.startsWith('```')) {
+        cleaned = cleaned.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?\s*```$/, '');
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(cleaned);
+    } catch (parseErr) {
+        log.error('AI answer is not JSON', { err: parseErr });
+        const details = parseErr instanceof Error ? parseErr.message : 'Unknown parse error';
+        return { ok: false, code: 'AI_INVALID_JSON', error: 'AI returned invalid JSON', errors: [`not valid JSON: ${details}`] };
+    }
+
+    const result = parseDetectionResponse(json);
+    if (!result.ok) {
+        log.error('AI answer has an invalid detection structure', { errors: result.errors });
+        return { ok: false, code: 'AI_INVALID_RESPONSE', error: 'AI returned unexpected structure', errors: result.errors };
+    }
+    if (result.salvaged.length > 0) {
+        log.warn('salvaged detections', { salvaged: result.salvaged });
+    }
+
+    log.info('detected objects', { objects: result.data.detections.length });
+    return { ok: true, detections: result.data, cleaned, salvaged: result.salvaged };
+}
+
+/** Follow-up message asking the model to fix a rejected answer */
+function repairRequest(errors: string[]): string {
+    return `Your answer could not be used:\n${errors.map(e => `- ${e}`).join('\n')}\n`
+        + 'Reply again with ONLY the corrected JSON object, in the format described above.';
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+export interface ChatProviderOptions {
+    model: string;
+    detail: ImageDetail;
+    /** Longest answer (tokens) */
+    maxTokens: number;
+    /** Constrain answers to DETECTION_JSON_SCHEMA (the server must support it) */
+    structuredOutput: boolean;
+    /** Times an unusable answer is sent back for repair */
+    repairRetries: number;
+    /** For `cost_usd` in the usage; omit to leave cost out */
+    prices?: TokenPrices;
+    /** Defaults to OPENAI_API_KEY (read by the SDK) */
+    apiKey?: string;
+    /** Chat completions server; omit for api.openai.com */
+    baseURL?: string;
+}
+
+/** Add one completion's tokens and latency to `usage` */
+function addUsage(
+    usage: DetectionUsage,
+    tokens: { prompt_tokens?: number; completion_tokens?: number } | undefined,
+    latencyMs: number,
+    prices: TokenPrices | undefined,
+): void {
+    usage.prompt_tokens += tokens?.prompt_tokens ?? 0;
+    usage.completion_tokens += tokens?.completion_tokens ?? 0;
+    usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+    usage.latency_ms = Math.round(usage.latency_ms + latencyMs);
+    if (prices) {
+        const cost = (usage.prompt_tokens * prices.input + usage.completion_tokens * prices.output) / 1_000_000;
+        usage.cost_usd = Math.round(cost * 1e6) / 1e6;
+    }
+}
+
+/**
+ * Detect through a chat completions API: OpenAI itself, or any server that
+ * speaks the same protocol when `baseURL` is set.
+ */
+export function chatCompletionsProvider(options: ChatProviderOptions): DetectionProvider {
+    const { model, detail, maxTokens, structuredOutput, repairRetries, prices, apiKey, baseURL } = options;
+    const name = baseURL ? `compatible:${model}` : `openai:${model}`;
+
+    // Lazy-import OpenAI (not at the top) so a missing key or an unused
+    // provider never crashes the module at load time
+    let client: Promise<import('openai').default> | undefined;
+    const getClient = () => client ??= import('openai').then(({ default: OpenAI }) => new OpenAI({ apiKey, baseURL }));
+
+    return {
+        name,
+        async detect(image, log, signal, prompt = DEFAULT_PROMPT) {
+            const dataUrl = `data:${image.mimetype || 'image/jpeg'};base64,${image.buffer.toString('base64')}`;
+
+            log.info('sending photo for object detection', { provider: name, prompt: prompt.id });
+
+            const openai = await getClient();
+            const messages: ChatCompletionMessageParam[] = [
+                { role: 'system', content: prompt.text },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'Detect all objects in this photo.' },
+                        { type: 'image_url', image_url: { url: dataUrl, detail } },
+                    ],
+                },
+            ];
+            const validation: DetectionValidation = { attempts: 0, structured_output: structuredOutput, rejected: [], salvaged: [] };
+            const usage: DetectionUsage = { model: name, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, latency_ms: 0, retries: 0 };
+
+            for (;;) {
+                validation.attempts++;
+                usage.retries = validation.attempts - 1;
+                const started = Date.now();
+                const completion = await openai.chat.completions.create({
+                    model,
+                    max_tokens: maxTokens,
+                    temperature: 0.2,
+                    messages,
+                    ...(structuredOutput && {
+                        response_format: {
+                            type: 'json_schema',
+                            json_schema: { name: 'detections', schema: DETECTION_JSON_SCHEMA, strict: true },
+                        },
+                    }),
+                }, { signal });
+                addUsage(usage, completion.usage, Date.now() - started, prices);
+
+                const raw = completion.choices?.[0]?.message?.content;
+                if (raw) {
+                    log.info('AI detection done', {
+                        chars: raw.length,
+                        tokens: completion.usage?.total_tokens,
+                        duration_ms: Date.now() - started,
+                    });
+                } else {
+                    log.error('empty AI response');
+                }
+
+                const parsed: ParsedDetectionText = raw
+                    ? parseDetectionText(raw, log)
+                    : { ok: false, code: 'AI_EMPTY_RESPONSE', error: 'Empty response from AI', errors: ['empty answer'] };
+                if (parsed.ok) {
+                    validation.salvaged = parsed.salvaged;
+                    return { ok: true, detections: parsed.detections, cleaned: parsed.cleaned, validation, usage };
+                }
+
+                validation.rejected.push(parsed.errors);
+                if (validation.attempts > repairRetries) {
+                    return {
+                        ok: false,
+                        status: 502,
+                        body: apiError(parsed.code, parsed.error, {
+                            _debug: { details: parsed.errors, raw: raw?.substring(0, 500), validation },
+                        }),
+                        usage,
+                    };
+                }
+
+                log.warn('asking for a repair', { attempt: validation.attempts + 1 });
+                messages.push(
+                    { role: 'assistant', content: raw ?? '' },
+                    { role: 'user', content: repairRequest(parsed.errors) },
+                );
+            }
+        },
+    };
+}
+
+/**
+ * Serve recorded detections from `dir`: `<sha256 of the image>.json`, else
+ * `default.json`. Images with neither get a 404.
+ */
+export function fixtureProvider(dir: string): DetectionProvider {
+    const read = (file: string) => readFile(path.join(dir, file), 'utf8');
+
+    return {
+        name: `fixture:${dir}`,
+        async detect(image, log) {
+            const hash = imageHash(image.buffer);
+
+            let raw: string;
+            try {
+                raw = await read(`${hash}.json`);
+                log.info('fixture hit', { hash });
+            } catch {
+                try {
+                    raw = await read(DEFAULT_FIXTURE);
+                    log.info('no fixture, using the default', { hash, fixture: DEFAULT_FIXTURE });
+                } catch {
+                    log.error('no fixture', { hash, dir });
+                    return {
+                        ok: false,
+                        status: 404,
+                        body: apiError('FIXTURE_NOT_FOUND', 'No recorded detections for this image', {
+                            _debug: { details: `${hash}.json` },
+                        }),
+                    };
+                }
+            }
+
+            const parsed = parseDetectionText(raw, log);
+            if (!parsed.ok) {
+                return { ok: false, status: 502, body: apiError(parsed.code, parsed.error, { _debug: { details: parsed.errors } }) };
+            }
+            return {
+                ok: true,
+                detections: parsed.detections,
+                cleaned: parsed.cleaned,
+                validation: { attempts: 1, structured_output: false, rejected: [], salvaged: parsed.salvaged },
+            };
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Selection from the configuration
+// ---------------------------------------------------------------------------
+
+export const PROVIDER_KINDS = ['openai', 'compatible', 'fixture'] as const satisfies readonly DetectionProviderKind[];
+
+/**
+ * Which provider to build, read by the server configuration
+ * (serverConfig.ts):
+ *
+ *   DETECTION_PROVIDER      openai | compatible | fixture (default openai)
+ *   OPENAI_API_KEY          key for openai
+ *   DETECTION_BASE_URL      compatible server, e.g. http://localhost:11434/v1
+ *   DETECTION_API_KEY       key for the compatible server, if it wants one
+ *   DETECTION_STRUCTURED_OUTPUT  true | false (default true for openai, false for compatible)
+ *   DETECTION_REPAIR_RETRIES     0–5 (default 2)
+ *   DETECTION_FIXTURES_DIR  fixture directory (default server/fixtures/detections)
+ */
+export interface ProviderSettings {
+    kind: DetectionProviderKind;
+    openaiApiKey?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    structuredOutput: boolean;
+    repairRetries: number;
+    fixturesDir: string;
+}
+
+/**
+ * Model settings read by the server configuration (serverConfig.ts:
+ * DETECTION_MODEL, DETECTION_IMAGE_DETAIL, DETECTION_MAX_TOKENS,
+ * DETECTION_PRICE_PER_MTOK).
+ */
+export interface DetectionSettings {
+    /** Model name; each chat provider has its own default (or requires one) */
+    model?: string;
+    detail: ImageDetail;
+    /** Longest answer (tokens) */
+    maxTokens: number;
+    /** The model's prices, for cost estimates */
+    prices?: TokenPrices;
+}
+
+/**
+ * Build the provider `provider.kind` selects, with the model `settings`
+ * describe (openai default gpt-4o; required for compatible). Both come
+ * validated from the server configuration; a setting the provider needs
+ * but that is unset is reported as an error (a server misconfiguration)
+ * instead of failing on the first upload.
+ */
+export function createDetectionProvider(
+    provider: ProviderSettings,
+    settings: DetectionSettings,
+): { ok: true; value: DetectionProvider } | { ok: false; error: string } {
+    const { model, detail, maxTokens, prices } = settings;
+    const { structuredOutput, repairRetries } = provider;
+    const chat = { detail, maxTokens, structuredOutput, repairRetries, prices };
+
+    switch (provider.kind) {
+        case 'openai':
+            if (!provider.openaiApiKey) {
+                return { ok: false, error: 'missing OPENAI_API_KEY' };
+            }
+            return {
+                ok: true,
+                value: chatCompletionsProvider({ ...chat, model: model || DEFAULT_OPENAI_MODEL, apiKey: provider.openaiApiKey }),
+            };
+
+        case 'compatible': {
+            const baseURL = provider.baseUrl;
+            if (!baseURL) return { ok: false, error: 'missing DETECTION_BASE_URL' };
+            if (!model) return { ok: false, error: 'missing DETECTION_MODEL' };
+            return {
+                ok: true,
+                value: chatCompletionsProvider({ ...chat, model, baseURL, apiKey: provider.apiKey || NO_API_KEY }),
+            };
+        }
+
+        case 'fixture':
+            return { ok: true, value: fixtureProvider(provider.fixturesDir) };
+    }
+}
@@ -0,0 +1,276 @@
+/**
+ * IMAGE PREPROCESSING TESTS
+ * ==========================
+ *
+ * Size, orientation and metadata of hand-built JPEG, PNG and WebP files,
+ * turning and downsizing real photos made with sharp, and the
+ * preprocessing provider wrapper.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { preprocessImage, withImagePreprocessing } from './imagePreprocess';
+import type { DetectionImage, DetectionProvider } from './detectionProviders';
+import { createLogger } from './logger';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+/** A little-endian TIFF block with one Orientation entry and a GPS note */
+function tiff(orientation: number): Buffer {
+    const block = Buffer.alloc(26);
+    block.write('II', 0, 'latin1');
+    block.writeUInt16LE(42, 2);
+    block.writeUInt32LE(8, 4);
+    block.writeUInt16LE(1, 8);
+    block.writeUInt16LE(0x0112, 10);
+    block.writeUInt16LE(3, 12);
+    block.writeUInt32LE(1, 14);
+    block.writeUInt16LE(orientation, 18);
+    return Buffer.concat([block, Buffer.from('GPS 52.5200N 13.4050E')]);
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+    const head = Buffer.from([0xff, marker, 0, 0]);
+    head.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([head, payload]);
+}
+
+/** A JPEG `width`×`height` (stored), with EXIF and a comment when `orientation` is given */
+function jpeg(width: number, height: number, orientation?: number): Buffer {
+    const sof = Buffer.from([8, 0, 0, 0, 0, 1, 1, 0x11, 0]);
+    sof.writeUInt16BE(height, 1);
+    sof.writeUInt16BE(width, 3);
+    return Buffer.concat([
+        Buffer.from([0xff, 0xd8]),
+        jpegSegment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+        ...(orientation ? [
+            jpegSegment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff(orientation)])),
+            jpegSegment(0xfe, Buffer.from('taken at home')),
+        ] : []),
+        jpegSegment(0xc0, sof),
+        jpegSegment(0xda, Buffer.from([1, 1, 0, 0, 0x3f, 0])),
+        Buffer.from([0x12, 0x34, 0x56, 0xff, 0xd9]),
+    ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+function png(width: number, height: number, orientation: number): Buffer {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    ihdr.set([8, 6, 0, 0, 0], 8);
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', ihdr),
+        pngChunk('tEXt', Buffer.from('Comment\0taken at home', 'latin1')),
+        pngChunk('eXIf', tiff(orientation)),
+        pngChunk('IDAT', Buffer.alloc(10, 1)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+function webpChunk(type: string, data: Buffer): Buffer {
+    const head = Buffer.alloc(8);
+    head.write(type, 0, 'latin1');
+    head.writeUInt32LE(data.length, 4);
+    return Buffer.concat([head, data, Buffer.alloc(data.length % 2)]);
+}
+
+function webp(width: number, height: number, orientation: number): Buffer {
+    const vp8x = Buffer.alloc(10);
+    vp8x[0] = 0x08 | 0x04;
+    vp8x.writeUIntLE(width - 1, 4, 3);
+    vp8x.writeUIntLE(height - 1, 7, 3);
+    const vp8l = Buffer.alloc(6);
+    vp8l[0] = 0x2f;
+    vp8l.writeUInt32LE(((width - 1) | ((height - 1) << 14)) >>> 0, 1);
+    const body = Buffer.concat([
+        webpChunk('VP8X', vp8x),
+        webpChunk('VP8L', vp8l),
+        webpChunk('EXIF', tiff(orientation)),
+        webpChunk('XMP ', Buffer.from('<x:xmpmeta/>')),
+    ]);
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'latin1');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'latin1');
+    return Buffer.concat([riff, body]);
+}
+
+const photo = (buffer: Buffer, mimetype = 'image/jpeg'): DetectionImage => ({ buffer, mimetype });
+
+// ============================================================
+//  Reading and stripping
+// ============================================================
+
+describe('preprocessImage', () => {
+    it('strips the EXIF and comments of an upright JPEG without decoding it', async () => {
+        const result = await preprocessImage(photo(jpeg(400, 300, 1)));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.preprocess).toMatchObject({ width: 400, height: 300, orientation: 1, sent: { w: 400, h: 300 } });
+        expect(result.image.buffer.equals(jpeg(400, 300))).toBe(true);
+        expect(result.preprocess.stripped_bytes).toBe(jpeg(400, 300, 1).length - jpeg(400, 300).length);
+    });
+
+    it('hands a photo without metadata on untouched', async () => {
+        const clean = jpeg(640, 480);
+        const result = await preprocessImage(photo(clean));
+        expect(result.ok && result.image.buffer).toBe(clean);
+        expect(result.ok && result.preprocess).toEqual({
+            width: 640, height: 480, orientation: 1, stripped_bytes: 0, sent: { w: 640, h: 480 },
+        });
+    });
+
+    it('reads a PNG and drops its text and EXIF chunks', async () => {
+        const result = await preprocessImage(photo(png(800, 600, 1), 'image/png'));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.preprocess).toMatchObject({ width: 800, height: 600, orientation: 1 });
+        const stripped = result.image.buffer.toString('latin1');
+        expect(stripped).toContain('IDAT');
+        expect(stripped).not.toMatch(/tEXt|eXIf|GPS/);
+    });
+
+    it('reads a WebP, drops its EXIF and XMP chunks and fixes the RIFF header', async () => {
+        const result = await preprocessImage(photo(webp(1024, 768, 1), 'image/webp'));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.preprocess).toMatchObject({ width: 1024, height: 768, orientation: 1 });
+        const stripped = result.image.buffer;
+        expect(stripped.toString('latin1')).not.toMatch(/EXIF|XMP |GPS/);
+        expect(stripped.readUInt32LE(4)).toBe(stripped.length - 8);
+        expect(stripped[20] & 0x0c).toBe(0);
+    });
+
+    it('fails for bytes whose header cannot be read', async () => {
+        expect((await preprocessImage(photo(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 2, 1])))).ok).toBe(false);
+        expect((await preprocessImage(photo(Buffer.from('not a png'), 'image/png'))).ok).toBe(false);
+    });
+});
+
+// ============================================================
+//  Turning and downsizing
+// ============================================================
+
+describe('preprocessImage pixels', () => {
+    /** A real `width`×`height` (stored) JPEG with an EXIF Orientation */
+    const sideways = (width: number, height: number, orientation: number) =>
+        sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+            .jpeg()
+            .withMetadata({ orientation })
+            .toBuffer();
+
+    it('turns a photo stored sideways upright and drops its EXIF', async () => {
+        const result = await preprocessImage(photo(await sideways(400, 300, 6)));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.preprocess).toMatchObject({ width: 300, height: 400, orientation: 6, sent: { w: 300, h: 400 } });
+        const sent = await sharp(result.image.buffer).metadata();
+        expect(sent).toMatchObject({ format: 'jpeg', width: 300, height: 400 });
+        expect(sent.exif).toBeUndefined();
+        expect(sent.orientation).toBeUndefined();
+    });
+
+    it('downsizes a photo to the long edge, keeping its format and aspect', async () => {
+        const large = await sharp({ create: { width: 1200, height: 600, channels: 3, background: '#336699' } }).png().toBuffer();
+        const result = await preprocessImage(photo(large, 'image/png'), 512);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.preprocess).toMatchObject({ width: 1200, height: 600, sent: { w: 512, h: 256 } });
+        expect(await sharp(result.image.buffer).metadata()).toMatchObject({ format: 'png', width: 512, height: 256 });
+    });
+
+    it('fails for a photo to turn whose pixels cannot be decoded', async () => {
+        const result = await preprocessImage(photo(jpeg(400, 300, 6)));
+        expect(result.ok).toBe(false);
+    });
+});
+
+// ============================================================
+//  Provider wrapper
+// ============================================================
+
+describe('withImagePreprocessing', () => {
+    /** A provider that records the photos it got and answers one box */
+    function recording() {
+        const provider = {
+            seen: [] as Buffer[],
+            name: 'openai:gpt-4o',
+            async detect(image: DetectionImage) {
+                provider.seen.push(image.buffer);
+                return {
+                    ok: true as const,
+                    detections: {
+                        image: { w: 1000, h: 1000 },
+                        detections: [
+                            { label: 'lamp', category: 'furniture' as const, confidence: 0.8, bounds_normalized: { x: 0.1, y: 0.2, w: 0.3, h: 0.4 } },
+                        ],
+                    },
+                    cleaned: '{}',
+                    validation: { attempts: 1, structured_output: false, rejected: [], salvaged: [] },
+                };
+            },
+        } satisfies DetectionProvider & { seen: Buffer[] };
+        return provider;
+    }
+
+    it('detects on the upright photo and answers its boxes with the true size', async () => {
+        const inner = recording();
+        const stored = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#ffffff' } })
+            .jpeg()
+            .withMetadata({ orientation: 6 })
+            .toBuffer();
+        const outcome = await withImagePreprocessing(inner).detect(photo(stored), log);
+
+        expect(await sharp(inner.seen[0]).metadata()).toMatchObject({ width: 300, height: 400 });
+        expect(outcome.ok).toBe(true);
+        if (!outcome.ok) return;
+        expect(outcome.detections.image).toEqual({ w: 300, h: 400 });
+        expect(outcome.detections.detections[0].bounds_normalized).toEqual({ x: 0.1, y: 0.2, w: 0.3, h: 0.4 });
+        expect(outcome.preprocess).toMatchObject({ orientation: 6 });
+    });
+
+    it('sends the model no more than the configured long edge', async () => {
+        const inner = recording();
+        const large = await sharp({ create: { width: 1000, height: 500, channels: 3, background: '#ffffff' } }).jpeg().toBuffer();
+        const outcome = await withImagePreprocessing(inner, 256).detect(photo(large), log);
+
+        expect(await sharp(inner.seen[0]).metadata()).toMatchObject({ width: 256, height: 128 });
+        expect(outcome.ok && outcome.detections.image).toEqual({ w: 1000, h: 500 });
+        expect(outcome.ok && outcome.preprocess).toMatchObject({ sent: { w: 256, h: 128 } });
+    });
+
+    it('reports preparing the photo, then handing it to the provider', async () => {
+        const inner = recording();
+        const heard: string[] = [];
+        const detect = inner.detect;
+        inner.detect = async (image) => {
+            heard.push('provider called');
+            return detect(image);
+        };
+        await withImagePreprocessing(inner).detect(photo(jpeg(640, 480)), log, undefined, undefined, (stage) => heard.push(stage));
+
+        expect(heard).toEqual(['preprocessing', 'detecting', 'provider called']);
+    });
+
+    it('answers 415 for a photo it cannot read, without calling the provider', async () => {
+        const inner = recording();
+        const outcome = await withImagePreprocessing(inner).detect(photo(Buffer.from('nonsense')), log);
+
+        expect(outcome).toMatchObject({ ok: false, status: 415, body: { code: 'UNSUPPORTED_MEDIA_TYPE' } });
+        expect(inner.seen).toHaveLength(0);
+    });
+});
@@ -0,0 +1,324 @@
+/**
+ * IMAGE PREPROCESSING
+ * ====================
+ *
+ * Prepares each uploaded photo before detection (JPEG, PNG and WebP):
+ *
+ *   1. size        → the true pixel size, from the file's own header
+ *                    (JPEG SOF, PNG IHDR, WebP VP8 / VP8L / VP8X)
+ *   2. orientation → the EXIF Orientation tag (1–8), if there is one
+ *   3. metadata    → EXIF (with any GPS position), XMP, IPTC, comments and
+ *                    PNG text chunks removed before the photo leaves the
+ *                    server or is hashed for the cache
+ *   4. pixels      → turned upright and downsized to DETECTION_MAX_EDGE
+ *                    on the long edge (sharp), when they need to be
+ *
+ * Phones store photos sideways and record the rotation in EXIF, which
+ * browsers apply when showing them. The model is sent the photo as the
+ * browser shows it, so its boxes are already upright, and `image.w/h`
+ * becomes the upright pixel size instead of the model's estimate. The
+ * result: boxes line up with the photo the client shows.
+ *
+ * Steps 1–3 work on the encoded bytes, so an upright photo within the
+ * size limit keeps its pixels (and its cache key) untouched; only photos
+ * to turn or shrink are decoded and encoded again, in the same format.
+ *
+ * withImagePreprocessing() wraps a DetectionProvider; it sits outside the
+ * cache (which then keys on the prepared bytes) and inside post-processing.
+ */
+
+import sharp from 'sharp';
+import { apiError } from './apiErrors';
+import type { DetectionImage, DetectionProvider } from './detectionProviders';
+import type { DetectionResponse, ImagePreprocess } from '../src/shared/types/Detection';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the file's header says about the image */
+interface ImageHeader {
+    /** Stored pixel size, before orientation */
+    width: number;
+    height: number;
+    /** EXIF Orientation, 1 (upright) when absent */
+    orientation: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Longest edge (px) of the photo sent to the model unless DETECTION_MAX_EDGE says otherwise */
+export const DEFAULT_MAX_EDGE = 2048;
+
+/** sharp's output format for each accepted upload type */
+const SHARP_FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+    'image/jpeg': 'jpeg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+/** EXIF tag holding the orientation */
+const ORIENTATION_TAG = 0x0112;
+
+/** JPEG segments kept: JFIF (APP0), ICC profile (APP2) and Adobe color (APP14) */
+const JPEG_KEPT_APP_MARKERS = new Set([0xe0, 0xe2, 0xee]);
+
+/** JPEG comment segment */
+const JPEG_COM = 0xfe;
+
+/** PNG chunks that only carry metadata */
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+/** WebP chunks that only carry metadata, and their VP8X flag bits */
+const WEBP_METADATA_CHUNKS: Record<string, number> = { EXIF: 0x08, 'XMP ': 0x04 };
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// ---------------------------------------------------------------------------
+// EXIF
+// ---------------------------------------------------------------------------
+
+/** The Orientation tag of a TIFF-structured EXIF block, or 1 */
+function exifOrientation(tiff: Buffer): number {
+    if (tiff.toString('latin1', 0, 6) === 'Exif\0\0') tiff = tiff.subarray(6);
+    if (tiff.length < 8) return 1;
+
+    const order = tiff.toString('latin1', 0, 2);
+    if (order !== 'II' && order !== 'MM') return 1;
+    const u16 = (at: number) => (order === 'II' ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+    const u32 = (at: number) => (order === 'II' ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+    if (u16(2) !== 42) return 1;
+
+    const ifd = u32(4);
+    if (ifd + 2 > tiff.length) return 1;
+    const entries = u16(ifd);
+    for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > tiff.length) break;
+        if (u16(entry) === ORIENTATION_TAG) {
+            const value = u16(entry + 8);
+            return value >= 1 && value <= 8 ? value : 1;
+        }
+    }
+    return 1;
+}
+
+// ---------------------------------------------------------------------------
+// Formats
+// ---------------------------------------------------------------------------
+
+/**
+ * Walk a JPEG's segments up to the image data: read the size and
+ * orientation, and rebuild it without the metadata segments.
+ */
+function readJpeg(buffer: Buffer): { header: ImageHeader; stripped: Buffer } | undefined {
+    const kept: Buffer[] = [buffer.subarray(0, 2)];
+    let width = 0;
+    let height = 0;
+    let orientation = 1;
+
+    let at = 2;
+    while (at + 4 <= buffer.length) {
+        if (buffer[at] !== 0xff) return undefined;
+        const marker = buffer[at + 1];
+        if (marker === 0xff) {
+            at++; // fill byte
+            continue;
+        }
+        if (marker === 0xda || marker === 0xd9) {
+            // Start of scan: the rest is image data
+            kept.push(buffer.subarray(at));
+            break;
+        }
+
+        const length = buffer.readUInt16BE(at + 2);
+        const end = at + 2 + length;
+        if (length < 2 || end > buffer.length) return undefined;
+        const segment = buffer.subarray(at, end);
+
+        const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isSof && length >= 7) {
+            height = buffer.readUInt16BE(at + 5);
+            width = buffer.readUInt16BE(at + 7);
+        }
+        if (marker === 0xe1) {
+            const exif = exifOrientation(segment.subarray(4));
+            if (exif !== 1) orientation = exif;
+        }
+
+        const metadata = (marker >= 0xe1 && marker <= 0xef && !JPEG_KEPT_APP_MARKERS.has(marker)) || marker === JPEG_COM;
+        if (!metadata) kept.push(segment);
+        at = end;
+    }
+
+    if (!width || !height) return undefined;
+    return { header: { width, height, orientation }, stripped: Buffer.concat(kept) };
+}
+
+/** Read a PNG's size (and eXIf orientation), and drop its metadata chunks. */
+function readPng(buffer: Buffer): { header: ImageHeader; stripped: Buffer } | undefined {
+    if (buffer.length < 33 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined;
+    const kept: Buffer[] = [PNG_SIGNATURE];
+    let orientation = 1;
+
+    let at = 8;
+    while (at + 12 <= buffer.length) {
+        const length = buffer.readUInt32BE(at);
+        const type = buffer.toString('latin1', at + 4, at + 8);
+        const end = at + 12 + length;
+        if (end > buffer.length) return undefined;
+
+        if (type === 'eXIf') orientation = exifOrientation(buffer.subarray(at + 8, at + 8 + length));
+        if (!PNG_METADATA_CHUNKS.has(type)) kept.push(buffer.subarray(at, end));
+        at = end;
+        if (type === 'IEND') break;
+    }
+
+    // IHDR is always the first chunk
+    const width = buffer.readUInt32BE(16);
+    const height = buffer.readUInt32BE(20);
+    if (!width || !height) return undefined;
+    return { header: { width, height, orientation }, stripped: Buffer.concat(kept) };
+}
+
+/** Read a WebP's size (and EXIF orientation), and drop its metadata chunks. */
+function readWebp(buffer: Buffer): { header: ImageHeader; stripped: Buffer } | undefined {
+    if (buffer.length < 20 || buffer.toString('latin1', 0, 4) !== 'RIFF' || buffer.toString('latin1', 8, 12) !== 'WEBP') {
+        return undefined;
+    }
+    const kept: Buffer[] = [];
+    let width = 0;
+    let height = 0;
+    let orientation = 1;
+    let dropFlags = 0;
+
+    let at = 12;
+    while (at + 8 <= buffer.length) {
+        const type = buffer.toString('latin1', at, at + 4);
+        const size = buffer.readUInt32LE(at + 4);
+        const data = at + 8;
+        const end = Math.min(buffer.length, data + size + (size % 2));
+        if (data + size > buffer.length) return undefined;
+
+        if (type === 'VP8X' && size >= 10) {
+            width = buffer.readUIntLE(data + 4, 3) + 1;
+            height = buffer.readUIntLE(data + 7, 3) + 1;
+        } else if (type === 'VP8 ' && size >= 10 && !width) {
+            width = buffer.readUInt16LE(data + 6) & 0x3fff;
+            height = buffer.readUInt16LE(data + 8) & 0x3fff;
+        } else if (type === 'VP8L' && size >= 5 && !width) {
+            const bits = buffer.readUInt32LE(data + 1);
+            width = (bits & 0x3fff) + 1;
+            height = ((bits >> 14) & 0x3fff) + 1;
+        } else if (type === 'EXIF') {
+            orientation = exifOrientation(buffer.subarray(data, data + size));
+        }
+
+        if (type in WEBP_METADATA_CHUNKS) {
+            dropFlags |= WEBP_METADATA_CHUNKS[type];
+        } else {
+            kept.push(Buffer.from(buffer.subarray(at, end)));
+        }
+        at = end;
+    }
+    if (!width || !height) return undefined;
+
+    // The VP8X chunk announces the metadata chunks; stop announcing the dropped ones
+    const vp8x = kept.find((chunk) => chunk.toString('latin1', 0, 4) === 'VP8X');
+    if (vp8x) vp8x[8] &= ~dropFlags;
+
+    const body = Buffer.concat(kept);
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'latin1');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'latin1');
+    return { header: { width, height, orientation }, stripped: Buffer.concat([riff, body]) };
+}
+
+// ---------------------------------------------------------------------------
+// Preprocessing
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the size and orientation of a photo and strip its metadata, then
+ * turn it upright and shrink it to `maxEdge` on the long edge if needed.
+ * The reported size is the upright size of the upload (width and height
+ * swap for orientations 5–8). Fails when the file's header can't be read
+ * or a photo that needs its pixels changed can't be decoded.
+ */
+export async function preprocessImage(
+    image: DetectionImage,
+    maxEdge: number = DEFAULT_MAX_EDGE,
+): Promise<{ ok: true; image: DetectionImage; preprocess: ImagePreprocess } | { ok: false; error: string }> {
+    const read = image.mimetype === 'image/png'
+        ? readPng(image.buffer)
+        : image.mimetype === 'image/webp'
+            ? readWebp(image.buffer)
+            : readJpeg(image.buffer);
+    if (!read) return { ok: false, error: `could not read the ${image.mimetype} header` };
+
+    const { width, height, orientation } = read.header;
+    const sideways = orientation >= 5;
+    const upright = { w: sideways ? height : width, h: sideways ? width : height };
+    const preprocess = { width: upright.w, height: upright.h, orientation };
+
+    if (orientation === 1 && Math.max(width, height) <= maxEdge) {
+        // Unchanged bytes stay the same buffer, so hashes don't move for clean photos
+        const stripped = read.stripped.length === image.buffer.length ? image.buffer : read.stripped;
+        return {
+            ok: true,
+            image: { ...image, buffer: stripped },
+            preprocess: { ...preprocess, stripped_bytes: image.buffer.length - stripped.length, sent: upright },
+        };
+    }
+
+    // Decode: rotate() applies the EXIF orientation, and the output carries no metadata
+    try {
+        const { data, info } = await sharp(image.buffer)
+            .rotate()
+            .resize({ width: maxEdge, height: maxEdge, fit: 'inside', withoutEnlargement: true })
+            .toFormat(SHARP_FORMATS[image.mimetype] ?? 'jpeg')
+            .toBuffer({ resolveWithObject: true });
+        return {
+            ok: true,
+            image: { ...image, buffer: data },
+            preprocess: { ...preprocess, stripped_bytes: image.buffer.length - read.stripped.length, sent: { w: info.width, h: info.height } },
+        };
+    } catch (err) {
+        return { ok: false, error: `could not decode the ${image.mimetype} image: ${(err as Error).message}` };
+    }
+}
+
+/** Detections of the upright photo, with its true pixel size */
+function withTrueSize(response: DetectionResponse, preprocess: ImagePreprocess): DetectionResponse {
+    return { ...response, image: { w: preprocess.width, h: preprocess.height } };
+}
+
+/**
+ * `provider`, handed upright photos without metadata and at most `maxEdge`
+ * pixels on the long edge (see the header).
+ */
+export function withImagePreprocessing(provider: DetectionProvider, maxEdge: number = DEFAULT_MAX_EDGE): DetectionProvider {
+    return {
+        name: provider.name,
+        async detect(image, log, signal, prompt, onStage) {
+            onStage?.('preprocessing');
+            const prepared = await preprocessImage(image, maxEdge);
+            if (!prepared.ok) {
+                log.warn('unreadable photo', { error: prepared.error });
+                return { ok: false, status: 415, body: apiError('UNSUPPORTED_MEDIA_TYPE', 'Could not read the image') };
+            }
+            const { preprocess } = prepared;
+            if (preprocess.orientation !== 1 || preprocess.stripped_bytes > 0 || preprocess.sent.w !== preprocess.width) {
+                log.info('preprocessed photo', { ...preprocess });
+            }
+
+            onStage?.('detecting');
+            const outcome = await provider.detect(prepared.image, log, signal, prompt, onStage);
+            if (!outcome.ok) return outcome;
+            return { ...outcome, detections: withTrueSize(outcome.detections, preprocess), preprocess };
+        },
+    };
+}
@@ -1,22 +1,38 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import { sceneRouter } from './routes/scene';
+import { createLogger } from './logger';
+import { createSceneMetrics, METRICS_CONTENT_TYPE } from './metrics';
+import { createSceneRouter } from './routes/scene';
+import { isMetricsRequest, loadServerConfig, redactServerConfig } from './serverConfig';
 
-const PORT = process.env.PORT || 3001;
+// Settings from the environment (see serverConfig.ts); refuse to start on a bad one
+const config = loadServerConfig(process.env, 'express');
+if (!config.ok) {
+    console.error(`\n❌ Server misconfiguration: ${config.error}\n`);
+    process.exit(1);
+}
+// Request, cache and AI usage counters (see metrics.ts)
+const metrics = createSceneMetrics();
+// Structured logs at LOG_LEVEL in LOG_FORMAT (see logger.ts)
+const logger = createLogger(config.value.log);
+
+const sceneRouter = createSceneRouter(config.value, metrics, logger);
+if (!sceneRouter.ok) {
+    console.error(`\n❌ Server misconfiguration: ${sceneRouter.error}\n`);
+    process.exit(1);
+}
+
+const { port } = config.value;
 
 const app = express();
 
-// CORS configuration for frontend dev server
+// CORS configuration for frontend dev server (CORS_ORIGINS)
 app.use(cors({
-    origin: [
-        'http://localhost:8080',
-        'http://localhost:5173',
-        'http://127.0.0.1:8080',
-        'http://127.0.0.1:5173',
-    ],
+    origin: config.value.cors.origins,
     methods: ['GET', 'POST'],
-    allowedHeaders: ['Content-Type'],
+    allowedHeaders: config.value.cors.allowedHeaders,
+    exposedHeaders: config.value.cors.exposedHeaders,
 }));
 
 // Parse JSON bodies
@@ -27,12 +43,34 @@ app.get('/api/health', (_req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Effective settings, secrets redacted (development only, see CONFIG_ENDPOINT)
+if (config.value.configEndpoint) {
+    const redacted = redactServerConfig(config.value);
+    app.get('/api/config', (_req, res) => {
+        res.json(redacted);
+    });
+}
+
+// Counters in the Prometheus text format (behind METRICS_TOKEN, or development only)
+if (config.value.metrics.enabled) {
+    const access = config.value.metrics;
+    app.get('/api/metrics', (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        if (!isMetricsRequest(access, req.headers)) {
+            res.status(401).setHeader('WWW-Authenticate', 'Bearer').type('text/plain').send('Unauthorized\n');
+            return;
+        }
+        res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+    });
+}
+
 // Mount scene routes
-app.use('/api/scene', sceneRouter);
+app.use('/api/scene', sceneRouter.value);
 
 // Start server
-app.listen(PORT, () => {
-    console.log(`\n🚀 Server running at http://localhost:${PORT}`);
-    console.log(`   Health: http://localhost:${PORT}/api/health`);
-    console.log(`   Scene:  POST http://localhost:${PORT}/api/scene\n`);
+app.listen(port, () => {
+    console.log(`\n🚀 Server running at http://localhost:${port}`);
+    console.log(`   Health: http://localhost:${port}/api/health`);
+    if (config.value.metrics.enabled) console.log(`   Metrics: http://localhost:${port}/api/metrics`);
+    console.log(`   Scene:  POST http://localhost:${port}/api/scene\n`);
 });
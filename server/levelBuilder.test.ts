@@ -0,0 +1,444 @@
+/**
+ * LEVEL BUILDER TESTS
+ * ====================
+ *
+ * Layout strategies and builder options. Reachability guarantees are
+ * covered in reachability.test.ts.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildLevel,
+    buildStitchedLevel,
+    LAYOUT_STRATEGIES,
+    parseDifficulty,
+    parseRebuildRequest,
+    parseSeed,
+    resolveDifficulty,
+    surfaceTypeFor,
+    type BuildOptions,
+    type Detection,
+    type DetectionResponse,
+} from './levelBuilder';
+import { solveReachability } from './reachability';
+import { parseSceneV1 } from '../src/shared/schema/scene_v1.schema';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function detection(label: string, x: number, y: number, w: number, h = 0.1): Detection {
+    return { label, category: 'furniture', confidence: 0.9, bounds_normalized: { x, y, w, h } };
+}
+
+/** A room with surfaces spread across the photo. */
+function spreadRoom(): DetectionResponse {
+    return {
+        image: { w: 1280, h: 720 },
+        detections: [
+            detection('table', 0.05, 0.82, 0.3, 0.1),
+            detection('shelf', 0.6, 0.6, 0.25),
+            detection('window sill', 0.2, 0.42, 0.3),
+            detection('cabinet', 0.7, 0.25, 0.2, 0.3),
+        ],
+    };
+}
+
+/** Everything bunched in the middle of the frame. */
+function clusteredRoom(): DetectionResponse {
+    return {
+        image: { w: 1280, h: 720 },
+        detections: [
+            detection('table', 0.4, 0.5, 0.2),
+            detection('chair', 0.45, 0.55, 0.1),
+            detection('box', 0.42, 0.52, 0.15),
+        ],
+    };
+}
+
+const platforms = (input: DetectionResponse, strategy?: 'photo', seed?: number) =>
+    buildLevel(input, { strategy, seed }).scene.objects.filter(o => o.type === 'platform');
+
+// ============================================================
+//  Photo layout
+// ============================================================
+
+describe('buildLevel — photo strategy', () => {
+    it('keeps the top edges of real surfaces', () => {
+        const plats = platforms(spreadRoom(), 'photo');
+        const table = plats.find(p => p.label === 'table');
+        const shelf = plats.find(p => p.label === 'shelf');
+        expect(table).toBeDefined();
+        expect(shelf).toBeDefined();
+        expect(table!.bounds_normalized.y).toBeCloseTo(0.82, 2);
+        expect(shelf!.bounds_normalized.y).toBeCloseTo(0.6, 2);
+    });
+
+    it('is still provably reachable', () => {
+        const { scene, path } = buildLevel(spreadRoom(), { strategy: 'photo' });
+        expect(path.length).toBeGreaterThan(0);
+        expect(solveReachability(scene).reachable).toBe(true);
+    });
+
+    it('falls back to a generated layout when the photo is clustered', () => {
+        expect(platforms(clusteredRoom(), 'photo')).toEqual(platforms(clusteredRoom()));
+    });
+
+    it('is not used unless requested', () => {
+        const plats = platforms(spreadRoom());
+        expect(plats.some(p => p.label === 'table' && Math.abs(p.bounds_normalized.y - 0.82) < 0.01)).toBe(false);
+    });
+});
+
+// ============================================================
+//  Difficulty profiles
+// ============================================================
+
+describe('buildLevel — difficulty', () => {
+    const spawnsFor = (difficulty: BuildOptions['difficulty']) =>
+        buildLevel(spreadRoom(), { difficulty }).scene.spawns;
+    const healthCount = (difficulty: BuildOptions['difficulty']) =>
+        spawnsFor(difficulty).pickups.filter(p => p.type === 'health').length;
+
+    it('defaults to the normal profile', () => {
+        expect(buildLevel(spreadRoom(), { difficulty: 'normal' }).scene)
+            .toEqual(buildLevel(spreadRoom()).scene);
+    });
+
+    it('scales enemies and health pickups with difficulty', () => {
+        expect(spawnsFor('easy').enemies).toHaveLength(1);
+        expect(spawnsFor('hard').enemies.length).toBeGreaterThan(spawnsFor('normal').enemies.length);
+        expect(healthCount('easy')).toBeGreaterThan(healthCount('normal'));
+        expect(healthCount('hard')).toBe(0);
+    });
+
+    it('uses runners on hard', () => {
+        expect(spawnsFor('hard').enemies.every(e => e.type === 'runner')).toBe(true);
+    });
+
+    it('clamps custom profiles into buildable ranges', () => {
+        const profile = resolveDifficulty({ maxPlatforms: 50, minPlatforms: 99, enemyCount: -3, maxStep: 2 });
+        expect(profile.maxPlatforms).toBe(9);
+        expect(profile.minPlatforms).toBe(9);
+        expect(profile.enemyCount).toBe(0);
+        expect(profile.maxStep).toBe(0.3);
+        expect(profile.widthScale).toBe(1);
+    });
+
+    it('parses names and JSON from the form field', () => {
+        expect(parseDifficulty('hard')).toBe('hard');
+        expect(parseDifficulty('{"enemyCount":4,"bogus":1}')).toEqual({ enemyCount: 4 });
+        expect(parseDifficulty('impossible')).toBeUndefined();
+        expect(parseDifficulty('{not json')).toBeUndefined();
+    });
+
+    it('keeps every difficulty provably reachable', () => {
+        for (const difficulty of ['easy', 'hard'] as const) {
+            const { scene } = buildLevel(spreadRoom(), { difficulty });
+            expect(solveReachability(scene).reachable).toBe(true);
+        }
+    });
+});
+
+// ============================================================
+//  Seeds and rebuilds
+// ============================================================
+
+describe('buildLevel — seeds', () => {
+    it('reports the seed and strategy it used', () => {
+        const { seed, strategy } = buildLevel(spreadRoom());
+        expect(Number.isInteger(seed)).toBe(true);
+        expect(seed).toBeGreaterThanOrEqual(0);
+        expect(LAYOUT_STRATEGIES).toContain(strategy);
+    });
+
+    it('rebuilds the same level from the reported seed', () => {
+        const first = buildLevel(spreadRoom());
+        const again = buildLevel(spreadRoom(), { seed: first.seed, strategy: first.strategy });
+        expect(again.scene).toEqual(first.scene);
+    });
+
+    it('changes the layout for a different seed', () => {
+        const layouts = new Set([1, 2, 3, 4, 5].map(seed =>
+            JSON.stringify(platforms(spreadRoom(), undefined, seed))));
+        expect(layouts.size).toBeGreaterThan(1);
+    });
+
+    it('reports the fallback strategy when photo is too clustered', () => {
+        expect(buildLevel(clusteredRoom(), { strategy: 'photo' }).strategy).not.toBe('photo');
+    });
+
+    it('returns the fallback as an event for the caller to log', () => {
+        const { strategy, events } = buildLevel(clusteredRoom(), { strategy: 'photo' });
+        expect(events).toContainEqual({ level: 'info', msg: 'photo geometry too clustered, falling back', fields: { strategy } });
+        expect(buildLevel(clusteredRoom()).events).toEqual([]);
+    });
+});
+
+describe('parseSeed', () => {
+    it('accepts non-negative integers and digit strings', () => {
+        expect(parseSeed(42)).toBe(42);
+        expect(parseSeed(' 42 ')).toBe(42);
+        expect(parseSeed(-1)).toBeUndefined();
+        expect(parseSeed(1.5)).toBeUndefined();
+        expect(parseSeed('abc')).toBeUndefined();
+    });
+});
+
+describe('parseRebuildRequest', () => {
+    it('accepts stored detections with options', () => {
+        const result = parseRebuildRequest({
+            detections: spreadRoom(), seed: 7, strategy: 'spiral', difficulty: { enemyCount: 3 },
+        });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.options).toEqual({ seed: 7, strategy: 'spiral', difficulty: { enemyCount: 3 } });
+        }
+    });
+
+    it('reads post-processed detections from before post-processing', () => {
+        const room = spreadRoom();
+        const stored = { ...room, detections: room.detections.slice(0, 1), postprocess: { before: room.detections, notes: [] } };
+        const result = parseRebuildRequest({ detections: stored });
+        expect(result.ok && result.value.detections).toEqual(room);
+    });
+
+    it('rejects malformed bodies', () => {
+        expect(parseRebuildRequest(undefined).ok).toBe(false);
+        expect(parseRebuildRequest({ detections: { image: { w: 0, h: 1 }, detections: [] } }).ok).toBe(false);
+        expect(parseRebuildRequest({ detections: spreadRoom(), seed: 'x' }).ok).toBe(false);
+        expect(parseRebuildRequest({ detections: spreadRoom(), strategy: 'maze' }).ok).toBe(false);
+    });
+
+    it('accepts 2–4 photos of stored detections for a stitched level', () => {
+        expect(parseRebuildRequest({ detections: [spreadRoom(), clusteredRoom()] }).ok).toBe(true);
+        expect(parseRebuildRequest({ detections: [spreadRoom()] }).ok).toBe(false);
+        expect(parseRebuildRequest({ detections: Array.from({ length: 5 }, spreadRoom) }).ok).toBe(false);
+        expect(parseRebuildRequest({ detections: [spreadRoom(), { image: { w: 1, h: 1 } }] }).ok).toBe(false);
+    });
+});
+
+// ============================================================
+//  Hazards and obstacles
+// ============================================================
+
+describe('buildLevel — hazards and obstacles', () => {
+    const livingRoom = (): DetectionResponse => ({
+        image: { w: 1280, h: 720 },
+        detections: [
+            { ...detection('tv', 0.6, 0.2, 0.25, 0.2), category: 'electric' },
+            { ...detection('cable', 0.1, 0.8, 0.2, 0.05), category: 'electric' },
+            detection('sofa', 0.1, 0.5, 0.5, 0.3),
+            detection('shelf', 0.7, 0.4, 0.2),
+        ],
+    });
+    const ofType = (difficulty: BuildOptions['difficulty'], type: string) =>
+        buildLevel(livingRoom(), { difficulty }).scene.objects.filter(o => o.type === type);
+
+    it('turns electric detections into damaging hazard strips', () => {
+        const hazards = ofType('normal', 'hazard');
+        expect(hazards.length).toBeGreaterThan(0);
+        expect(hazards.every(h => h.category === 'electric')).toBe(true);
+        expect(hazards.every(h => h.game_mechanics?.damage_amount === 2)).toBe(true);
+    });
+
+    it('scales hazard damage with difficulty', () => {
+        expect(ofType('easy', 'hazard').every(h => h.game_mechanics?.damage_amount === 1)).toBe(true);
+        expect(ofType('hard', 'hazard').every(h => h.game_mechanics?.damage_amount === 3)).toBe(true);
+    });
+
+    it('turns bulky furniture into obstacles', () => {
+        const obstacles = ofType('normal', 'obstacle');
+        expect(obstacles.map(o => o.label)).toEqual(['sofa']);
+    });
+
+    it('leaves rooms without electric or bulky detections undecorated', () => {
+        const types = buildLevel(clusteredRoom()).scene.objects.map(o => o.type);
+        expect(types).not.toContain('hazard');
+        expect(types).not.toContain('obstacle');
+    });
+});
+
+// ============================================================
+//  Surface types
+// ============================================================
+
+describe('surfaceTypeFor', () => {
+    it('maps labels to surface types', () => {
+        expect(surfaceTypeFor('sofa cushion', 'furniture')).toBe('soft');
+        expect(surfaceTypeFor('bed', 'furniture')).toBe('soft');
+        expect(surfaceTypeFor('glass shelf', 'furniture')).toBe('slippery');
+        expect(surfaceTypeFor('floor tile', 'other')).toBe('slippery');
+        expect(surfaceTypeFor('trampoline', 'other')).toBe('bouncy');
+        expect(surfaceTypeFor('mattress', 'furniture')).toBe('bouncy');
+        expect(surfaceTypeFor('cardboard box', 'other')).toBe('breakable');
+        expect(surfaceTypeFor('paper stack', 'other')).toBe('breakable');
+    });
+
+    it('falls back to the category, then solid', () => {
+        expect(surfaceTypeFor('fern', 'plant')).toBe('soft');
+        expect(surfaceTypeFor('table', 'furniture')).toBe('solid');
+        expect(surfaceTypeFor('bedside table', 'furniture')).toBe('solid');
+    });
+});
+
+describe('buildLevel — surface types', () => {
+    const build = (labels: string[]) => {
+        const built = buildLevel({
+            image: { w: 1280, h: 720 },
+            detections: labels.map((label, i) => detection(label, 0.1 * i, 0.1 * i, 0.2)),
+        });
+        const onPath = new Set(built.path.map(step => step.id));
+        const plats = built.scene.objects.filter(o => o.type === 'platform');
+        return { plats, onPath, offPath: plats.filter(p => !onPath.has(p.id) && p.label !== 'ground') };
+    };
+    const surfaces = (labels: string[]) => build(labels).plats;
+
+    it('applies the mapping to platforms off the proven path', () => {
+        const labels = ['cushion', 'glass table', 'trampoline', 'cardboard box', 'table', 'pillow', 'mirror', 'mattress'];
+        const plats = build(labels).offPath.filter(p => labels.includes(p.label!));
+        expect(plats.length).toBeGreaterThanOrEqual(3);
+        for (const p of plats) {
+            expect(p.surface_type).toBe(surfaceTypeFor(p.label!, 'furniture'));
+        }
+    });
+
+    it('keeps the proven path solid', () => {
+        const { plats, onPath } = build(['cushion', 'glass shelf', 'trampoline', 'cardboard box', 'mattress', 'box']);
+        const path = plats.filter(p => onPath.has(p.id));
+        expect(path.length).toBeGreaterThan(0);
+        for (const p of path) {
+            expect(p.surface_type).toBe('solid');
+        }
+    });
+
+    it('caps each special surface type per level', () => {
+        const { plats, offPath } = build(Array.from({ length: 8 }, () => 'box'));
+        expect(offPath.length).toBeGreaterThan(2);
+        expect(plats.filter(p => p.surface_type === 'breakable')).toHaveLength(2);
+    });
+
+    it('keeps the ground solid', () => {
+        const ground = surfaces(['cushion', 'cushion']).find(p => p.label === 'ground');
+        expect(ground?.surface_type).toBe('solid');
+    });
+});
+
+// ============================================================
+//  Themed rules
+// ============================================================
+
+describe('buildLevel — themed rules', () => {
+    const room = (category: Detection['category'], count = 2): DetectionResponse => ({
+        ...spreadRoom(),
+        detections: [
+            ...spreadRoom().detections,
+            ...Array.from({ length: count }, (_, i) => ({ ...detection(category, 0.2 * i, 0.3, 0.1), category })),
+        ],
+    });
+    const ruleTypes = (input: DetectionResponse) => buildLevel(input).scene.rules.map(r => r.type);
+
+    it('emits no rules for a plain room', () => {
+        expect(buildLevel(spreadRoom()).scene.rules).toEqual([]);
+    });
+
+    it('makes plant-heavy rooms floaty', () => {
+        expect(buildLevel(room('plant')).scene.rules).toEqual([{ type: 'gravity_multiplier', value: 0.85 }]);
+        expect(ruleTypes(room('plant', 1))).toEqual([]);
+    });
+
+    it('speeds up enemies in electric-heavy rooms', () => {
+        expect(ruleTypes(room('electric'))).toContain('enemy_speed_multiplier');
+    });
+
+    it('locks the exit behind the coins in food-heavy rooms', () => {
+        const { scene } = buildLevel(room('food'));
+        expect(scene.rules.map(r => r.type)).toEqual(['collect_all_to_unlock_exit']);
+        expect(scene.spawns.pickups.some(p => p.type === 'coin')).toBe(true);
+    });
+});
+
+// ============================================================
+//  Stitched levels
+// ============================================================
+
+describe('buildStitchedLevel', () => {
+    const photos = () => [spreadRoom(), clusteredRoom(), { ...spreadRoom(), image: { w: 640, h: 480 } }];
+
+    it('lays the photos side by side in a world one frame wide per photo', () => {
+        const { scene } = buildStitchedLevel(photos(), { seed: 3 });
+        expect(scene.image).toEqual({ w: 1280 * 3, h: 720 });
+        expect(scene.segments).toEqual([{ x: 0, w: 1 / 3 }, { x: 1 / 3, w: 1 / 3 }, { x: 2 / 3, w: 1 / 3 }]);
+        expect(scene.spawns.player.x).toBeLessThan(1 / 3);
+        expect(scene.spawns.exit.x).toBeGreaterThan(2 / 3);
+    });
+
+    it('keeps one ground across the whole world', () => {
+        const grounds = buildStitchedLevel(photos()).scene.objects.filter(o => o.label === 'ground');
+        expect(grounds).toHaveLength(1);
+        expect(grounds[0].bounds_normalized).toMatchObject({ x: 0, w: 1 });
+    });
+
+    it('fills every segment from its own photo', () => {
+        const { scene } = buildStitchedLevel(photos(), { seed: 3 });
+        for (const [i, segment] of scene.segments!.entries()) {
+            const inside = scene.objects.filter(o => o.id.startsWith(`s${i}_`) && o.label !== 'ground');
+            expect(inside.length).toBeGreaterThan(0);
+            for (const obj of inside) {
+                const b = obj.bounds_normalized;
+                expect(b.x).toBeGreaterThanOrEqual(segment.x - 1e-9);
+                expect(b.x + b.w).toBeLessThanOrEqual(segment.x + segment.w + 1e-9);
+            }
+        }
+    });
+
+    it('gives every object a unique id', () => {
+        const ids = buildStitchedLevel(photos()).scene.objects.map(o => o.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('is reproducible from its seed', () => {
+        const a = buildStitchedLevel(photos(), { seed: 99 });
+        const b = buildStitchedLevel(photos(), { seed: 99 });
+        expect(a.seed).toBe(99);
+        expect(b.scene).toEqual(a.scene);
+        expect(buildStitchedLevel(photos()).seed).toBe(buildStitchedLevel(photos()).seed);
+    });
+
+    it('builds a single photo exactly like buildLevel', () => {
+        expect(buildStitchedLevel([spreadRoom()], { seed: 5 })).toEqual(buildLevel(spreadRoom(), { seed: 5 }));
+    });
+
+    it('keeps the first rule of each type from the segments', () => {
+        const plants = { ...spreadRoom(), detections: [...spreadRoom().detections, ...Array.from({ length: 2 }, () => ({ ...detection('fern', 0.3, 0.3, 0.1), category: 'plant' as const }))] };
+        const { scene } = buildStitchedLevel([plants, plants]);
+        expect(scene.rules).toEqual([{ type: 'gravity_multiplier', value: 0.85 }]);
+    });
+});
+
+// ============================================================
+//  Schema conformance
+// ============================================================
+
+describe('built levels pass parseSceneV1', () => {
+    it('for every strategy and difficulty', () => {
+        for (const strategy of LAYOUT_STRATEGIES) {
+            for (const difficulty of ['easy', 'normal', 'hard'] as const) {
+                for (const room of [spreadRoom(), clusteredRoom()]) {
+                    const result = parseSceneV1(buildLevel(room, { strategy, difficulty, seed: 11 }).scene);
+                    expect(result.ok ? [] : result.issues).toEqual([]);
+                }
+            }
+        }
+    });
+
+    it('for stitched levels', () => {
+        for (const count of [2, 3, 4]) {
+            const rooms = Array.from({ length: count }, (_, i) => (i % 2 ? clusteredRoom() : spreadRoom()));
+            const result = parseSceneV1(buildStitchedLevel(rooms, { seed: count }).scene);
+            expect(result.ok ? [] : result.issues).toEqual([]);
+        }
+    });
+});
@@ -9,74 +9,164 @@
  * pickups, enemies. Because it's deterministic code (not AI), every level
  * is guaranteed to be completable.
  *
- * Output conforms to the SceneV1 Zod schema in
- * src/shared/schema/scene_v1.schema.ts
+ * Output types are derived from the SceneV1 Zod schema in
+ * src/shared/schema/scene_v1.schema.ts, and both API entrypoints validate
+ * every built level against it before responding.
+ *
+ * Reachability is proven, not assumed: after layout, the reachability
+ * solver (reachability.ts) replays the client's physics and platform
+ * placement, and the builder inserts or nudges ledges until a path from
+ * the player spawn to the exit exists. That path is returned alongside
+ * the scene. Hazards (from electric detections) and obstacles (from bulky
+ * furniture) are then placed outside the corridors that path moves
+ * through, so they can never cut it.
+ *
+ * Themed rule modifiers follow the room: plant-heavy photos play floaty,
+ * electric-heavy ones have faster enemies, and food-heavy ones lock the
+ * exit until every coin is collected (after moving any coin the solver
+ * can't reach onto a surface it can).
+ *
+ * buildStitchedLevel() joins 2–4 photos into one horizontally scrolling
+ * level: each photo is built as above and becomes one segment of a wider
+ * world, and the stitched result is proven end to end.
  */
 
+import {
+    boundsForSurfaceTop,
+    closestReached,
+    coinStack,
+    createJumpModel,
+    findPlacement,
+    pathCorridors,
+    simulatePlatforms,
+    surfaceBox,
+    solveReachability,
+    surfaceStep,
+    type PathStep,
+    type ReachabilityScene,
+} from './reachability';
+import type {
+    BoundsNormalized,
+    NormalizedPoint,
+    RuleModifier,
+    SceneObject,
+    SceneSpawns,
+    SceneV1,
+    SurfaceType,
+} from '../src/shared/schema/scene_v1.schema';
+import {
+    parseDetectionResponse,
+    type Detection,
+    type DetectionResponse,
+} from '../src/shared/types/Detection';
+
 // ---------------------------------------------------------------------------
 // Types — AI detection input
 // ---------------------------------------------------------------------------
 
-export interface Detection {
+// Validated against DetectionResponseSchema (src/shared/types/Detection.ts)
+// before they reach the builder
+export type { Detection, DetectionResponse };
+
+/** What the builder keeps from a detection once its role is decided. */
+interface DetectionInfo {
     label: string;
-    category: 'furniture' | 'food' | 'plant' | 'electric' | 'other';
+    category: Detection['category'];
     confidence: number;
-    bounds_normalized: { x: number; y: number; w: number; h: number };
+    width: number; // normalized width from AI (used for platform sizing)
+    enemyAnchor: boolean;
 }
 
-export interface DetectionResponse {
-    image: { w: number; h: number };
-    detections: Detection[];
+export type DifficultyLevel = 'easy' | 'normal' | 'hard';
+
+/** Tunables a difficulty profile controls. */
+export interface DifficultyProfile {
+    /** Min / max staircase platforms (excluding ground and bonus ledges) */
+    minPlatforms: number;
+    maxPlatforms: number;
+    /** Largest vertical step between staircase platforms (normalized) */
+    maxStep: number;
+    /** Multiplier on platform widths and the width range */
+    widthScale: number;
+    /** Enemies placed on mid-height platforms */
+    enemyCount: number;
+    /** Enemy type for every spawned enemy (see EnemyFactory) */
+    enemyType: 'walker' | 'runner';
+    /** How many of the platform pickups are health instead of coins */
+    healthPickups: number;
+    /** Max pickups placed on platforms */
+    maxPickups: number;
+    /** HP lost per hazard contact (the player has 10) */
+    hazardDamage: number;
+}
+
+export interface BuildOptions {
+    /**
+     * Layout strategy to use. Omit to let the seeded RNG pick one of the
+     * generated layouts. 'photo' falls back to a generated layout when the
+     * photo geometry is too clustered.
+     */
+    strategy?: LayoutStrategy;
+    /** Named profile, or a custom one (missing fields come from 'normal'). Default 'normal'. */
+    difficulty?: DifficultyLevel | Partial<DifficultyProfile>;
+    /**
+     * RNG seed (unsigned 32-bit). Omit to derive one from the detections, so
+     * identical photos produce the same level.
+     */
+    seed?: number;
 }
 
 // ---------------------------------------------------------------------------
-// Types — SceneV1 output (mirrors schema, no Zod import needed server-side)
+// Types — SceneV1 output (derived from the shared Zod schema)
 // ---------------------------------------------------------------------------
 
-interface Bounds {
-    x: number; y: number; w: number; h: number;
-}
+type Bounds = BoundsNormalized;
 
-interface SceneObject {
-    id: string;
-    type: 'platform' | 'obstacle' | 'collectible' | 'hazard';
-    label: string;
-    confidence: number;
-    bounds_normalized: Bounds;
-    surface_type?: 'solid' | 'soft';
-    category?: 'furniture' | 'food' | 'plant' | 'electric' | 'other';
-    enemy_spawn_anchor?: boolean;
-}
+type SpawnPoint = NormalizedPoint;
 
-interface SpawnPoint {
-    x: number; y: number;
-}
+type EnemySpawn = SceneSpawns['enemies'][number];
+
+type PickupSpawn = SceneSpawns['pickups'][number];
 
-interface EnemySpawn extends SpawnPoint {
-    type: string;
+/** A fallback worth a log line: its level, message and fields */
+export interface BuildEvent {
+    level: 'info' | 'warn';
+    msg: string;
+    fields: Record<string, unknown>;
 }
 
-interface PickupSpawn extends SpawnPoint {
-    type: string;
+export interface LevelBuildResult {
+    scene: SceneV1;
+    /** Path the reachability solver proved: spawn → platforms → exit */
+    path: PathStep[];
+    /** Number of ledge insertions / nudges needed to make the level reachable */
+    repairs: number;
+    /** Seed the layout was built from; pass it back to rebuild the same level */
+    seed: number;
+    /** Strategy actually used (after any photo fallback) */
+    strategy: LayoutStrategy;
+    /** Fallbacks the builder took, for the caller to log with the request's logger */
+    events: BuildEvent[];
 }
 
-interface SceneV1 {
-    version: 1;
-    image: { w: number; h: number };
-    objects: SceneObject[];
-    spawns: {
-        player: SpawnPoint;
-        exit: SpawnPoint;
-        enemies: EnemySpawn[];
-        pickups: PickupSpawn[];
-    };
-    rules: unknown[];
+/** A validated POST /api/scene/rebuild body. */
+export interface RebuildRequest {
+    /** One photo's detections, or 2–4 for a stitched level */
+    detections: DetectionResponse | DetectionResponse[];
+    options: BuildOptions;
 }
 
 // ---------------------------------------------------------------------------
 // Constants — tuned to match Phaser physics (PhysicsConfig.ts)
 // ---------------------------------------------------------------------------
 
+/**
+ * Builder version, echoed in responses. Bump whenever the same detections
+ * and seed can produce a different level, so stored seeds can be matched
+ * to the builder that made them.
+ */
+export const BUILDER_VERSION = 3;
+
 /** Ground platform Y position (near bottom of screen). */
 const GROUND_Y = 0.92;
 
@@ -92,8 +182,7 @@ const PLATFORM_THICKNESS = 0.03;
 /** How far above a platform surface to place entities. */
 const ENTITY_OFFSET_Y = 0.06;
 
-/** Min / max platforms to generate (excluding ground). */
-const MIN_PLATFORMS = 5;
+/** Max platforms taken from a photo (excluding ground). */
 const MAX_PLATFORMS = 8;
 
 /** Min / max platform widths (normalized). */
@@ -104,10 +193,175 @@ const MAX_PLAT_W = 0.35;
 const X_MIN = 0.02;
 const X_MAX = 0.96;
 
+/** Schema cap on platform objects (scene_v1.schema.ts TYPE_CAPS). */
+const MAX_SCENE_PLATFORMS = 12;
+
+/** Max ledge insertions / nudges before falling back to moving the exit. */
+const MAX_REPAIRS = 6;
+
+/** Width of ledges inserted by the reachability repair. */
+const REPAIR_LEDGE_W = 0.16;
+
+/**
+ * Max hazards / obstacles per level. Schema caps are 8 each, but objects
+ * are capped at 25 overall (12 platforms + 5 collectibles leaves 8).
+ */
+const MAX_HAZARDS = 4;
+const MAX_OBSTACLES = 3;
+
+/** Hazard strip thickness and width range (normalized). */
+const HAZARD_H = 0.015;
+const HAZARD_MIN_W = 0.05;
+const HAZARD_MAX_W = 0.12;
+
+/** Obstacle block size range (normalized). Kept well under a jump so they can be hopped. */
+const OBSTACLE_MIN_W = 0.06;
+const OBSTACLE_MAX_W = 0.14;
+const OBSTACLE_MIN_H = 0.05;
+const OBSTACLE_MAX_H = 0.1;
+
+/** Labels of furniture bulky enough to become a blocking obstacle. */
+const BULKY_LABEL_PATTERN = /sofa|couch|armchair|wardrobe|dresser|fridge|refrigerator|bookcase|cupboard|cabinet|chest/i;
+
+/** Furniture bounding-box area (normalized) above which any label counts as bulky. */
+const BULKY_MIN_AREA = 0.08;
+
+/**
+ * Detection → surface type, first match wins. Anything unmatched (and the
+ * ground, and repair ledges) stays 'solid'.
+ */
+const SURFACE_RULES: { type: Exclude<SurfaceType, 'solid'>; label: RegExp; categories?: Detection['category'][] }[] = [
+    { type: 'bouncy', label: /trampoline|mattress|bouncy|exercise ball/i },
+    { type: 'soft', label: /cushion|pillow|\bbed\b|beanbag|bean bag|duvet|blanket|quilt/i, categories: ['plant'] },
+    { type: 'slippery', label: /glass|\btiles?\b|\bice\b|marble|mirror/i },
+    { type: 'breakable', label: /cardboard|\bbox(es)?\b|carton|paper|newspaper/i },
+];
+
+/** Max platforms of each special surface type per level. */
+const SURFACE_LIMITS: Record<Exclude<SurfaceType, 'solid'>, number> = {
+    soft: 3,
+    slippery: 2,
+    bouncy: 2,
+    breakable: 2,
+};
+
+/** Min clearance between decorations, and around spawns / pickups / enemies. */
+const DECOR_CLEARANCE = 0.04;
+
+/** Detections of one category needed before the room picks up its theme rule. */
+const THEME_MIN_DETECTIONS = 2;
+
+/**
+ * Gravity multiplier for plant-heavy rooms. Jump velocity is unchanged in
+ * the game, so lower gravity only raises jumps and the proof still holds.
+ */
+const GARDEN_GRAVITY = 0.85;
+
+/** Enemy speed multiplier for electric-heavy rooms. */
+const CHARGED_ENEMY_SPEED = 1.25;
+
+/**
+ * Difficulty profiles. 'normal' reproduces the original fixed tuning
+ * (5–8 platforms, two walkers, one health pickup out of six).
+ */
+export const DIFFICULTY_PROFILES: Record<DifficultyLevel, DifficultyProfile> = {
+    easy: {
+        minPlatforms: 6, maxPlatforms: 9, maxStep: 0.18, widthScale: 1.25,
+        enemyCount: 1, enemyType: 'walker', healthPickups: 2, maxPickups: 6,
+        hazardDamage: 1,
+    },
+    normal: {
+        minPlatforms: 5, maxPlatforms: 8, maxStep: MAX_JUMP_HEIGHT, widthScale: 1.0,
+        enemyCount: 2, enemyType: 'walker', healthPickups: 1, maxPickups: 6,
+        hazardDamage: 2,
+    },
+    hard: {
+        minPlatforms: 4, maxPlatforms: 6, maxStep: 0.26, widthScale: 0.75,
+        enemyCount: 3, enemyType: 'runner', healthPickups: 0, maxPickups: 6,
+        hazardDamage: 3,
+    },
+};
+
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+    return value === 'easy' || value === 'normal' || value === 'hard';
+}
+
+/**
+ * Resolve a named or custom difficulty into a full profile. Custom values
+ * are merged onto 'normal' and clamped so the level stays buildable within
+ * the schema caps (12 platforms incl. ground and bonus ledges).
+ */
+export function resolveDifficulty(difficulty: BuildOptions['difficulty'] = 'normal'): DifficultyProfile {
+    if (isDifficultyLevel(difficulty)) return DIFFICULTY_PROFILES[difficulty];
+
+    const merged = { ...DIFFICULTY_PROFILES.normal, ...difficulty };
+    const maxPlatforms = Math.round(clamp(merged.maxPlatforms, 3, 9));
+    const maxPickups = Math.round(clamp(merged.maxPickups, 0, 10));
+    return {
+        minPlatforms: Math.round(clamp(merged.minPlatforms, 3, maxPlatforms)),
+        maxPlatforms,
+        maxStep: clamp(merged.maxStep, 0.12, 0.3),
+        widthScale: clamp(merged.widthScale, 0.5, 1.5),
+        enemyCount: Math.round(clamp(merged.enemyCount, 0, 4)),
+        enemyType: merged.enemyType === 'runner' ? 'runner' : 'walker',
+        healthPickups: Math.round(clamp(merged.healthPickups, 0, maxPickups)),
+        maxPickups,
+        hazardDamage: Math.round(clamp(merged.hazardDamage, 0, 10)),
+    };
+}
+
+/**
+ * Parse a `difficulty` field: a profile name, or custom profile values as
+ * an object (JSON bodies) or a JSON string (form fields). Anything else is
+ * ignored (undefined).
+ */
+export function parseDifficulty(raw: unknown): BuildOptions['difficulty'] | undefined {
+    if (isDifficultyLevel(raw)) return raw;
+
+    let parsed: unknown = raw;
+    if (typeof raw === 'string') {
+        if (!raw.trim().startsWith('{')) return undefined;
+        try {
+            parsed = JSON.parse(raw);
+        } catch {
+            return undefined;
+        }
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return undefined;
+
+    const custom: Partial<DifficultyProfile> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (key in DIFFICULTY_PROFILES.normal) {
+            (custom as Record<string, unknown>)[key] = value;
+        }
+    }
+    return custom;
+}
+
 /** Layout strategy names. */
-type LayoutStrategy = 'zigzag' | 'spiral' | 'scattered' | 'sCurve';
+export type LayoutStrategy = 'zigzag' | 'spiral' | 'scattered' | 'sCurve' | 'photo';
+export const LAYOUT_STRATEGIES: readonly LayoutStrategy[] = ['zigzag', 'spiral', 'scattered', 'sCurve', 'photo'];
+
+export function isLayoutStrategy(value: unknown): value is LayoutStrategy {
+    return typeof value === 'string' && (LAYOUT_STRATEGIES as readonly string[]).includes(value);
+}
+
+/** Generated layouts the seeded RNG picks from. 'photo' is opt-in only. */
 const STRATEGIES: LayoutStrategy[] = ['zigzag', 'spiral', 'scattered', 'sCurve'];
 
+/** Labels whose top edge reads as a walkable surface in a photo. */
+const SURFACE_LABEL_PATTERN = /table|desk|shelf|shelves|sill|counter|bench|cabinet|dresser|drawer|bed|sofa|couch|stool|chair|box|book|ledge|step|stair|mantel|piano/i;
+
+/** Min surfaces the photo must provide before the photo layout is used. */
+const PHOTO_MIN_SURFACES = 3;
+
+/** Min vertical / horizontal spread of photo surfaces — below this they're "clustered". */
+const PHOTO_MIN_SPREAD_Y = 0.3;
+const PHOTO_MIN_SPREAD_X = 0.35;
+
+/** Widest photo surface kept (normalized) — wider boxes are trimmed around their centre. */
+const PHOTO_MAX_PLAT_W = 0.5;
+
 // ---------------------------------------------------------------------------
 // Simple seeded PRNG (mulberry32) — deterministic per photo
 // ---------------------------------------------------------------------------
@@ -130,7 +384,85 @@ function deriveSeed(input: DetectionResponse): number {
             Math.round(d.bounds_normalized.x * 1000) +
             Math.round(d.bounds_normalized.y * 1000)) | 0;
     }
-    return hash;
+    return hash >>> 0;
+}
+
+/** A fresh random seed, for rerolling a layout. */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Parse a seed from a form field or JSON body: a non-negative integer, or a
+ * string of digits. Anything else is ignored (undefined).
+ */
+export function parseSeed(raw: unknown): number | undefined {
+    const value = typeof raw === 'string' && /^\d+$/.test(raw.trim()) ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) return undefined;
+    return value >>> 0;
+}
+
+/**
+ * Validate a POST /api/scene/rebuild body: stored detections (the
+ * `_debug.detections` of an earlier response — an array of 2–4 for a
+ * stitched level) plus optional seed, strategy and difficulty. Returns an
+ * error message instead of throwing.
+ *
+ * Stored detections that record their post-processing (`postprocess.before`)
+ * are read from before it, so the caller can post-process them afresh.
+ */
+export function parseRebuildRequest(body: unknown): { ok: true; value: RebuildRequest } | { ok: false; error: string } {
+    if (!body || typeof body !== 'object') {
+        return { ok: false, error: 'Expected a JSON body' };
+    }
+    const { detections, seed, strategy, difficulty } = body as Record<string, unknown>;
+
+    // Stored detections get the same validation and salvage as a fresh AI answer
+    // (except that a stored body must still carry its image size)
+    const validate = (d: unknown) => {
+        const stored = d as (Partial<DetectionResponse> & { postprocess?: { before?: unknown } }) | null | undefined;
+        const image = stored?.image;
+        if (!image || !(image.w > 0) || !(image.h > 0)) return undefined;
+        const before = stored?.postprocess?.before;
+        const result = parseDetectionResponse(Array.isArray(before) ? { ...stored, detections: before } : d);
+        return result.ok ? result.data : undefined;
+    };
+
+    let validated: RebuildRequest['detections'];
+    if (Array.isArray(detections)) {
+        if (detections.length < 2 || detections.length > MAX_SEGMENTS) {
+            return { ok: false, error: `detections must list 2–${MAX_SEGMENTS} photos` };
+        }
+        const each = detections.map(validate);
+        if (!each.every((d): d is DetectionResponse => d !== undefined)) {
+            return { ok: false, error: 'each detections entry must be { image: { w, h }, detections: [...] }' };
+        }
+        validated = each;
+    } else {
+        const one = validate(detections);
+        if (!one) {
+            return { ok: false, error: 'detections must be { image: { w, h }, detections: [...] }' };
+        }
+        validated = one;
+    }
+    if (seed !== undefined && parseSeed(seed) === undefined) {
+        return { ok: false, error: 'seed must be a non-negative integer' };
+    }
+    if (strategy !== undefined && !isLayoutStrategy(strategy)) {
+        return { ok: false, error: `strategy must be one of ${LAYOUT_STRATEGIES.join(', ')}` };
+    }
+
+    return {
+        ok: true,
+        value: {
+            detections: validated,
+            options: {
+                seed: parseSeed(seed),
+                strategy: strategy as LayoutStrategy | undefined,
+                difficulty: parseDifficulty(difficulty),
+            },
+        },
+    };
 }
 
 // ---------------------------------------------------------------------------
@@ -145,32 +477,117 @@ function lerp(a: number, b: number, t: number): number {
     return a + (b - a) * t;
 }
 
+/** Do two rects overlap (or come within `gap` of each other)? */
+function overlaps(a: Bounds, b: Bounds, gap = 0): boolean {
+    return a.x < b.x + b.w + gap && a.x + a.w > b.x - gap &&
+        a.y < b.y + b.h + gap && a.y + a.h > b.y - gap;
+}
+
+/** Surface type a detection's label (or category) suggests, ignoring limits. */
+export function surfaceTypeFor(label: string, category: Detection['category']): SurfaceType {
+    for (const rule of SURFACE_RULES) {
+        if (rule.label.test(label) || rule.categories?.includes(category)) return rule.type;
+    }
+    return 'solid';
+}
+
+function isBulkyFurniture(det: Detection): boolean {
+    if (det.category !== 'furniture') return false;
+    const { w, h } = det.bounds_normalized;
+    return BULKY_LABEL_PATTERN.test(det.label) || w * h >= BULKY_MIN_AREA;
+}
+
+// ---------------------------------------------------------------------------
+// Photo layout
+// ---------------------------------------------------------------------------
+
+interface PhotoSurface {
+    info: DetectionInfo;
+    bounds: Bounds;
+}
+
+/**
+ * Derive walkable surfaces from the top edges of the AI's bounding boxes.
+ *
+ * Surface-like labels (tables, shelves, sills…) are preferred, then higher
+ * confidence. A surface that would sit on top of one already chosen is
+ * skipped. Returns null when the photo geometry is too clustered to make a
+ * level out of — the caller falls back to a generated layout.
+ */
+function derivePhotoSurfaces(detections: Detection[]): PhotoSurface[] | null {
+    const ranked = detections
+        .filter((d) => d.category !== 'food')
+        .filter((d) => d.bounds_normalized.w >= MIN_PLAT_W * 0.5)
+        .sort((a, b) => {
+            const surfaceA = SURFACE_LABEL_PATTERN.test(a.label) ? 1 : 0;
+            const surfaceB = SURFACE_LABEL_PATTERN.test(b.label) ? 1 : 0;
+            return surfaceB - surfaceA || b.confidence - a.confidence;
+        });
+
+    const surfaces: PhotoSurface[] = [];
+    for (const det of ranked) {
+        if (surfaces.length >= MAX_PLATFORMS) break;
+
+        const box = det.bounds_normalized;
+        const y = box.y;
+        if (y < EXIT_Y - 0.02 || y > GROUND_Y - 0.08) continue;
+
+        const w = clamp(box.w, MIN_PLAT_W, PHOTO_MAX_PLAT_W);
+        const x = clamp(box.x + (box.w - w) / 2, X_MIN, X_MAX - w);
+
+        const crowded = surfaces.some((s) =>
+            Math.abs(s.bounds.y - y) < 0.08 &&
+            x < s.bounds.x + s.bounds.w && x + w > s.bounds.x,
+        );
+        if (crowded) continue;
+
+        surfaces.push({
+            info: {
+                label: det.label,
+                category: det.category,
+                confidence: det.confidence,
+                width: w,
+                enemyAnchor: det.category === 'plant' || det.category === 'electric',
+            },
+            bounds: { x, y, w, h: PLATFORM_THICKNESS },
+        });
+    }
+
+    if (surfaces.length < PHOTO_MIN_SURFACES) return null;
+
+    const tops = surfaces.map((s) => s.bounds.y);
+    const centres = surfaces.map((s) => s.bounds.x + s.bounds.w / 2);
+    const spreadY = Math.max(...tops) - Math.min(...tops);
+    const spreadX = Math.max(...centres) - Math.min(...centres);
+    if (spreadY < PHOTO_MIN_SPREAD_Y || spreadX < PHOTO_MIN_SPREAD_X) return null;
+
+    // Bottom-up, like the generated staircases
+    return surfaces.sort((a, b) => b.bounds.y - a.bounds.y);
+}
+
 // ---------------------------------------------------------------------------
 // Main builder
 // ---------------------------------------------------------------------------
 
-export function buildLevel(input: DetectionResponse): SceneV1 {
+export function buildLevel(input: DetectionResponse, options: BuildOptions = {}): LevelBuildResult {
     const { image, detections } = input;
+    const profile = resolveDifficulty(options.difficulty);
     const objects: SceneObject[] = [];
+    const events: BuildEvent[] = [];
     let idCounter = 0;
     const nextId = (prefix: string) => `${prefix}_${idCounter++}`;
 
     // -----------------------------------------------------------------------
     // Step A: Classify detections — we use labels/categories/widths ONLY.
     //         AI positions are DISCARDED because photos cluster in the
-    //         centre, producing unplayable layouts.
+    //         centre, producing unplayable layouts. (The opt-in 'photo'
+    //         strategy in Step C is the exception.)
     // -----------------------------------------------------------------------
 
-    interface DetectionInfo {
-        label: string;
-        category: Detection['category'];
-        confidence: number;
-        width: number; // normalized width from AI (used for platform sizing)
-        enemyAnchor: boolean;
-    }
-
     const platformInfos: DetectionInfo[] = [];
     const collectibleDetections: Detection[] = [];
+    const hazardDetections: Detection[] = [];
+    const obstacleDetections: Detection[] = [];
 
     for (const det of detections) {
         if (det.category === 'food') {
@@ -178,6 +595,11 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
             continue;
         }
 
+        // Electric things and bulky furniture also theme the hazards and
+        // obstacles placed in Step N (they still name platforms too)
+        if (det.category === 'electric') hazardDetections.push(det);
+        if (isBulkyFurniture(det)) obstacleDetections.push(det);
+
         // Everything else is a potential platform source
         platformInfos.push({
             label: det.label,
@@ -192,9 +614,9 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     // Step B: Decide platform count
     // -----------------------------------------------------------------------
 
-    const platCount = clamp(platformInfos.length, MIN_PLATFORMS, MAX_PLATFORMS);
+    const platCount = clamp(platformInfos.length, profile.minPlatforms, profile.maxPlatforms);
 
-    // Pad with generic platforms if we have fewer detections than MIN_PLATFORMS
+    // Pad with generic platforms if we have fewer detections than the profile minimum
     while (platformInfos.length < platCount) {
         platformInfos.push({
             label: 'ledge',
@@ -208,34 +630,49 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     // -----------------------------------------------------------------------
     // Step C: Build platform layout using a randomly-selected strategy
     //
-    //     A seeded RNG (deterministic per photo) picks one of several
+    //     A seeded RNG (deterministic per photo, or options.seed) picks one of several
     //     layout strategies and adds jitter to positions & sizes.
     //     All strategies guarantee:
-    //       - Every vertical gap ≤ MAX_JUMP_HEIGHT
+    //       - Every vertical gap ≤ the profile's maxStep
     //       - A clear path from ground to exit
+    //
+    //     The 'photo' strategy is only used when requested: it keeps the
+    //     top edges of the real bounding boxes and leaves gap filling to
+    //     the reachability repair in Step H.
     // -----------------------------------------------------------------------
 
-    const rng = createRng(deriveSeed(input));
+    const seed = options.seed ?? deriveSeed(input);
+    const rng = createRng(seed);
 
-    // Pick a strategy
-    const strategy = STRATEGIES[Math.floor(rng() * STRATEGIES.length)];
+    // Pick a strategy (always draw, so requested strategies don't shift the RNG)
+    const randomStrategy = STRATEGIES[Math.floor(rng() * STRATEGIES.length)];
+
+    const photoSurfaces = options.strategy === 'photo' ? derivePhotoSurfaces(detections) : null;
+    let strategy = options.strategy ?? randomStrategy;
+    if (strategy === 'photo' && !photoSurfaces) {
+        events.push({ level: 'info', msg: 'photo geometry too clustered, falling back', fields: { strategy: randomStrategy } });
+        strategy = randomStrategy;
+    }
 
     const totalRise = GROUND_Y - EXIT_Y; // positive, ~0.74
     const baseStep = totalRise / (platCount + 1);
-    const vertStep = Math.min(baseStep, MAX_JUMP_HEIGHT);
+    const vertStep = Math.min(baseStep, profile.maxStep);
 
     interface StaircasePlatform {
         info: DetectionInfo;
         bounds: Bounds;
         isGround: boolean;
+        /** Set once the path is proven (Step I) */
+        surface?: SurfaceType;
     }
 
     const staircasePlatforms: StaircasePlatform[] = [];
 
-    /** Add jitter to width: ±30% variation */
+    /** Add jitter to width: ±30% variation, scaled by difficulty */
     const jitterWidth = (base: number): number => {
         const factor = 0.7 + rng() * 0.6; // 0.7 – 1.3
-        return clamp(base * factor, MIN_PLAT_W, MAX_PLAT_W);
+        const scale = profile.widthScale;
+        return clamp(base * factor * scale, MIN_PLAT_W * scale, MAX_PLAT_W * scale);
     };
 
     /** Add vertical jitter: ±20% of the step */
@@ -252,7 +689,13 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
 
     // ---- Strategy implementations ----------------------------------------
 
-    if (strategy === 'zigzag') {
+    if (strategy === 'photo' && photoSurfaces) {
+        // Real surfaces from the photo, as detected
+        for (const surface of photoSurfaces) {
+            staircasePlatforms.push({ ...surface, isGround: false });
+        }
+
+    } else if (strategy === 'zigzag') {
         // Classic zigzag but with randomised band positions and jitter
         for (let i = 0; i < platCount; i++) {
             const info = platformInfos[i];
@@ -325,8 +768,9 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
 
     // ---- Add 1-2 bonus floating platforms for extra exploration -----------
 
-    const bonusCount = rng() < 0.6 ? 1 : 2;
-    for (let b = 0; b < bonusCount && staircasePlatforms.length < MAX_PLATFORMS + 2; b++) {
+    // (Skipped for the photo layout — extra ledges there come from repair only)
+    const bonusCount = strategy === 'photo' ? 0 : rng() < 0.6 ? 1 : 2;
+    for (let b = 0; b < bonusCount && staircasePlatforms.length < profile.maxPlatforms + 2; b++) {
         const w = MIN_PLAT_W + rng() * 0.06;
         // Place between existing platforms vertically
         const slotIdx = Math.floor(rng() * (staircasePlatforms.length - 1));
@@ -360,24 +804,180 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     });
 
     // -----------------------------------------------------------------------
-    // Step E: Emit platform SceneObjects
+    // Step E: Player spawn — on ground, far left
+    // -----------------------------------------------------------------------
+
+    const playerSpawn: SpawnPoint = {
+        x: 0.08,
+        y: GROUND_Y - ENTITY_OFFSET_Y,
+    };
+
+    // -----------------------------------------------------------------------
+    // Step F: Match the client's platform placement
+    //
+    //     PlatformFactory skips platforms that crowd an earlier one and
+    //     lowers ones it can't reach from the floor. Drop the former and
+    //     adopt the latter here, so pickups and enemies end up on surfaces
+    //     that actually exist in the game.
+    // -----------------------------------------------------------------------
+
+    const platformId = (sp: StaircasePlatform, i: number) =>
+        `${sp.isGround ? 'ground' : 'plat'}_${i}`;
+
+    const toDraftObjects = () => staircasePlatforms.map((sp, i) => ({
+        id: platformId(sp, i),
+        type: 'platform',
+        bounds_normalized: sp.bounds,
+        surface_type: sp.surface,
+    }));
+
+    const survivors = new Map(
+        simulatePlatforms({
+            image,
+            objects: toDraftObjects(),
+            spawns: { player: playerSpawn, exit: { x: 0.9, y: EXIT_Y } },
+        }).map((s) => [s.id, s]),
+    );
+    const placed = staircasePlatforms.filter((sp, i) => {
+        const surface = survivors.get(platformId(sp, i));
+        if (!surface) return sp.isGround;
+        const { x, w, h } = sp.bounds;
+        sp.bounds = boundsForSurfaceTop(x, surface.top, w, h);
+        return true;
+    });
+    staircasePlatforms.splice(0, staircasePlatforms.length, ...placed);
+
+    // -----------------------------------------------------------------------
+    // Step G: Exit — on the highest staircase platform, right side
+    // -----------------------------------------------------------------------
+
+    const exitFor = (plat: StaircasePlatform): SpawnPoint => ({
+        x: clamp(plat.bounds.x + plat.bounds.w - 0.04, 0.6, 0.95),
+        y: plat.bounds.y - ENTITY_OFFSET_Y,
+    });
+
+    // Highest = smallest Y value
+    const exitPlatform = staircasePlatforms
+        .filter((p) => !p.isGround)
+        .sort((a, b) => a.bounds.y - b.bounds.y)[0];
+    let exitSpawn = exitFor(exitPlatform);
+
+    // -----------------------------------------------------------------------
+    // Step H: Prove reachability, repairing the layout until it holds
+    //
+    //     1. Insert a ledge that extends the reachable area towards the exit
+    //        (while under the schema's platform cap)
+    //     2. Otherwise nudge the exit platform within reach
+    //     3. Last resort: move the exit onto the closest reachable surface
+    // -----------------------------------------------------------------------
+
+    const draftScene = (): ReachabilityScene => ({
+        image,
+        objects: toDraftObjects(),
+        spawns: { player: playerSpawn, exit: exitSpawn },
+    });
+
+    let proof = solveReachability(draftScene());
+    let repairs = 0;
+
+    while (!proof.reachable && repairs < MAX_REPAIRS) {
+        const draft = draftScene();
+        const area = { xMin: X_MIN, xMax: X_MAX, yMin: EXIT_Y - 0.02, h: PLATFORM_THICKNESS };
+        let repaired = false;
+
+        if (staircasePlatforms.length < MAX_SCENE_PLATFORMS) {
+            const ledge = findPlacement(draft, {
+                ...area,
+                w: REPAIR_LEDGE_W,
+                newId: `plat_${staircasePlatforms.length}`,
+            });
+            if (ledge) {
+                staircasePlatforms.push({
+                    info: { label: 'ledge', category: 'other', confidence: 1.0, width: ledge.w, enemyAnchor: false },
+                    bounds: ledge,
+                    isGround: false,
+                });
+                repaired = true;
+            }
+        }
+
+        if (!repaired) {
+            const idx = staircasePlatforms.indexOf(exitPlatform);
+            const moved = findPlacement(draft, {
+                ...area,
+                w: exitPlatform.bounds.w,
+                replaceId: platformId(exitPlatform, idx),
+            });
+            if (moved) {
+                exitPlatform.bounds = moved;
+                exitSpawn = exitFor(exitPlatform);
+                repaired = true;
+            }
+        }
+
+        if (!repaired) break;
+        repairs++;
+        proof = solveReachability(draftScene());
+    }
+
+    if (!proof.reachable) {
+        // Moving the exit changes the adaptive jump height, so if the closest
+        // surface drops out of reach, settle for the spawn surface itself.
+        const stranded = proof;
+        for (const home of [closestReached(stranded, exitSpawn), surfaceStep(stranded.reached[0])]) {
+            exitSpawn = { x: clamp(home.x, 0.05, 0.95), y: home.y - ENTITY_OFFSET_Y };
+            proof = solveReachability(draftScene());
+            if (proof.reachable) {
+                events.push({ level: 'warn', msg: 'exit moved to a reachable surface', fields: { surface: home.id, repairs } });
+                break;
+            }
+        }
+    }
+
+    // -----------------------------------------------------------------------
+    // Step I: Emit platform SceneObjects
+    //
+    //     Surface types follow the detected object (a cushion is soft, a
+    //     glass shelf slippery …), bottom-up, until each type's per-level
+    //     limit is used up. The ground and the proven path stay solid: the
+    //     solver's jumps are take-offs from solid ground, so special
+    //     surfaces only go where the path doesn't jump from them. The path
+    //     is proven again with the types, so the coins below are only
+    //     counted on surfaces reached that way too.
     // -----------------------------------------------------------------------
 
-    for (const sp of staircasePlatforms) {
+    const onPath = new Set(proof.path.map((step) => step.id));
+    const surfaceCounts: Partial<Record<SurfaceType, number>> = {};
+    const surfaceFor = (sp: StaircasePlatform, id: string): SurfaceType => {
+        if (sp.isGround || onPath.has(id)) return 'solid';
+        const type = surfaceTypeFor(sp.info.label, sp.info.category);
+        if (type === 'solid') return type;
+        const used = surfaceCounts[type] ?? 0;
+        if (used >= SURFACE_LIMITS[type]) return 'solid';
+        surfaceCounts[type] = used + 1;
+        return type;
+    };
+
+    staircasePlatforms.forEach((sp, i) => {
+        const id = platformId(sp, i);
+        sp.surface = surfaceFor(sp, id);
         objects.push({
-            id: nextId(sp.isGround ? 'ground' : 'plat'),
+            id,
             type: 'platform',
             label: sp.info.label,
             confidence: sp.info.confidence,
             bounds_normalized: sp.bounds,
-            surface_type: 'solid',
+            surface_type: sp.surface,
             category: sp.info.category,
             enemy_spawn_anchor: sp.info.enemyAnchor,
         });
-    }
+    });
+    idCounter = staircasePlatforms.length;
+    // Still reachable: every surface the path jumps from is solid now
+    proof = solveReachability(draftScene());
 
     // -----------------------------------------------------------------------
-    // Step F: Add collectible objects from food detections (placed on
+    // Step J: Add collectible objects from food detections (placed on
     //         staircase platforms, not at AI positions)
     // -----------------------------------------------------------------------
 
@@ -402,37 +1002,16 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     }
 
     // -----------------------------------------------------------------------
-    // Step G: Player spawn — on ground, far left
-    // -----------------------------------------------------------------------
-
-    const playerSpawn: SpawnPoint = {
-        x: 0.08,
-        y: GROUND_Y - ENTITY_OFFSET_Y,
-    };
-
-    // -----------------------------------------------------------------------
-    // Step H: Exit — on the highest staircase platform, right side
-    // -----------------------------------------------------------------------
-
-    // Highest = smallest Y value
-    const sorted = [...realPlatforms].sort((a, b) => a.bounds.y - b.bounds.y);
-    const highestPlat = sorted[0];
-    const exitSpawn: SpawnPoint = {
-        x: clamp(highestPlat.bounds.x + highestPlat.bounds.w - 0.04, 0.6, 0.95),
-        y: highestPlat.bounds.y - ENTITY_OFFSET_Y,
-    };
-
-    // -----------------------------------------------------------------------
-    // Step I: Place pickups on every other staircase platform
+    // Step K: Place pickups on every other staircase platform
     // -----------------------------------------------------------------------
 
     const pickups: PickupSpawn[] = [];
-    for (let i = 0; i < realPlatforms.length && pickups.length < 6; i++) {
+    for (let i = 0; i < realPlatforms.length && pickups.length < profile.maxPickups; i++) {
         const plat = realPlatforms[i];
         pickups.push({
             x: clamp(plat.bounds.x + plat.bounds.w / 2, 0.05, 0.95),
             y: plat.bounds.y - ENTITY_OFFSET_Y,
-            type: i === 0 ? 'health' : 'coin',
+            type: i < profile.healthPickups ? 'health' : 'coin',
         });
     }
 
@@ -443,14 +1022,17 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     }
 
     // -----------------------------------------------------------------------
-    // Step J: Place 1–2 enemies on mid-height staircase platforms
+    // Step L: Place enemies on mid-height staircase platforms
     // -----------------------------------------------------------------------
 
     const enemies: EnemySpawn[] = [];
-    // Pick platforms from the middle of the staircase (indices around platCount/3 and 2*platCount/3)
-    const midIdx1 = Math.floor(realPlatforms.length / 3);
-    const midIdx2 = Math.floor((realPlatforms.length * 2) / 3);
-    const enemyIndices = realPlatforms.length >= 4 ? [midIdx1, midIdx2] : [midIdx1];
+    // Spread evenly through the staircase (2 enemies → platCount/3 and 2*platCount/3).
+    // Short staircases get at most one.
+    const enemyCount = realPlatforms.length >= 4 ? profile.enemyCount : Math.min(profile.enemyCount, 1);
+    const enemyIndices = new Set<number>();
+    for (let k = 1; k <= enemyCount; k++) {
+        enemyIndices.add(Math.floor((realPlatforms.length * k) / (enemyCount + 1)));
+    }
 
     for (const idx of enemyIndices) {
         const plat = realPlatforms[idx];
@@ -458,7 +1040,7 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
         enemies.push({
             x: clamp(plat.bounds.x + plat.bounds.w / 2, 0.05, 0.95),
             y: plat.bounds.y - ENTITY_OFFSET_Y,
-            type: 'walker',
+            type: profile.enemyType,
         });
 
         // Mark the corresponding platform object as enemy anchor
@@ -469,7 +1051,120 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
     }
 
     // -----------------------------------------------------------------------
-    // Step K: Assemble final SceneV1
+    // Step M: Themed rules from the detection mix
+    //
+    //     Only rules that can't break the proof: lower gravity and faster
+    //     enemies. Food-heavy rooms lock the exit until every coin is
+    //     collected, so coins off the reachable surfaces move onto the
+    //     closest reachable one first (the player can always drop back to
+    //     the floor, so the exit stays reachable afterwards).
+    // -----------------------------------------------------------------------
+
+    const categoryCount = (category: Detection['category']) =>
+        detections.filter((d) => d.category === category).length;
+    const rules: RuleModifier[] = [];
+
+    if (categoryCount('plant') >= THEME_MIN_DETECTIONS) {
+        rules.push({ type: 'gravity_multiplier', value: GARDEN_GRAVITY });
+    }
+    if (categoryCount('electric') >= THEME_MIN_DETECTIONS && enemies.length > 0) {
+        rules.push({ type: 'enemy_speed_multiplier', value: CHARGED_ENEMY_SPEED });
+    }
+
+    const coins = pickups.filter((p) => p.type === 'coin');
+    if (categoryCount('food') >= THEME_MIN_DETECTIONS && coins.length > 0) {
+        const { safeRise } = createJumpModel(draftScene());
+        // Every coin of the stack the game makes of a spawn, the upper one too
+        const collectible = (p: SpawnPoint) => coinStack(p).every((c) => proof.reached.some((s) =>
+            c.x >= s.x && c.x <= s.x + s.w && s.top - c.y >= 0 && s.top - c.y <= safeRise));
+
+        const movedPerSurface = new Map<string, number>();
+        for (const coin of coins.filter((c) => !collectible(c))) {
+            const home = closestReached(proof, coin);
+            const surface = proof.reached.find((r) => r.id === home.id)!;
+            const k = movedPerSurface.get(surface.id) ?? 0;
+            movedPerSurface.set(surface.id, k + 1);
+            coin.x = clamp(surface.x + surface.w * (k % 2 === 0 ? 0.25 : 0.75), 0.05, 0.95);
+            coin.y = surface.top - ENTITY_OFFSET_Y;
+        }
+        rules.push({ type: 'collect_all_to_unlock_exit' });
+    }
+
+    // -----------------------------------------------------------------------
+    // Step N: Hazards (electric detections) and obstacles (bulky furniture)
+    //
+    //     Hazards are thin damaging strips lying on a surface; obstacles are
+    //     solid blocks standing on one. Both are kept out of the proven
+    //     path's corridors, so they never cut it, and clear of spawns,
+    //     pickups and enemies.
+    // -----------------------------------------------------------------------
+
+    const finalDraft = draftScene();
+    const corridors = pathCorridors(finalDraft, proof);
+    const surfaces = simulatePlatforms(finalDraft);
+    const solids = surfaces.map(surfaceBox);
+    const decor: Bounds[] = [];
+    const keepClear: Bounds[] = [playerSpawn, exitSpawn, ...pickups, ...enemies].map((p) => ({
+        x: p.x - DECOR_CLEARANCE,
+        y: p.y - DECOR_CLEARANCE,
+        w: DECOR_CLEARANCE * 2,
+        h: ENTITY_OFFSET_Y + DECOR_CLEARANCE,
+    }));
+
+    /** A random clear spot for a w×h box resting on top of any surface, or null. */
+    const placeOnSurface = (w: number, h: number): Bounds | null => {
+        const spots: Bounds[] = [];
+        for (const surface of surfaces) {
+            const xMin = Math.max(surface.x, X_MIN);
+            const xMax = Math.min(surface.x + surface.w, X_MAX);
+            for (let x = xMin; x + w <= xMax; x += DECOR_CLEARANCE / 2) {
+                const spot = { x, y: surface.top - h, w, h };
+                if (corridors.some((c) => overlaps(spot, c))) continue;
+                if (solids.some((b) => overlaps(spot, b))) continue;
+                if (keepClear.some((k) => overlaps(spot, k))) continue;
+                if (decor.some((d) => overlaps(spot, d, DECOR_CLEARANCE))) continue;
+                spots.push(spot);
+            }
+        }
+        if (spots.length === 0) return null;
+        const spot = spots[Math.floor(rng() * spots.length)];
+        decor.push(spot);
+        return spot;
+    };
+
+    // Obstacles first: they're bigger and harder to fit
+    for (const det of obstacleDetections.slice(0, MAX_OBSTACLES)) {
+        const w = clamp(det.bounds_normalized.w * 0.4, OBSTACLE_MIN_W, OBSTACLE_MAX_W);
+        const h = clamp(det.bounds_normalized.h * 0.3, OBSTACLE_MIN_H, OBSTACLE_MAX_H);
+        const bounds = placeOnSurface(w, h);
+        if (!bounds) continue;
+        objects.push({
+            id: nextId('obstacle'),
+            type: 'obstacle',
+            label: det.label,
+            confidence: det.confidence,
+            bounds_normalized: bounds,
+            category: 'furniture',
+        });
+    }
+
+    for (const det of hazardDetections.slice(0, MAX_HAZARDS)) {
+        const w = clamp(det.bounds_normalized.w * 0.5, HAZARD_MIN_W, HAZARD_MAX_W);
+        const bounds = placeOnSurface(w, HAZARD_H);
+        if (!bounds) continue;
+        objects.push({
+            id: nextId('hazard'),
+            type: 'hazard',
+            label: det.label,
+            confidence: det.confidence,
+            bounds_normalized: bounds,
+            game_mechanics: { damage_amount: profile.hazardDamage },
+            category: 'electric',
+        });
+    }
+
+    // -----------------------------------------------------------------------
+    // Step O: Assemble final SceneV1
     // -----------------------------------------------------------------------
 
     const scene: SceneV1 = {
@@ -482,8 +1177,202 @@ export function buildLevel(input: DetectionResponse): SceneV1 {
             enemies,
             pickups,
         },
-        rules: [],
+        rules,
+    };
+
+    return { scene, path: proof.path, repairs, seed, strategy, events };
+}
+
+// ---------------------------------------------------------------------------
+// Stitched levels — 2–4 photos side by side
+// ---------------------------------------------------------------------------
+
+/** Most photos a stitched level is built from (schema MAX_SEGMENTS). */
+export const MAX_SEGMENTS = 4;
+
+/** Seed increment between segments (golden ratio), so neighbours don't repeat. */
+const SEGMENT_SEED_STEP = 0x9e3779b9;
+
+/** Tolerance when checking that a decoration still rests on a surface. */
+const REST_EPSILON = 1e-6;
+
+/**
+ * Build one horizontally scrolling level from several photos.
+ *
+ * Every photo is built as a level of its own (same options, a seed per
+ * segment) with the first photo's frame, so all segments are the same
+ * size. Segment i then fills world X [i/n, (i+1)/n]: the player spawns in
+ * the first segment and the exit is the last segment's. The per-photo
+ * grounds merge into one floor running under every segment — that floor
+ * is the transition between segments, and each segment's staircase starts
+ * from it.
+ *
+ * The stitched scene is proven again, because the adaptive jump now
+ * follows every segment's platforms: ledges are added to the last segment
+ * (or the exit moved, as in Step H) until the exit is reachable. Platforms
+ * the client would drop at a seam are dropped, decorations are kept only
+ * where they still rest on a surface outside the new path's corridors,
+ * and a segment's collect-all rule only survives if every coin in the
+ * whole level can be reached.
+ */
+export function buildStitchedLevel(inputs: DetectionResponse[], options: BuildOptions = {}): LevelBuildResult {
+    const n = inputs.length;
+    if (n === 1) return buildLevel(inputs[0], options);
+    if (n < 1 || n > MAX_SEGMENTS) {
+        throw new RangeError(`A stitched level needs 1–${MAX_SEGMENTS} photos, got ${n}`);
+    }
+
+    const frame = inputs[0].image;
+    const seed = options.seed
+        ?? inputs.reduce((hash, input) => (Math.imul(hash, 31) + deriveSeed(input)) | 0, 0) >>> 0;
+    const parts = inputs.map((input, i) => buildLevel(
+        { ...input, image: frame },
+        { ...options, seed: (seed + i * SEGMENT_SEED_STEP) >>> 0 },
+    ));
+
+    const image = { w: frame.w * n, h: frame.h };
+    const segments = parts.map((_, i) => ({ x: i / n, w: 1 / n }));
+    const toWorldX = (i: number, x: number) => (i + x) / n;
+
+    // --- Lay the segments side by side, sharing one ground ---------------
+
+    const platforms: SceneObject[] = [];
+    const others: SceneObject[] = [];
+    let ground: SceneObject | undefined;
+    const pickups: PickupSpawn[] = [];
+    const enemies: EnemySpawn[] = [];
+
+    parts.forEach(({ scene }, i) => {
+        for (const obj of scene.objects) {
+            const b = obj.bounds_normalized;
+            if (obj.id.startsWith('ground_')) {
+                ground ??= { ...obj, id: `s${i}_${obj.id}`, bounds_normalized: { ...b, x: 0, w: 1 } };
+                continue;
+            }
+            const placed = { ...obj, id: `s${i}_${obj.id}`, bounds_normalized: { ...b, x: toWorldX(i, b.x), w: b.w / n } };
+            (obj.type === 'platform' ? platforms : others).push(placed);
+        }
+        pickups.push(...scene.spawns.pickups.map((p) => ({ ...p, x: toWorldX(i, p.x) })));
+        enemies.push(...scene.spawns.enemies.map((e) => ({ ...e, x: toWorldX(i, e.x) })));
+    });
+
+    // The ground goes after every platform, as in buildLevel, so it crowds
+    // out the same platforms it did in each segment on its own
+    if (ground) platforms.push(ground);
+
+    const first = parts[0].scene.spawns.player;
+    const last = parts[n - 1].scene.spawns.exit;
+    const playerSpawn: SpawnPoint = { x: toWorldX(0, first.x), y: first.y };
+    let exitSpawn: SpawnPoint = { x: toWorldX(n - 1, last.x), y: last.y };
+
+    const draftScene = (): ReachabilityScene => ({
+        image,
+        objects: platforms,
+        spawns: { player: playerSpawn, exit: exitSpawn },
+        segments,
+    });
+
+    // --- Match the client's platform placement (as Step F) ---------------
+
+    const survivors = new Map(simulatePlatforms(draftScene()).map((s) => [s.id, s]));
+    const kept = platforms.filter((obj) => {
+        const surface = survivors.get(obj.id);
+        if (!surface) return obj === ground;
+        const { x, w, h } = obj.bounds_normalized;
+        obj.bounds_normalized = boundsForSurfaceTop(x, surface.top, w, h);
+        return true;
+    });
+    platforms.splice(0, platforms.length, ...kept);
+
+    // --- Prove the whole level, repairing in the last segment (as Step H) --
+
+    let proof = solveReachability(draftScene());
+    let repairs = parts.reduce((sum, part) => sum + part.repairs, 0);
+    let ledges = 0;
+    const events: BuildEvent[] = parts.flatMap((part, i) => part.events.map((e) => ({ ...e, fields: { ...e.fields, segment: i + 1 } })));
+
+    while (!proof.reachable && ledges < MAX_REPAIRS && platforms.length < MAX_SCENE_PLATFORMS * n) {
+        const id = `s${n - 1}_ledge_${ledges}`;
+        const ledge = findPlacement(draftScene(), {
+            xMin: toWorldX(n - 1, X_MIN),
+            xMax: toWorldX(n - 1, X_MAX),
+            yMin: EXIT_Y - 0.02,
+            w: REPAIR_LEDGE_W / n,
+            h: PLATFORM_THICKNESS,
+            newId: id,
+        });
+        if (!ledge) break;
+
+        platforms.push({
+            id,
+            type: 'platform',
+            label: 'ledge',
+            confidence: 1.0,
+            bounds_normalized: ledge,
+            surface_type: 'solid',
+            category: 'other',
+            enemy_spawn_anchor: false,
+        });
+        ledges++;
+        repairs++;
+        proof = solveReachability(draftScene());
+    }
+
+    if (!proof.reachable) {
+        const stranded = proof;
+        for (const home of [closestReached(stranded, exitSpawn), surfaceStep(stranded.reached[0])]) {
+            exitSpawn = { x: clamp(home.x, 0.05 / n, 1 - 0.05 / n), y: home.y - ENTITY_OFFSET_Y };
+            proof = solveReachability(draftScene());
+            if (proof.reachable) {
+                events.push({ level: 'warn', msg: 'stitched exit moved to a reachable surface', fields: { surface: home.id, repairs } });
+                break;
+            }
+        }
+    }
+
+    // --- Rules: first of each type wins; collect-all only if it can be done
+
+    const rules: RuleModifier[] = [];
+    for (const rule of parts.flatMap((part) => part.scene.rules)) {
+        if (!rules.some((r) => r.type === rule.type)) rules.push(rule);
+    }
+
+    const lockIdx = rules.findIndex((r) => r.type === 'collect_all_to_unlock_exit');
+    if (lockIdx >= 0) {
+        const model = createJumpModel(draftScene());
+        const stranded = pickups.filter((p) => p.type === 'coin' && !coinStack(p).every((c) => solveReachability(
+            { ...draftScene(), spawns: { player: playerSpawn, exit: c } },
+            model,
+        ).reachable));
+        if (stranded.length > 0) {
+            events.push({ level: 'info', msg: 'dropping collect_all_to_unlock_exit', fields: { coins_out_of_reach: stranded.length } });
+            rules.splice(lockIdx, 1);
+        }
+    }
+
+    // --- Decorations: still resting on a surface, clear of the new path ---
+
+    const finalDraft = draftScene();
+    const corridors = pathCorridors(finalDraft, proof);
+    const surfaces = simulatePlatforms(finalDraft);
+    const rests = (b: Bounds) => surfaces.some((s) =>
+        Math.abs(s.top - (b.y + b.h)) < REST_EPSILON && b.x < s.x + s.w && b.x + b.w > s.x);
+    const decor = others.filter((obj) => (obj.type !== 'hazard' && obj.type !== 'obstacle')
+        || (rests(obj.bounds_normalized) && !corridors.some((c) => overlaps(obj.bounds_normalized, c))));
+
+    const scene: SceneV1 = {
+        version: 1,
+        image,
+        objects: [...platforms, ...decor],
+        spawns: {
+            player: playerSpawn,
+            exit: exitSpawn,
+            enemies,
+            pickups,
+        },
+        rules,
+        segments,
     };
 
-    return scene;
+    return { scene, path: proof.path, repairs, seed, strategy: parts[0].strategy, events };
 }
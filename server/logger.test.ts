@@ -0,0 +1,95 @@
+/**
+ * LOGGER TESTS
+ * =============
+ *
+ * JSON and pretty lines, level filtering, child fields, and request ids
+ * taken from or made for a request.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createLogger,
+    makeRequestId,
+    requestIdFrom,
+    type LogConfig,
+    type LogLevel,
+} from './logger';
+
+/** A logger whose lines are collected instead of written */
+function collecting(config: LogConfig) {
+    const lines: { line: string; level: LogLevel }[] = [];
+    const logger = createLogger(config, (line, level) => lines.push({ line, level }));
+    return { logger, lines };
+}
+
+// ============================================================
+//  Lines
+// ============================================================
+
+describe('createLogger', () => {
+    it('writes a JSON object per line with the fields of the logger and the call', () => {
+        const { logger, lines } = collecting({ level: 'info', format: 'json' });
+        logger.child({ request_id: 'req_abc12345' }).info('level built', { objects: 9, skipped: undefined });
+
+        const entry = JSON.parse(lines[0].line);
+        expect(entry).toMatchObject({ level: 'info', msg: 'level built', request_id: 'req_abc12345', objects: 9 });
+        expect(entry).not.toHaveProperty('skipped');
+        expect(Number.isNaN(Date.parse(entry.time))).toBe(false);
+    });
+
+    it('writes errors with their name, message and stack', () => {
+        const { logger, lines } = collecting({ level: 'info', format: 'json' });
+        logger.error('scene pipeline failed', { err: new TypeError('boom') });
+
+        const { err } = JSON.parse(lines[0].line);
+        expect(err).toMatchObject({ name: 'TypeError', message: 'boom' });
+        expect(err.stack).toContain('boom');
+        expect(lines[0].level).toBe('error');
+    });
+
+    it('writes readable lines with the context before the message', () => {
+        const { logger, lines } = collecting({ level: 'info', format: 'pretty' });
+        logger.child({ request_id: 'req_abc12345' }).warn('rate limited', { client: 'ip:1.2.3.4', note: 'two words' });
+
+        expect(lines[0].line).toMatch(/^\[\S+\] warn request_id=req_abc12345 rate limited client=ip:1.2.3.4 note="two words"$/);
+    });
+
+    it('drops lines below its level', () => {
+        const { logger, lines } = collecting({ level: 'warn', format: 'json' });
+        logger.debug('a');
+        logger.info('b');
+        logger.warn('c');
+        logger.error('d');
+
+        expect(lines.map((l) => JSON.parse(l.line).msg)).toEqual(['c', 'd']);
+    });
+
+    it('gives children the fields of every ancestor', () => {
+        const { logger, lines } = collecting({ level: 'info', format: 'json' });
+        logger.child({ request_id: 'req_abc12345' }).child({ photo: 2 }).info('detected');
+
+        expect(JSON.parse(lines[0].line)).toMatchObject({ request_id: 'req_abc12345', photo: 2 });
+    });
+});
+
+// ============================================================
+//  Request ids
+// ============================================================
+
+describe('requestIdFrom', () => {
+    it('keeps a usable id the client sent', () => {
+        expect(requestIdFrom({ 'x-request-id': 'req_k7x2m9p4' })).toBe('req_k7x2m9p4');
+    });
+
+    it('makes an id when none was sent or the one sent is unusable', () => {
+        for (const sent of [undefined, '', 'has spaces', 'x'.repeat(65), 'line\nbreak']) {
+            expect(requestIdFrom({ 'x-request-id': sent })).toMatch(/^req_[A-Za-z0-9_-]{8}$/);
+        }
+    });
+
+    it('makes different ids', () => {
+        expect(makeRequestId()).not.toBe(makeRequestId());
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * LOGGING & REQUEST IDS
+ * ======================
+ *
+ * The server's logger: one line per event, either a JSON object (for log
+ * collectors) or a readable line (for a terminal), at a minimum level.
+ *
+ *   {"time":"2026-10-19T19:41:48.120Z","level":"info","msg":"level built","request_id":"req_k7x2m9p4","objects":9}
+ *   [2026-10-19T19:41:48.120Z] info request_id=req_k7x2m9p4 level built objects=9
+ *
+ * A request's logger is a child of the server's, carrying its id (and,
+ * within the pipeline, the photo number) on every line, and is handed down
+ * to everything that logs for the request: the pipeline and every
+ * DetectionProvider.
+ *
+ * REQUEST IDS:
+ * The id is the client's `x-request-id` when it sends a usable one, else
+ * one made here, and is echoed back in the response's `x-request-id`, so a
+ * client can quote the id the server logged under (e.g. on its error screen).
+ *
+ * Settings (serverConfig.ts):
+ *   LOG_LEVEL   debug | info | warn | error (default info)
+ *   LOG_FORMAT  json | pretty (default: pretty for Express outside production)
+ */
+
+import { randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+/** Extra fields of a log line, e.g. { objects: 9 } */
+export type LogFields = Record<string, unknown>;
+
+export interface LogConfig {
+    /** Lines below this level are dropped */
+    level: LogLevel;
+    format: LogFormat;
+}
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /** A logger whose lines also carry `fields` */
+    child(fields: LogFields): Logger;
+}
+
+/** Where lines go: stdout for debug and info, stderr for warn and error, unless given */
+export type LogWriter = (line: string, level: LogLevel) => void;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOG_FORMATS: readonly LogFormat[] = ['json', 'pretty'];
+
+/** Header carrying the request id, both ways */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/** What a client's request id may look like (the client sends "req_" + 8 characters) */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+
+// ---------------------------------------------------------------------------
+// Logger
+// ---------------------------------------------------------------------------
+
+/** A field value as it is logged; errors become their name, message and stack */
+function logValue(value: unknown): unknown {
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+    return value;
+}
+
+/** A field value in a pretty line: strings bare unless they need quotes */
+function prettyValue(value: unknown): string {
+    if (value instanceof Error) return JSON.stringify(value.message);
+    if (typeof value === 'string') return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+    return JSON.stringify(value) ?? String(value);
+}
+
+const writeStd: LogWriter = (line, level) => {
+    if (level === 'warn' || level === 'error') {
+        process.stderr.write(`${line}\n`);
+    } else {
+        process.stdout.write(`${line}\n`);
+    }
+};
+
+export function createLogger(config: LogConfig, write: LogWriter = writeStd, context: LogFields = {}): Logger {
+    const minimum = LOG_LEVELS.indexOf(config.level);
+
+    const log = (level: LogLevel, message: string, fields: LogFields = {}) => {
+        if (LOG_LEVELS.indexOf(level) < minimum) return;
+        const time = new Date().toISOString();
+        const all = { ...context, ...fields };
+
+        if (config.format === 'json') {
+            const entry: LogFields = { time, level, msg: message };
+            for (const [name, value] of Object.entries(all)) {
+                if (value !== undefined) entry[name] = logValue(value);
+            }
+            write(JSON.stringify(entry), level);
+            return;
+        }
+
+        const pairs = (entries: [string, unknown][]) => entries
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => `${name}=${prettyValue(value)}`);
+        write([
+            `[${time}] ${level}`,
+            ...pairs(Object.entries(context)),
+            message,
+            ...pairs(Object.entries(fields)),
+        ].join(' '), level);
+    };
+
+    return {
+        debug: (message, fields) => log('debug', message, fields),
+        info: (message, fields) => log('info', message, fields),
+        warn: (message, fields) => log('warn', message, fields),
+        error: (message, fields) => log('error', message, fields),
+        child: (fields) => createLogger(config, write, { ...context, ...fields }),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/** A new request id, like the client's: "req_" + 8 characters */
+export function makeRequestId(): string {
+    return `req_${randomBytes(6).toString('base64url').substring(0, 8)}`;
+}
+
+/** The client's request id when it is usable, else a new one */
+export function requestIdFrom(headers: IncomingMessage['headers']): string {
+    const sent = headers[REQUEST_ID_HEADER];
+    return typeof sent === 'string' && REQUEST_ID_PATTERN.test(sent) ? sent : makeRequestId();
+}
+
+/**
+ * Start logging a request: settle its id, echo it in the response header,
+ * and log the answer's status and duration once it is sent (or the client
+ * has gone). Returns the request's logger.
+ */
+export function startRequestLog(logger: Logger, req: IncomingMessage, res: ServerResponse, route: string): Logger {
+    const requestId = requestIdFrom(req.headers);
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    const log = logger.child({ request_id: requestId });
+    const started = Date.now();
+
+    log.info('request started', { method: req.method, route });
+    res.once('close', () => {
+        const fields = { route, status: res.statusCode, duration_ms: Date.now() - started };
+        if (res.writableFinished) {
+            log.info('request finished', fields);
+        } else {
+            log.warn('request closed early', fields);
+        }
+    });
+    return log;
+}
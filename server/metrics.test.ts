@@ -0,0 +1,83 @@
+/**
+ * METRICS TESTS
+ * ==============
+ *
+ * Counting answers, failures, cache lookups and AI usage, and the
+ * Prometheus text they render to.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSceneMetrics } from './metrics';
+import type { DetectionUsage } from '../src/shared/types/Detection';
+
+const usage = (overrides: Partial<DetectionUsage> = {}): DetectionUsage => ({
+    model: 'openai:gpt-4o',
+    prompt_tokens: 1200,
+    completion_tokens: 300,
+    total_tokens: 1500,
+    latency_ms: 2500,
+    retries: 0,
+    ...overrides,
+});
+
+// ============================================================
+//  Counting
+// ============================================================
+
+describe('createSceneMetrics', () => {
+    it('counts answers per route and failures by error code', () => {
+        const metrics = createSceneMetrics();
+        metrics.request('scene', 200, {});
+        metrics.request('scene', 429, { error: 'Too many uploads', code: 'RATE_LIMITED' });
+        metrics.request('jobs', 202, {});
+        metrics.failure('jobs', { error: 'AI processing failed', code: 'AI_FAILED' });
+        metrics.request('rebuild', 500, { error: 'Oops' });
+
+        const text = metrics.render();
+        expect(text).toContain('scene_requests_total{route="scene"} 2');
+        expect(text).toContain('scene_requests_total{route="jobs"} 1');
+        expect(text).toContain('scene_failures_total{route="scene",code="RATE_LIMITED"} 1');
+        expect(text).toContain('scene_failures_total{route="jobs",code="AI_FAILED"} 1');
+        expect(text).toContain('scene_failures_total{route="rebuild",code="UNKNOWN"} 1');
+    });
+
+    it('adds up cache lookups, tokens, time, retries and cost per model', () => {
+        const metrics = createSceneMetrics();
+        metrics.photos([
+            { usage: usage({ retries: 1, cost_usd: 0.006 }), cache: { hit: false, key: 'a' } },
+            { usage: usage({ cost_usd: 0.006 }), cache: { hit: false, key: 'b' } },
+        ]);
+        metrics.photos([{ cache: { hit: true, key: 'a' } }]);
+
+        const text = metrics.render();
+        expect(text).toContain('detection_cache_lookups_total{result="miss"} 2');
+        expect(text).toContain('detection_cache_lookups_total{result="hit"} 1');
+        expect(text).toContain('ai_calls_total{model="openai:gpt-4o"} 2');
+        expect(text).toContain('ai_retries_total{model="openai:gpt-4o"} 1');
+        expect(text).toContain('ai_tokens_total{model="openai:gpt-4o",kind="prompt"} 2400');
+        expect(text).toContain('ai_tokens_total{model="openai:gpt-4o",kind="completion"} 600');
+        expect(text).toContain('ai_latency_seconds_total{model="openai:gpt-4o"} 5');
+        expect(text).toContain('ai_cost_usd_total{model="openai:gpt-4o"} 0.012');
+    });
+});
+
+// ============================================================
+//  Rendering
+// ============================================================
+
+describe('render', () => {
+    it('describes every counter, even before anything is counted', () => {
+        const text = createSceneMetrics().render();
+        expect(text).toContain('# HELP scene_requests_total Scene requests answered, by route\n# TYPE scene_requests_total counter\n');
+        expect(text.match(/^# TYPE /gm)).toHaveLength(8);
+        expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('escapes label values', () => {
+        const metrics = createSceneMetrics();
+        metrics.photos([{ usage: usage({ model: 'compatible:my "model"\\v2' }) }]);
+        expect(metrics.render()).toContain('ai_calls_total{model="compatible:my \\"model\\"\\\\v2"} 1');
+    });
+});
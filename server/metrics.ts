@@ -0,0 +1,131 @@
+/**
+ * METRICS
+ * ========
+ *
+ * In-process counters for the scene routes, served by the Express server
+ * as GET /api/metrics in the Prometheus text format:
+ *
+ *   scene_requests_total{route}              answers, per route (scene, jobs, rebuild)
+ *   scene_failures_total{route,code}         error answers and failed jobs, by error code
+ *   detection_cache_lookups_total{result}    hit | miss
+ *   ai_calls_total{model}                    photos the model looked at
+ *   ai_retries_total{model}                  repair requests
+ *   ai_tokens_total{model,kind}              prompt | completion tokens
+ *   ai_latency_seconds_total{model}          time spent waiting on the model
+ *   ai_cost_usd_total{model}                 estimated cost (with DETECTION_PRICE_PER_MTOK)
+ *
+ * Counters start at zero with the process. The Vercel functions keep no
+ * registry: their instances are many and short-lived, so they report each
+ * request's usage in its Server-Timing header and logs instead.
+ */
+
+import type { PhotoAccounting } from './scenePipeline';
+import { isApiErrorCode } from '../src/shared/types/ApiError';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The routes requests are counted for */
+export type SceneRoute = 'scene' | 'jobs' | 'rebuild';
+
+type MetricName = keyof typeof METRICS;
+
+type Labels = Record<string, string>;
+
+export interface SceneMetrics {
+    /** Count one answer of `route`, and its error code when it failed */
+    request(route: SceneRoute, status: number, body: unknown): void;
+    /** Count a failure that isn't an answer (a failed background job) */
+    failure(route: SceneRoute, body: unknown): void;
+    /** Count cache lookups and AI usage of one upload's photos */
+    photos(photos: PhotoAccounting[]): void;
+    /** Every counter, in the Prometheus text format */
+    render(): string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Content-Type of the Prometheus text format */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Every counter and its help text, in the order they are rendered */
+const METRICS = {
+    scene_requests_total: 'Scene requests answered, by route',
+    scene_failures_total: 'Scene requests and jobs that failed, by route and error code',
+    detection_cache_lookups_total: 'Detection cache lookups, by result',
+    ai_calls_total: 'Photos sent to the AI provider, by model',
+    ai_retries_total: 'Repair requests sent to the AI provider, by model',
+    ai_tokens_total: 'AI tokens used, by model and kind',
+    ai_latency_seconds_total: 'Time spent waiting on the AI provider, by model',
+    ai_cost_usd_total: 'Estimated AI cost in USD, by model',
+} as const;
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** A label value with the Prometheus escapes */
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function seriesKey(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** The error code of an answer body, for the failure counter */
+function failureCode(body: unknown): string {
+    const code = (body as { code?: unknown } | undefined)?.code;
+    return isApiErrorCode(code) ? code : 'UNKNOWN';
+}
+
+export function createSceneMetrics(): SceneMetrics {
+    const series = new Map<MetricName, Map<string, number>>();
+
+    const inc = (name: MetricName, labels: Labels, by = 1) => {
+        if (by === 0) return;
+        const values = series.get(name) ?? new Map<string, number>();
+        const key = seriesKey(labels);
+        values.set(key, (values.get(key) ?? 0) + by);
+        series.set(name, values);
+    };
+
+    const metrics: SceneMetrics = {
+        request(route, status, body) {
+            inc('scene_requests_total', { route });
+            if (status >= 400) metrics.failure(route, body);
+        },
+
+        failure(route, body) {
+            inc('scene_failures_total', { route, code: failureCode(body) });
+        },
+
+        photos(photos) {
+            for (const { usage, cache } of photos) {
+                if (cache) inc('detection_cache_lookups_total', { result: cache.hit ? 'hit' : 'miss' });
+                if (!usage) continue;
+                const model = { model: usage.model };
+                inc('ai_calls_total', model);
+                inc('ai_retries_total', model, usage.retries);
+                inc('ai_tokens_total', { ...model, kind: 'prompt' }, usage.prompt_tokens);
+                inc('ai_tokens_total', { ...model, kind: 'completion' }, usage.completion_tokens);
+                inc('ai_latency_seconds_total', model, usage.latency_ms / 1000);
+                if (usage.cost_usd !== undefined) inc('ai_cost_usd_total', model, usage.cost_usd);
+            }
+        },
+
+        render() {
+            const lines: string[] = [];
+            for (const [name, help] of Object.entries(METRICS) as [MetricName, string][]) {
+                lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+                for (const [key, value] of series.get(name) ?? []) lines.push(`${name}${key} ${value}`);
+            }
+            return `${lines.join('\n')}\n`;
+        },
+    };
+    return metrics;
+}
@@ -0,0 +1,129 @@
+/**
+ * MULTIPART UPLOAD TESTS
+ * =======================
+ *
+ * The streaming parser on bodies encoded by the platform's FormData, cut
+ * into small chunks so boundaries fall across them, and the upload rules
+ * (limits, declared types, magic bytes).
+ *
+ * Run: npm test
+ */
+
+import { Readable } from 'stream';
+import { describe, it, expect } from 'vitest';
+import {
+    readMultipartUpload,
+    sniffImageType,
+    type UploadLimits,
+} from './multipartUpload';
+
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(200, 7)]);
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(50, 1)]);
+const WEBP = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 '), Buffer.alloc(20)]);
+
+const LIMITS: UploadLimits = { fileSize: 1024, files: 4, fields: 10, fieldSize: 64 };
+
+/** A FormData body as a request stream, `chunkSize` bytes at a time */
+async function encode(form: FormData, chunkSize = 7): Promise<{ stream: Readable; contentType: string }> {
+    const response = new Response(form);
+    const body = Buffer.from(await response.arrayBuffer());
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < body.length; i += chunkSize) chunks.push(body.subarray(i, i + chunkSize));
+    return { stream: Readable.from(chunks), contentType: response.headers.get('Content-Type')! };
+}
+
+function photo(bytes: Buffer, type = 'image/jpeg') {
+    return new Blob([new Uint8Array(bytes)], { type });
+}
+
+// ============================================================
+//  Parsing
+// ============================================================
+
+describe('readMultipartUpload', () => {
+    it('reads photos in order and text fields, across chunk boundaries', async () => {
+        const form = new FormData();
+        form.append('image', photo(JPEG), '1-photo.jpg');
+        form.append('difficulty', '{"maxStep":0.1}');
+        form.append('image', photo(PNG, 'image/png'), '2-photo.png');
+        form.append('seed', '42');
+        form.append('locale', 'de-DE');
+
+        const { stream, contentType } = await encode(form);
+        const upload = await readMultipartUpload(stream, contentType, LIMITS);
+
+        expect(upload.ok).toBe(true);
+        if (!upload.ok) return;
+        expect(upload.value.images.map((i) => i.mimetype)).toEqual(['image/jpeg', 'image/png']);
+        expect(upload.value.images[0].buffer.equals(JPEG)).toBe(true);
+        expect(upload.value.images[1].buffer.equals(PNG)).toBe(true);
+        expect(upload.value.fields).toEqual({ difficulty: '{"maxStep":0.1}', seed: '42', locale: 'de-DE' });
+    });
+
+    it('has no photos for a body that is not multipart', async () => {
+        const upload = await readMultipartUpload(Readable.from([Buffer.from('{}')]), 'application/json', LIMITS);
+        expect(upload).toEqual({ ok: true, value: { images: [], fields: {} } });
+    });
+
+    it('rejects a photo over the size limit with a 413', async () => {
+        const form = new FormData();
+        form.append('image', photo(Buffer.concat([JPEG, Buffer.alloc(2000)])), 'big.jpg');
+
+        const { stream, contentType } = await encode(form, 256);
+        expect(await readMultipartUpload(stream, contentType, LIMITS)).toMatchObject({
+            ok: false,
+            status: 413,
+            body: { code: 'UPLOAD_TOO_LARGE' },
+        });
+    });
+
+    it('rejects declared and actual types that are not JPEG, PNG or WebP with a 415', async () => {
+        const declared = new FormData();
+        declared.append('image', photo(JPEG, 'image/gif'), 'photo.gif');
+        const disguised = new FormData();
+        disguised.append('image', photo(Buffer.from('GIF89a, honest'), 'image/jpeg'), 'photo.jpg');
+
+        for (const form of [declared, disguised]) {
+            const { stream, contentType } = await encode(form);
+            expect(await readMultipartUpload(stream, contentType, LIMITS)).toMatchObject({
+                ok: false,
+                status: 415,
+                body: { code: 'UNSUPPORTED_MEDIA_TYPE' },
+            });
+        }
+    });
+
+    it('rejects too many photos and fields, and long fields', async () => {
+        const photos = new FormData();
+        for (let i = 0; i < 5; i++) photos.append('image', photo(JPEG), `${i}.jpg`);
+        const long = new FormData();
+        long.append('difficulty', 'x'.repeat(100));
+        const other = new FormData();
+        other.append('avatar', photo(JPEG), 'me.jpg');
+
+        const outcomes = await Promise.all([photos, long, other].map(async (form) => {
+            const { stream, contentType } = await encode(form);
+            return readMultipartUpload(stream, contentType, LIMITS);
+        }));
+        expect(outcomes.map((o) => !o.ok && o.body.code)).toEqual(['TOO_MANY_IMAGES', 'INVALID_REQUEST', 'INVALID_REQUEST']);
+    });
+
+    it('rejects a body that ends early', async () => {
+        const form = new FormData();
+        form.append('image', photo(JPEG), 'photo.jpg');
+        const response = new Response(form);
+        const body = Buffer.from(await response.arrayBuffer());
+
+        const upload = await readMultipartUpload(Readable.from([body.subarray(0, 150)]), response.headers.get('Content-Type')!, LIMITS);
+        expect(upload).toMatchObject({ ok: false, status: 400, body: { error: 'Malformed multipart body' } });
+    });
+});
+
+describe('sniffImageType', () => {
+    it('knows JPEG, PNG and WebP by their bytes', () => {
+        expect(sniffImageType(JPEG)).toBe('image/jpeg');
+        expect(sniffImageType(PNG)).toBe('image/png');
+        expect(sniffImageType(WEBP)).toBe('image/webp');
+        expect(sniffImageType(Buffer.from('<svg/>'))).toBeUndefined();
+    });
+});
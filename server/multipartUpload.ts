@@ -0,0 +1,325 @@
+/**
+ * MULTIPART UPLOADS
+ * ==================
+ *
+ * The photo upload rules both entrypoints enforce, and the streaming
+ * multipart/form-data parser the Vercel functions (/api/scene,
+ * /api/scene/jobs) read uploads with. Express reads them with multer,
+ * configured from the same UploadLimits, and checks the photos with
+ * sniffImageType() afterwards, so both answer alike:
+ *
+ *   413 UPLOAD_TOO_LARGE        a photo over `fileSize`
+ *   415 UNSUPPORTED_MEDIA_TYPE  a declared type outside IMAGE_TYPES, or
+ *                               bytes that aren't JPEG, PNG or WebP
+ *                               (whatever the declared type)
+ *   400 TOO_MANY_IMAGES         more than `files` photos
+ *   400 INVALID_REQUEST         too many or too long text fields, a file
+ *                               in a field other than "image", a broken body
+ *
+ * The parser works on the request stream as it arrives: only the photos
+ * and text fields are kept, and it stops at the first broken rule instead
+ * of reading a too-large body first. The rest of the body is drained.
+ * Zero external dependencies (no busboy / formidable, which don't bundle
+ * cleanly into the Vercel functions).
+ *
+ * A request that isn't multipart/form-data has no photos, like with multer.
+ */
+
+import type { Readable } from 'stream';
+import { apiError } from './apiErrors';
+import { MAX_SEGMENTS } from './levelBuilder';
+import { formatUploadLimit, type ServerConfig } from './serverConfig';
+import type { ApiErrorBody } from '../src/shared/types/ApiError';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UploadLimits {
+    /** Largest photo (bytes) */
+    fileSize: number;
+    /** Most photos */
+    files: number;
+    /** Most text fields */
+    fields: number;
+    /** Longest text field (bytes) */
+    fieldSize: number;
+}
+
+/** One uploaded photo; `mimetype` is the type its bytes show */
+export interface UploadedImage {
+    buffer: Buffer;
+    mimetype: ImageType;
+}
+
+export interface MultipartUpload {
+    /** The "image" parts, in order */
+    images: UploadedImage[];
+    /** Text fields, e.g. "strategy", "difficulty", "seed", "locale" */
+    fields: Record<string, string>;
+}
+
+export type UploadFailure = { ok: false; status: number; body: ApiErrorBody };
+
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Photo types accepted, declared and actual */
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+/** Most text fields per upload */
+const MAX_FIELDS = 10;
+
+/** Longest text field (a custom difficulty profile is the longest expected) */
+const MAX_FIELD_BYTES = 16 * 1024;
+
+/** Longest part header block */
+const MAX_HEADER_BYTES = 8 * 1024;
+
+/** The file field photos are sent in */
+const IMAGE_FIELD = 'image';
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/** The upload limits for `config` */
+export function uploadLimits(config: Pick<ServerConfig, 'uploadMaxBytes'>): UploadLimits {
+    return { fileSize: config.uploadMaxBytes, files: MAX_SEGMENTS, fields: MAX_FIELDS, fieldSize: MAX_FIELD_BYTES };
+}
+
+/** The type a photo's first bytes show, if it is one of IMAGE_TYPES */
+export function sniffImageType(buffer: Buffer): ImageType | undefined {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    return undefined;
+}
+
+/** Whether a declared Content-Type is one of IMAGE_TYPES */
+export function isImageType(mimetype: string): mimetype is ImageType {
+    return (IMAGE_TYPES as readonly string[]).includes(mimetype.split(';')[0].trim().toLowerCase());
+}
+
+/** The answers for broken upload rules, shared with the Express error middleware */
+export const uploadFailures = {
+    tooLarge: (limits: UploadLimits): UploadFailure => ({
+        ok: false,
+        status: 413,
+        body: apiError('UPLOAD_TOO_LARGE', `File too large. Maximum size is ${formatUploadLimit({ uploadMaxBytes: limits.fileSize })}.`),
+    }),
+    tooMany: (limits: UploadLimits): UploadFailure => ({
+        ok: false,
+        status: 400,
+        body: apiError('TOO_MANY_IMAGES', `Too many images. Send at most ${limits.files}.`),
+    }),
+    notAnImage: (): UploadFailure => ({
+        ok: false,
+        status: 415,
+        body: apiError('UNSUPPORTED_MEDIA_TYPE', 'Only JPEG, PNG and WebP images are allowed'),
+    }),
+    invalid: (message: string): UploadFailure => ({
+        ok: false,
+        status: 400,
+        body: apiError('INVALID_REQUEST', message),
+    }),
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** The boundary of a multipart/form-data Content-Type; undefined for other types, '' when missing */
+function multipartBoundary(contentType: string | undefined): string | undefined {
+    if (!contentType || !/^multipart\/form-data\b/i.test(contentType.trim())) return undefined;
+    const match = contentType.match(/boundary=(?:"([^"]+)"|([^\s;]+))/i);
+    return match ? match[1] || match[2] : '';
+}
+
+/** Name, filename and Content-Type of a part */
+function parsePartHeaders(block: string): { name?: string; filename?: string; type?: string } {
+    const parsed: { name?: string; filename?: string; type?: string } = {};
+    for (const line of block.split('\r\n')) {
+        const colon = line.indexOf(':');
+        if (colon < 0) continue;
+        const header = line.slice(0, colon).trim().toLowerCase();
+        const value = line.slice(colon + 1).trim();
+        if (header === 'content-disposition') {
+            parsed.name = value.match(/(?:^|;)\s*name="([^"]*)"/i)?.[1];
+            parsed.filename = value.match(/(?:^|;)\s*filename="([^"]*)"/i)?.[1];
+        } else if (header === 'content-type') {
+            parsed.type = value;
+        }
+    }
+    return parsed;
+}
+
+/**
+ * Read a multipart/form-data upload from `stream` (a request), enforcing
+ * `limits` as it arrives. See the header for the rules and answers.
+ */
+export function readMultipartUpload(
+    stream: Readable,
+    contentType: string | undefined,
+    limits: UploadLimits,
+): Promise<{ ok: true; value: MultipartUpload } | UploadFailure> {
+    const upload: MultipartUpload = { images: [], fields: {} };
+    const boundary = multipartBoundary(contentType);
+    if (boundary === undefined) {
+        stream.resume();
+        return Promise.resolve({ ok: true, value: upload });
+    }
+    if (!boundary) {
+        stream.resume();
+        return Promise.resolve(uploadFailures.invalid('No multipart boundary found'));
+    }
+
+    // Every boundary follows a line break; one is added in front so the first does too
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    let buffer: Buffer = CRLF;
+    let state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' = 'preamble';
+    let part: { name: string; file: boolean; chunks: Buffer[]; size: number } | undefined;
+    let fieldCount = 0;
+
+    /** Add body bytes to the current part */
+    const append = (bytes: Buffer): UploadFailure | undefined => {
+        if (!part || bytes.length === 0) return undefined;
+        part.size += bytes.length;
+        if (part.file && part.size > limits.fileSize) return uploadFailures.tooLarge(limits);
+        if (!part.file && part.size > limits.fieldSize) return uploadFailures.invalid('Field value too long');
+        part.chunks.push(bytes);
+        return undefined;
+    };
+
+    /** Start a part from its header block */
+    const open = (block: string): UploadFailure | undefined => {
+        const { name, filename, type } = parsePartHeaders(block);
+        if (name === undefined) return uploadFailures.invalid('Multipart part without a name');
+
+        if (filename === undefined && name !== IMAGE_FIELD) {
+            if (++fieldCount > limits.fields) return uploadFailures.invalid('Too many fields');
+            part = { name, file: false, chunks: [], size: 0 };
+            return undefined;
+        }
+        if (name !== IMAGE_FIELD) return uploadFailures.invalid(`Unexpected file field "${name}"`);
+        if (upload.images.length >= limits.files) return uploadFailures.tooMany(limits);
+        if (!type || !isImageType(type)) return uploadFailures.notAnImage();
+        part = { name, file: true, chunks: [], size: 0 };
+        return undefined;
+    };
+
+    /** Finish the current part */
+    const close = (): UploadFailure | undefined => {
+        if (!part) return undefined;
+        const content = Buffer.concat(part.chunks);
+        if (part.file) {
+            const mimetype = sniffImageType(content);
+            if (!mimetype) return uploadFailures.notAnImage();
+            upload.images.push({ buffer: content, mimetype });
+        } else {
+            upload.fields[part.name] = content.toString('utf8');
+        }
+        part = undefined;
+        return undefined;
+    };
+
+    /** Consume as much of `buffer` as possible */
+    const advance = (): UploadFailure | undefined => {
+        for (;;) {
+            switch (state) {
+                case 'preamble': {
+                    const at = buffer.indexOf(delimiter);
+                    if (at < 0) {
+                        buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+                        return undefined;
+                    }
+                    buffer = buffer.subarray(at + delimiter.length);
+                    state = 'boundary';
+                    break;
+                }
+                case 'boundary': {
+                    if (buffer.length < 2) return undefined;
+                    if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+                        state = 'done';
+                        return undefined;
+                    }
+                    if (!buffer.subarray(0, 2).equals(CRLF)) return uploadFailures.invalid('Malformed multipart body');
+                    buffer = buffer.subarray(2);
+                    state = 'headers';
+                    break;
+                }
+                case 'headers': {
+                    const at = buffer.indexOf(HEADER_END);
+                    if (at < 0) {
+                        return buffer.length > MAX_HEADER_BYTES ? uploadFailures.invalid('Multipart headers too long') : undefined;
+                    }
+                    const failure = open(buffer.toString('utf8', 0, at));
+                    if (failure) return failure;
+                    buffer = buffer.subarray(at + HEADER_END.length);
+                    state = 'body';
+                    break;
+                }
+                case 'body': {
+                    const at = buffer.indexOf(delimiter);
+                    if (at < 0) {
+                        // Keep what could be the start of a delimiter
+                        const safe = buffer.length - delimiter.length + 1;
+                        if (safe > 0) {
+                            const failure = append(buffer.subarray(0, safe));
+                            buffer = buffer.subarray(safe);
+                            return failure;
+                        }
+                        return undefined;
+                    }
+                    const failure = append(buffer.subarray(0, at)) ?? close();
+                    if (failure) return failure;
+                    buffer = buffer.subarray(at + delimiter.length);
+                    state = 'boundary';
+                    break;
+                }
+                case 'done':
+                    return undefined;
+            }
+        }
+    };
+
+    return new Promise((resolve) => {
+        const finish = (outcome: { ok: true; value: MultipartUpload } | UploadFailure) => {
+            stream.off('data', onData);
+            stream.off('end', onEnd);
+            stream.off('error', onError);
+            // Drain what is left, so the answer can still be sent
+            stream.on('error', () => {});
+            stream.resume();
+            resolve(outcome);
+        };
+        const onData = (chunk: Buffer) => {
+            if (state === 'done') return;
+            buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+            const failure = advance();
+            if (failure) finish(failure);
+        };
+        const onEnd = () => {
+            finish(state === 'done' ? { ok: true, value: upload } : uploadFailures.invalid('Malformed multipart body'));
+        };
+        const onError = (err: Error) => {
+            finish(uploadFailures.invalid(`Upload interrupted: ${err.message}`));
+        };
+
+        stream.on('data', onData);
+        stream.on('end', onEnd);
+        stream.on('error', onError);
+    });
+}
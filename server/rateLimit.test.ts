@@ -0,0 +1,162 @@
+/**
+ * RATE LIMIT TESTS
+ * =================
+ *
+ * The per-client token bucket, client identification, the AI concurrency
+ * gate, and configuration from the environment.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    clientKey,
+    createConcurrencyGate,
+    createRateLimitConfig,
+    createRateLimiter,
+    upstreamRetryAfter,
+    withConcurrencyLimit,
+} from './rateLimit';
+import type { DetectionOutcome, DetectionProvider } from './detectionProviders';
+import { createLogger } from './logger';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+const image = { buffer: Buffer.from('photo'), mimetype: 'image/jpeg' };
+
+const answer: DetectionOutcome = {
+    ok: true,
+    detections: { image: { w: 800, h: 600 }, detections: [] },
+    cleaned: '{}',
+    validation: { attempts: 1, structured_output: false, rejected: [], salvaged: [] },
+};
+
+// ============================================================
+//  Token bucket
+// ============================================================
+
+describe('createRateLimiter', () => {
+    it('allows a burst, then one upload per refill interval', () => {
+        const limiter = createRateLimiter({ burst: 2, perMinute: 6 });
+        expect(limiter.take('ip:a', 0)).toEqual({ ok: true });
+        expect(limiter.take('ip:a', 0)).toEqual({ ok: true });
+        expect(limiter.take('ip:a', 0)).toEqual({ ok: false, retryAfterSeconds: 10 });
+
+        expect(limiter.take('ip:a', 4_000)).toEqual({ ok: false, retryAfterSeconds: 6 });
+        expect(limiter.take('ip:a', 10_000)).toEqual({ ok: true });
+    });
+
+    it('keeps a bucket per client', () => {
+        const limiter = createRateLimiter({ burst: 1, perMinute: 1 });
+        expect(limiter.take('ip:a', 0).ok).toBe(true);
+        expect(limiter.take('ip:a', 0).ok).toBe(false);
+        expect(limiter.take('ip:b', 0).ok).toBe(true);
+    });
+});
+
+describe('clientKey', () => {
+    const config = { apiKeys: new Set(['team-key']) };
+
+    it('prefers a recognised API key over the IP', () => {
+        expect(clientKey(config, 'team-key', '10.0.0.1')).toBe('key:team-key');
+        expect(clientKey(config, 'made-up', '10.0.0.1')).toBe('ip:10.0.0.1');
+    });
+
+    it('takes the first x-forwarded-for entry when given', () => {
+        expect(clientKey(config, undefined, '10.0.0.1', '203.0.113.7, 10.0.0.1')).toBe('ip:203.0.113.7');
+        expect(clientKey(config, undefined, undefined)).toBe('ip:unknown');
+    });
+});
+
+// ============================================================
+//  Concurrency gate
+// ============================================================
+
+describe('createConcurrencyGate', () => {
+    it('queues callers past the cap and hands released slots on', async () => {
+        const gate = createConcurrencyGate({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 1_000 });
+        const first = await gate.acquire();
+        const second = gate.acquire();
+        expect(gate.queued).toBe(1);
+
+        expect(await gate.acquire()).toEqual({ ok: false, retryAfterSeconds: 5 });
+
+        if (first.ok) first.release();
+        const granted = await second;
+        expect(granted.ok).toBe(true);
+        expect(gate.active).toBe(1);
+
+        if (granted.ok) {
+            granted.release();
+            granted.release(); // releasing twice frees one slot only
+        }
+        expect(gate.active).toBe(0);
+    });
+
+    it('drops a queued caller whose request was aborted', async () => {
+        const gate = createConcurrencyGate({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 1_000 });
+        await gate.acquire();
+        const client = new AbortController();
+        const waiting = gate.acquire(client.signal);
+        expect(gate.queued).toBe(1);
+
+        client.abort();
+        expect(await waiting).toMatchObject({ ok: false });
+        expect(gate.queued).toBe(0);
+    });
+
+    it('gives up on a queued caller after the timeout', async () => {
+        const gate = createConcurrencyGate({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 10 });
+        await gate.acquire();
+        expect(await gate.acquire()).toEqual({ ok: false, retryAfterSeconds: 5 });
+        expect(gate.queued).toBe(0);
+    });
+});
+
+describe('withConcurrencyLimit', () => {
+    it('answers 503 with Retry-After when the queue is full', async () => {
+        const gate = createConcurrencyGate({ maxConcurrent: 1, maxQueue: 0, queueTimeoutMs: 0 });
+        let finish: () => void = () => {};
+        const slow: DetectionProvider = {
+            name: 'slow',
+            detect: () => new Promise((resolve) => { finish = () => resolve(answer); }),
+        };
+        const provider = withConcurrencyLimit(slow, gate);
+
+        const running = provider.detect(image, log);
+        expect(await provider.detect(image, log)).toMatchObject({ ok: false, status: 503, retryAfterSeconds: 5 });
+
+        finish();
+        expect(await running).toEqual(answer);
+        expect(gate.active).toBe(0);
+    });
+});
+
+describe('upstreamRetryAfter', () => {
+    it('reads the provider error headers', () => {
+        expect(upstreamRetryAfter({ headers: new Headers({ 'retry-after': '2.5' }) })).toBe(3);
+        expect(upstreamRetryAfter({ headers: { 'retry-after': '7' } })).toBe(7);
+        expect(upstreamRetryAfter({ headers: {} })).toBeUndefined();
+        expect(upstreamRetryAfter(new Error('boom'))).toBeUndefined();
+    });
+});
+
+// ============================================================
+//  Configuration
+// ============================================================
+
+describe('createRateLimitConfig', () => {
+    it('uses the defaults and reads overrides', () => {
+        const made = createRateLimitConfig({ RATE_LIMIT_BURST: '2', RATE_LIMIT_API_KEYS: 'a, b,' });
+        expect(made.ok && made.value).toMatchObject({ burst: 2, perMinute: 10, maxConcurrent: 4, maxQueue: 8 });
+        expect(made.ok && [...made.value.apiKeys]).toEqual(['a', 'b']);
+    });
+
+    it('rejects bad numbers', () => {
+        expect(createRateLimitConfig({ AI_MAX_CONCURRENT: '0' })).toEqual({
+            ok: false,
+            error: 'AI_MAX_CONCURRENT must be an integer of at least 1',
+        });
+        expect(createRateLimitConfig({ RATE_LIMIT_PER_MINUTE: 'lots' }).ok).toBe(false);
+    });
+});
@@ -0,0 +1,280 @@
+/**
+ * RATE LIMITING & AI CONCURRENCY
+ * ===============================
+ *
+ * Every /api/scene upload costs paid AI calls, so two guards sit in front
+ * of them:
+ *
+ *   Token bucket per client → each upload takes one token; a client may
+ *       burst RATE_LIMIT_BURST uploads, then gets RATE_LIMIT_PER_MINUTE.
+ *       Clients are told apart by IP, or by API key when they send one of
+ *       RATE_LIMIT_API_KEYS in `x-api-key` (so a shared IP doesn't share
+ *       a budget). Over the limit → 429.
+ *
+ *   Concurrency gate → at most AI_MAX_CONCURRENT detection calls run at
+ *       once; up to AI_MAX_QUEUE more wait (at most AI_QUEUE_TIMEOUT_MS)
+ *       for a slot. A full queue or a timed-out wait → 503. Cache hits
+ *       never reach the gate.
+ *
+ * Both rejections carry a Retry-After (seconds) header and `retry_after`
+ * in the body, which the client turns into a countdown.
+ *
+ * State is in-process: per server for Express, per warm instance on Vercel.
+ */
+
+import { apiError } from './apiErrors';
+import type { DetectionProvider } from './detectionProviders';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RateLimitConfig {
+    /** Tokens a client starts with (uploads in a burst) */
+    burst: number;
+    /** Tokens regained per minute */
+    perMinute: number;
+    /** API keys that get a bucket of their own instead of their IP's */
+    apiKeys: ReadonlySet<string>;
+    /** Detection calls allowed to run at once */
+    maxConcurrent: number;
+    /** Detection calls allowed to wait for a slot */
+    maxQueue: number;
+    /** Longest a queued call waits for a slot (ms) */
+    queueTimeoutMs: number;
+}
+
+/** Result of asking for a token or a slot: go ahead, or retry after a while */
+export type Admission = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+    /** Take one token from `client`'s bucket. */
+    take(client: string, now?: number): Admission;
+}
+
+export interface ConcurrencyGate {
+    /** Wait for a slot (giving up if `signal` aborts). Call `release` when done. */
+    acquire(signal?: AbortSignal): Promise<{ ok: true; release: () => void } | { ok: false; retryAfterSeconds: number }>;
+    /** Calls running / waiting right now */
+    readonly active: number;
+    readonly queued: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_RATE_LIMIT: Omit<RateLimitConfig, 'apiKeys'> = {
+    burst: 5,
+    perMinute: 10,
+    maxConcurrent: 4,
+    maxQueue: 8,
+    queueTimeoutMs: 30_000,
+};
+
+/** Buckets kept before idle (full) ones are pruned */
+const MAX_BUCKETS = 10_000;
+
+/** Retry-After suggested when the AI queue is full (s) */
+const BUSY_RETRY_SECONDS = 5;
+
+// ---------------------------------------------------------------------------
+// Token bucket
+// ---------------------------------------------------------------------------
+
+export function createRateLimiter(config: Pick<RateLimitConfig, 'burst' | 'perMinute'>): RateLimiter {
+    const { burst, perMinute } = config;
+    const refillPerMs = perMinute / 60_000;
+    const buckets = new Map<string, { tokens: number; updated: number }>();
+
+    const refill = (bucket: { tokens: number; updated: number }, now: number) => {
+        bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updated) * refillPerMs);
+        bucket.updated = now;
+    };
+
+    return {
+        take(client, now = Date.now()) {
+            let bucket = buckets.get(client);
+            if (!bucket) {
+                if (buckets.size >= MAX_BUCKETS) {
+                    // Forget clients whose buckets have refilled: they start full anyway
+                    for (const [key, b] of buckets) {
+                        refill(b, now);
+                        if (b.tokens >= burst) buckets.delete(key);
+                    }
+                }
+                bucket = { tokens: burst, updated: now };
+                buckets.set(client, bucket);
+            }
+
+            refill(bucket, now);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return { ok: true };
+            }
+            return { ok: false, retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000)) };
+        },
+    };
+}
+
+/**
+ * Who is asking: `key:<api key>` for a recognised API key, else `ip:<ip>`.
+ * `forwardedFor` is the x-forwarded-for header (first entry is the client);
+ * pass it only when a trusted proxy sets it, since clients can forge it.
+ */
+export function clientKey(
+    config: Pick<RateLimitConfig, 'apiKeys'>,
+    apiKey: string | string[] | undefined,
+    ip: string | undefined,
+    forwardedFor?: string | string[],
+): string {
+    const key = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+    if (key && config.apiKeys.has(key)) return `key:${key}`;
+
+    const forwarded = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0]?.trim();
+    return `ip:${forwarded || ip || 'unknown'}`;
+}
+
+// ---------------------------------------------------------------------------
+// Concurrency gate
+// ---------------------------------------------------------------------------
+
+export function createConcurrencyGate(config: Pick<RateLimitConfig, 'maxConcurrent' | 'maxQueue' | 'queueTimeoutMs'>): ConcurrencyGate {
+    const { maxConcurrent, maxQueue, queueTimeoutMs } = config;
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const release = () => {
+        const next = waiting.shift();
+        if (next) {
+            next(); // hand the slot straight to the next caller
+        } else {
+            active--;
+        }
+    };
+
+    return {
+        get active() { return active; },
+        get queued() { return waiting.length; },
+
+        async acquire(signal) {
+            if (active < maxConcurrent) {
+                active++;
+                return { ok: true, release: once(release) };
+            }
+            if (waiting.length >= maxQueue) {
+                return { ok: false, retryAfterSeconds: BUSY_RETRY_SECONDS };
+            }
+
+            return new Promise((resolve) => {
+                const grant = () => {
+                    clearTimeout(timer);
+                    signal?.removeEventListener('abort', giveUp);
+                    resolve({ ok: true, release: once(release) });
+                };
+                const giveUp = () => {
+                    clearTimeout(timer);
+                    signal?.removeEventListener('abort', giveUp);
+                    waiting.splice(waiting.indexOf(grant), 1);
+                    resolve({ ok: false, retryAfterSeconds: BUSY_RETRY_SECONDS });
+                };
+                const timer = setTimeout(giveUp, queueTimeoutMs);
+                signal?.addEventListener('abort', giveUp);
+                waiting.push(grant);
+            });
+        },
+    };
+}
+
+const once = (fn: () => void) => {
+    let done = false;
+    return () => {
+        if (!done) {
+            done = true;
+            fn();
+        }
+    };
+};
+
+/** `provider`, running at most the gate's share of detection calls at once. */
+export function withConcurrencyLimit(provider: DetectionProvider, gate: ConcurrencyGate): DetectionProvider {
+    return {
+        name: provider.name,
+        async detect(image, log, signal, prompt, onStage) {
+            const slot = await gate.acquire(signal);
+            if (!slot.ok) {
+                log.warn('AI queue full', { active: gate.active, queued: gate.queued });
+                return {
+                    ok: false,
+                    status: 503,
+                    body: apiError('SERVER_BUSY', 'Server busy. Try again shortly.', { retry_after: slot.retryAfterSeconds }),
+                    retryAfterSeconds: slot.retryAfterSeconds,
+                };
+            }
+            try {
+                return await provider.detect(image, log, signal, prompt, onStage);
+            } finally {
+                slot.release();
+            }
+        },
+    };
+}
+
+/**
+ * Seconds the AI provider asked us to wait (its Retry-After header), when
+ * `err` is a provider error that carries one.
+ */
+export function upstreamRetryAfter(err: unknown): number | undefined {
+    const headers = (err as { headers?: unknown } | null)?.headers as
+        | { get?: (name: string) => string | null }
+        | Record<string, string | undefined>
+        | undefined;
+    const value = typeof headers?.get === 'function'
+        ? headers.get('retry-after')
+        : (headers as Record<string, string | undefined> | undefined)?.['retry-after'];
+    const seconds = Number(value);
+    return value && Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration from the environment
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the limits from the environment.
+ *
+ * Environment:
+ *   RATE_LIMIT_BURST       uploads a client may make in a burst (default 5)
+ *   RATE_LIMIT_PER_MINUTE  sustained uploads per minute (default 10)
+ *   RATE_LIMIT_API_KEYS    comma-separated keys limited per key, not per IP
+ *   AI_MAX_CONCURRENT      detection calls at once (default 4)
+ *   AI_MAX_QUEUE           detection calls waiting for a slot (default 8)
+ *   AI_QUEUE_TIMEOUT_MS    longest wait for a slot (default 30000)
+ */
+export function createRateLimitConfig(
+    env: Record<string, string | undefined>,
+): { ok: true; value: RateLimitConfig } | { ok: false; error: string } {
+    const settings = [
+        ['RATE_LIMIT_BURST', 'burst', 1],
+        ['RATE_LIMIT_PER_MINUTE', 'perMinute', 1],
+        ['AI_MAX_CONCURRENT', 'maxConcurrent', 1],
+        ['AI_MAX_QUEUE', 'maxQueue', 0],
+        ['AI_QUEUE_TIMEOUT_MS', 'queueTimeoutMs', 0],
+    ] as const;
+
+    const value: RateLimitConfig = { ...DEFAULT_RATE_LIMIT, apiKeys: new Set() };
+    for (const [name, field, min] of settings) {
+        const setting = env[name]?.trim();
+        if (!setting) continue;
+        const n = Number(setting);
+        if (!Number.isInteger(n) || n < min) {
+            return { ok: false, error: `${name} must be an integer of at least ${min}` };
+        }
+        value[field] = n;
+    }
+
+    const keys = env.RATE_LIMIT_API_KEYS?.split(',').map(k => k.trim()).filter(Boolean) ?? [];
+    value.apiKeys = new Set(keys);
+
+    return { ok: true, value };
+}
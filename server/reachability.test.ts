@@ -0,0 +1,294 @@
+/**
+ * REACHABILITY SOLVER TESTS
+ * ==========================
+ *
+ * Covers the jump model, the PlatformFactory simulation, path finding and
+ * the builder's guarantee that every level it emits is provably completable.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    coinStack,
+    createJumpModel,
+    findPlacement,
+    horizontalReach,
+    pathCorridors,
+    simulatePlatforms,
+    solveReachability,
+    type ReachabilityScene,
+} from './reachability';
+import { buildLevel, buildStitchedLevel, type Detection } from './levelBuilder';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function scene(
+    platforms: [string, number, number, number][],
+    exit = { x: 0.9, y: 0.2 },
+): ReachabilityScene {
+    return {
+        image: { w: 1280, h: 720 },
+        objects: platforms.map(([id, x, y, w]) => ({
+            id,
+            type: 'platform',
+            bounds_normalized: { x, y, w, h: 0.03 },
+        })),
+        spawns: { player: { x: 0.08, y: 0.86 }, exit },
+    };
+}
+
+// ============================================================
+//  Jump model
+// ============================================================
+
+describe('horizontalReach', () => {
+    it('reaches further when landing lower', () => {
+        const model = createJumpModel(scene([]));
+        expect(horizontalReach(model, -0.2)).toBeGreaterThan(horizontalReach(model, 0));
+        expect(horizontalReach(model, 0)).toBeGreaterThan(horizontalReach(model, 0.2));
+    });
+
+    it('scales with the segment width in stitched levels', () => {
+        const single = createJumpModel(scene([]));
+        const stitched = createJumpModel({ ...scene([]), segments: [{ x: 0, w: 0.5 }, { x: 0.5, w: 0.5 }] });
+        expect(stitched.viewScale).toBe(0.5);
+        expect(horizontalReach(stitched, 0)).toBeCloseTo(horizontalReach(single, 0) / 2, 9);
+    });
+
+    it('returns 0 above the jump apex', () => {
+        const model = createJumpModel(scene([]));
+        expect(horizontalReach(model, model.jumpHeight + 0.01)).toBe(0);
+    });
+});
+
+// ============================================================
+//  PlatformFactory simulation
+// ============================================================
+
+describe('simulatePlatforms', () => {
+    it('drops a platform that crowds an earlier one', () => {
+        const s = scene([
+            ['a', 0.1, 0.7, 0.3],
+            ['b', 0.15, 0.72, 0.3],
+        ]);
+        const ids = simulatePlatforms(s).map(p => p.id);
+        expect(ids).toEqual(['a', 'floor']);
+    });
+
+    it('always includes the world floor', () => {
+        expect(simulatePlatforms(scene([])).map(p => p.id)).toEqual(['floor']);
+    });
+});
+
+// ============================================================
+//  Path finding
+// ============================================================
+
+describe('solveReachability', () => {
+    it('finds a staircase path from spawn to exit', () => {
+        const s = scene([
+            ['p1', 0.2, 0.8, 0.2],
+            ['p2', 0.5, 0.62, 0.2],
+            ['p3', 0.75, 0.44, 0.2],
+            ['p4', 0.5, 0.27, 0.2],
+        ], { x: 0.6, y: 0.2 });
+        const result = solveReachability(s);
+        expect(result.reachable).toBe(true);
+        expect(result.path[0].id).toBe('spawn');
+        expect(result.path[result.path.length - 1].id).toBe('exit');
+        expect(result.path.map(p => p.id)).toEqual(expect.arrayContaining(['p1', 'p2', 'p3']));
+    });
+
+    it('lands on special surfaces but never jumps from them', () => {
+        const stairs = scene([
+            ['p1', 0.2, 0.8, 0.2],
+            ['p2', 0.5, 0.62, 0.2],
+            ['p3', 0.75, 0.44, 0.2],
+            ['p4', 0.5, 0.27, 0.2],
+        ], { x: 0.6, y: 0.2 });
+        const special = (type: string) => ({
+            ...stairs,
+            objects: stairs.objects.map(o => (o.id === 'p3' ? { ...o, surface_type: type } : o)),
+        });
+
+        expect(solveReachability(special('solid')).reachable).toBe(true);
+        for (const type of ['soft', 'slippery', 'bouncy', 'breakable']) {
+            const result = solveReachability(special(type));
+            expect(result.reachable).toBe(false);
+            expect(result.reached.map(p => p.id)).toContain('p3');
+            expect(result.reached.map(p => p.id)).not.toContain('p4');
+        }
+    });
+
+    it('reports an exit that is too high as unreachable', () => {
+        const s = scene([['p1', 0.2, 0.8, 0.2]], { x: 0.3, y: 0.1 });
+        const result = solveReachability(s);
+        expect(result.reachable).toBe(false);
+        expect(result.path).toEqual([]);
+        expect(result.reached.map(p => p.id)).toContain('p1');
+    });
+});
+
+describe('pathCorridors', () => {
+    it('covers the walk from the spawn and every jump on the path', () => {
+        const s = scene([
+            ['p1', 0.3, 0.75, 0.2],
+            ['p2', 0.6, 0.55, 0.2],
+        ], { x: 0.7, y: 0.45 });
+        const result = solveReachability(s);
+        const corridors = pathCorridors(s, result);
+
+        expect(corridors).toHaveLength(result.path.length - 2);
+        // The first corridor runs from the spawn to the first platform along the floor
+        expect(corridors[0].x).toBeLessThan(s.spawns.player.x);
+        expect(corridors[0].y + corridors[0].h).toBeCloseTo(1, 5);
+    });
+
+    it('is empty for an unreachable scene', () => {
+        const s = scene([['p1', 0.2, 0.8, 0.2]], { x: 0.3, y: 0.1 });
+        expect(pathCorridors(s, solveReachability(s))).toEqual([]);
+    });
+});
+
+describe('findPlacement', () => {
+    it('proposes a ledge that bridges the gap to the exit', () => {
+        const s = scene([['p1', 0.2, 0.8, 0.2]], { x: 0.5, y: 0.35 });
+        const ledge = findPlacement(s, {
+            w: 0.16, h: 0.03, xMin: 0.02, xMax: 0.96, yMin: 0.16, newId: 'ledge',
+        });
+        expect(ledge).not.toBeNull();
+
+        const repaired = scene([['p1', 0.2, 0.8, 0.2]], { x: 0.5, y: 0.35 });
+        repaired.objects.push({ id: 'ledge', type: 'platform', bounds_normalized: ledge! });
+        expect(solveReachability(repaired).reachable).toBe(true);
+    });
+});
+
+// ============================================================
+//  Builder guarantee
+// ============================================================
+
+describe('buildLevel reachability', () => {
+    const CATEGORIES: Detection['category'][] = ['furniture', 'food', 'plant', 'electric', 'other'];
+    const DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+
+    it('returns a proven path for every generated level', () => {
+        // Small deterministic LCG so the test explores many layouts reproducibly
+        let seed = 1;
+        const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+        for (let i = 0; i < 200; i++) {
+            const detections: Detection[] = Array.from({ length: Math.floor(rand() * 15) }, () => ({
+                label: 'object'.slice(0, 1 + Math.floor(rand() * 6)),
+                category: CATEGORIES[Math.floor(rand() * CATEGORIES.length)],
+                confidence: rand(),
+                bounds_normalized: { x: rand() * 0.8, y: rand() * 0.8, w: rand() * 0.5, h: rand() * 0.3 },
+            }));
+            const image = rand() < 0.5 ? { w: 720, h: 1280 } : { w: 1280, h: 720 };
+
+            const difficulty = DIFFICULTIES[i % DIFFICULTIES.length];
+
+            const { scene: built, path } = buildLevel({ image, detections }, { difficulty });
+
+            expect(path.length).toBeGreaterThan(0);
+            expect(solveReachability(built).reachable).toBe(true);
+        }
+    });
+
+    it('keeps hazards and obstacles out of the proven path', () => {
+        let seed = 7;
+        const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        let decorations = 0;
+
+        for (let i = 0; i < 100; i++) {
+            const detections: Detection[] = Array.from({ length: 3 + Math.floor(rand() * 10) }, () => ({
+                label: rand() < 0.5 ? 'sofa' : 'cable',
+                category: rand() < 0.5 ? 'furniture' : 'electric',
+                confidence: rand(),
+                bounds_normalized: { x: rand() * 0.8, y: rand() * 0.8, w: rand() * 0.5, h: rand() * 0.4 },
+            }));
+            const { scene: built } = buildLevel({ image: { w: 1280, h: 720 }, detections });
+            const corridors = pathCorridors(built, solveReachability(built));
+
+            for (const obj of built.objects) {
+                if (obj.type !== 'hazard' && obj.type !== 'obstacle') continue;
+                decorations++;
+                const b = obj.bounds_normalized;
+                const cut = corridors.some(c =>
+                    b.x < c.x + c.w && b.x + b.w > c.x && b.y < c.y + c.h && b.y + b.h > c.y);
+                expect(cut).toBe(false);
+            }
+        }
+
+        expect(decorations).toBeGreaterThan(0);
+    });
+
+    it('keeps every coin of every stack collectible when the exit is locked behind them', () => {
+        let seed = 11;
+        const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        let locked = 0;
+
+        for (let i = 0; i < 100; i++) {
+            const detections: Detection[] = Array.from({ length: 2 + Math.floor(rand() * 10) }, (_, k) => ({
+                label: 'thing',
+                category: k < 2 ? 'food' : CATEGORIES[Math.floor(rand() * CATEGORIES.length)],
+                confidence: rand(),
+                bounds_normalized: { x: rand() * 0.8, y: rand() * 0.8, w: rand() * 0.4, h: rand() * 0.3 },
+            }));
+            const { scene: built } = buildLevel({ image: { w: 1280, h: 720 }, detections });
+            if (!built.rules.some(r => r.type === 'collect_all_to_unlock_exit')) continue;
+            locked++;
+
+            const { reached } = solveReachability(built);
+            const { safeRise } = createJumpModel(built);
+            for (const coin of built.spawns.pickups.filter(p => p.type === 'coin').flatMap(coinStack)) {
+                const onReach = reached.some(s =>
+                    coin.x >= s.x && coin.x <= s.x + s.w && s.top - coin.y >= 0 && s.top - coin.y <= safeRise);
+                expect(onReach).toBe(true);
+            }
+        }
+
+        expect(locked).toBe(100);
+    });
+
+    it('stacks a coin spawn as the game does: two coins, 1.2 pickup sizes apart', () => {
+        const stack = coinStack({ x: 0.5, y: 0.6 });
+        expect(stack).toHaveLength(2);
+        expect(stack[0]).toEqual({ x: 0.5, y: 0.6 });
+        expect(stack[1].x).toBe(0.5);
+        expect(stack[1].y).toBeCloseTo(0.6 - 0.04 * 1.2);
+    });
+
+    it('proves every stitched level end to end, clear of decorations', () => {
+        let seed = 3;
+        const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+        for (let i = 0; i < 60; i++) {
+            const photos = Array.from({ length: 2 + (i % 3) }, () => ({
+                image: { w: 1280, h: 720 },
+                detections: Array.from({ length: Math.floor(rand() * 12) }, (): Detection => ({
+                    label: rand() < 0.3 ? 'sofa' : 'cable',
+                    category: CATEGORIES[Math.floor(rand() * CATEGORIES.length)],
+                    confidence: rand(),
+                    bounds_normalized: { x: rand() * 0.8, y: rand() * 0.8, w: rand() * 0.5, h: rand() * 0.3 },
+                })),
+            }));
+            const { scene: built, path } = buildStitchedLevel(photos, { difficulty: DIFFICULTIES[i % 3] });
+            const proof = solveReachability(built);
+
+            expect(path.length).toBeGreaterThan(0);
+            expect(proof.reachable).toBe(true);
+
+            const corridors = pathCorridors(built, proof);
+            for (const obj of built.objects) {
+                if (obj.type !== 'hazard' && obj.type !== 'obstacle') continue;
+                const b = obj.bounds_normalized;
+                expect(corridors.some(c =>
+                    b.x < c.x + c.w && b.x + b.w > c.x && b.y < c.y + c.h && b.y + b.h > c.y)).toBe(false);
+            }
+        }
+    });
+});
@@ -0,0 +1,527 @@
+/**
+ * REACHABILITY SOLVER
+ * ===================
+ *
+ * Proves that the exit of a built level can be reached from the player
+ * spawn, and proposes ledge placements when it can't.
+ *
+ * The jump model uses the same ratios as computePhysics() in
+ * src/game/physics/PhysicsConfig.ts (gravity, run speed, adaptive jump
+ * height), so "reachable" here means reachable in the running game.
+ *
+ * The solver works on what the client will actually build, not on the raw
+ * bounds: platforms are first run through a simulation of PlatformFactory
+ * (tile widening, floor lowering, overlap removal), so a platform the game
+ * would silently drop is never used as a stepping stone.
+ *
+ * The jump model is a full-speed take-off from solid ground. Special
+ * surfaces (see SurfaceSystem.ts) break it: soft ones slow the run-up,
+ * slippery ones carry a slide into the air, bouncy ones launch the player
+ * on their own and breakable ones crumble under them. The solver lands on
+ * them but never takes off from them, so a proven path only jumps from
+ * solid surfaces.
+ *
+ * Once a path is proven, pathCorridors() marks the space it moves through
+ * so decorations (hazards, obstacles) can be kept out of it, and
+ * coinStack() says where a coin spawn's coins end up, for checking they
+ * can all be collected.
+ *
+ * All values are normalized (0..1). Sizes the game derives from worldH are
+ * converted to normalized X with the image aspect ratio. Stitched levels
+ * (scene.segments) derive run speed and minimum platform width from one
+ * segment's width instead of the whole world, as PhysicsConfig does.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Bounds {
+    x: number; y: number; w: number; h: number;
+}
+
+export interface Point {
+    x: number; y: number;
+}
+
+/** Minimal scene shape the solver needs (SceneV1 satisfies it). */
+export interface ReachabilityScene {
+    image: { w: number; h: number };
+    objects: { id: string; type: string; bounds_normalized: Bounds; surface_type?: string }[];
+    spawns: { player: Point; exit: Point };
+    segments?: { x: number; w: number }[];
+}
+
+/** A walkable top edge as the game will build it. */
+export interface Surface {
+    id: string;
+    x: number;
+    top: number;
+    w: number;
+    /** A special surface: the player can land on it, but not take off from it */
+    landingOnly: boolean;
+}
+
+/** One step of a proven path — the top-centre of each surface visited. */
+export interface PathStep {
+    id: string;
+    x: number;
+    y: number;
+}
+
+export interface ReachabilityResult {
+    reachable: boolean;
+    /** spawn → surfaces → exit; empty when unreachable */
+    path: PathStep[];
+    /** Every surface the player can get to from the spawn */
+    reached: Surface[];
+}
+
+export interface JumpModel {
+    /** Full jump apex (normalized Y) — what computePhysics will give the player */
+    jumpHeight: number;
+    /** Usable rise after the safety margin */
+    safeRise: number;
+    /** image.h / image.w — converts worldH-relative sizes to normalized X */
+    aspect: number;
+    /** Player body width (normalized X) */
+    bodyWidth: number;
+    /** Player body height (normalized Y) */
+    bodyHeight: number;
+    /** One segment's width as a fraction of the world (1 unless stitched) */
+    viewScale: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants — mirrored from PhysicsConfig.ts RATIOS, PlatformFactory.ts and PickupFactory.ts
+// ---------------------------------------------------------------------------
+
+const PHYSICS = {
+    playerSize: 0.06,
+    exitSize: 0.06,
+    pickupSize: 0.04,
+    bodyWidthRatio: 0.58,
+    bodyHeightRatio: 0.75,
+    gravityMultiplier: 1.2,
+    jumpMargin: 0.25,
+    minJumpFraction: 0.25,
+    maxJumpFraction: 0.55,
+    speedFraction: 0.40,
+    minPlatformWidthFraction: 0.025,
+    minPlatformHeightFraction: 0.008,
+} as const;
+
+const FACTORY = {
+    /** Tile size as a fraction of worldH */
+    boxSizeRatio: 0.05,
+    minTiles: 5,
+    /** PlatformFactory only trusts 85% of the jump when lowering platforms */
+    reachFromFloorRatio: 0.85,
+} as const;
+
+/** PickupFactory turns a coin spawn into a stack of coins, 1.2 pickup sizes apart */
+const COIN_STACK = {
+    count: 2,
+    spacingRatio: 1.2,
+} as const;
+
+/** Fraction of the theoretical jump (height and distance) the solver relies on. */
+const SAFETY = 0.85;
+
+/** Tolerance for comparisons against limits the factory itself snaps to. */
+const EPSILON = 1e-6;
+
+/** Id of the implicit world floor GameScene always adds. */
+export const FLOOR_ID = 'floor';
+
+// ---------------------------------------------------------------------------
+// Jump model
+// ---------------------------------------------------------------------------
+
+/**
+ * Same calculation as analyzeSceneGaps() in PhysicsConfig.ts: the jump
+ * adapts to the largest vertical gap between surfaces (and the exit).
+ */
+function jumpFractionFor(scene: ReachabilityScene): number {
+    const ys = [1.0, scene.spawns.exit.y];
+    for (const obj of scene.objects) {
+        if (obj.type === 'platform') ys.push(obj.bounds_normalized.y);
+    }
+    ys.sort((a, b) => a - b);
+
+    let maxGap = 0;
+    for (let i = 1; i < ys.length; i++) {
+        maxGap = Math.max(maxGap, ys[i] - ys[i - 1]);
+    }
+
+    const required = maxGap * (1 + PHYSICS.jumpMargin);
+    return Math.min(Math.max(required, PHYSICS.minJumpFraction), PHYSICS.maxJumpFraction);
+}
+
+export function createJumpModel(scene: ReachabilityScene): JumpModel {
+    const jumpHeight = jumpFractionFor(scene);
+    const aspect = scene.image.h / scene.image.w;
+    return {
+        jumpHeight,
+        safeRise: jumpHeight * SAFETY,
+        aspect,
+        bodyWidth: PHYSICS.playerSize * PHYSICS.bodyWidthRatio * aspect,
+        bodyHeight: PHYSICS.playerSize * PHYSICS.bodyHeightRatio,
+        viewScale: 1 / (scene.segments?.length ?? 1),
+    };
+}
+
+/**
+ * Max horizontal distance (normalized X) covered by a running jump that
+ * lands `rise` above the take-off point (negative = landing lower).
+ *
+ * Vertical: v = sqrt(2·g·h), airtime until the feet are back at `rise`.
+ * Horizontal: run speed × airtime.
+ */
+export function horizontalReach(model: JumpModel, rise: number): number {
+    const g = PHYSICS.gravityMultiplier;
+    const v = Math.sqrt(2 * g * model.jumpHeight);
+    const disc = v * v - 2 * g * rise;
+    if (disc < 0) return 0;
+    const airtime = (v + Math.sqrt(disc)) / g;
+    return PHYSICS.speedFraction * model.viewScale * airtime * SAFETY;
+}
+
+// ---------------------------------------------------------------------------
+// PlatformFactory simulation
+// ---------------------------------------------------------------------------
+
+function rectsTooClose(a: Bounds, b: Bounds, gapX: number, gapY: number): boolean {
+    return (
+        a.x < b.x + b.w + gapX &&
+        a.x + a.w > b.x - gapX &&
+        a.y < b.y + b.h + gapY &&
+        a.y + a.h > b.y - gapY
+    );
+}
+
+/**
+ * Replays PlatformFactory.createPlatforms() in normalized space and returns
+ * the surfaces that survive, plus the world floor.
+ */
+export function simulatePlatforms(
+    scene: ReachabilityScene,
+    model: JumpModel = createJumpModel(scene),
+): Surface[] {
+    const boxW = FACTORY.boxSizeRatio * model.aspect;
+    const boxH = FACTORY.boxSizeRatio;
+    const gapX = PHYSICS.playerSize * 2 * model.aspect;
+    const gapY = PHYSICS.playerSize * 2;
+    const maxReachableY = 1 - model.jumpHeight * FACTORY.reachFromFloorRatio;
+
+    const placed: Bounds[] = [];
+    const surfaces: Surface[] = [];
+
+    for (const obj of scene.objects) {
+        if (obj.type !== 'platform') continue;
+        const b = obj.bounds_normalized;
+
+        if (b.w < PHYSICS.minPlatformWidthFraction * model.viewScale || b.h < PHYSICS.minPlatformHeightFraction) {
+            continue;
+        }
+
+        const effectiveW = Math.max(b.w, FACTORY.minTiles * boxW);
+        const tileCount = Math.max(FACTORY.minTiles, Math.round(effectiveW / boxW));
+        const w = tileCount * boxW;
+
+        const cx = b.x + b.w / 2;
+        let cy = b.y + b.h / 2;
+
+        if (cy - boxH / 2 < maxReachableY) {
+            const hasLower = placed.some(p => p.y + p.h > cy && p.y + p.h <= 1);
+            if (!hasLower) cy = maxReachableY + boxH / 2;
+        }
+
+        const rect: Bounds = { x: cx - w / 2, y: cy - boxH / 2, w, h: boxH };
+        if (placed.some(p => rectsTooClose(rect, p, gapX, gapY))) continue;
+
+        placed.push(rect);
+        const landingOnly = obj.surface_type !== undefined && obj.surface_type !== 'solid';
+        surfaces.push({ id: obj.id, x: rect.x, top: rect.y, w: rect.w, landingOnly });
+    }
+
+    surfaces.push({ id: FLOOR_ID, x: 0, top: 1, w: 1, landingOnly: false });
+    return surfaces;
+}
+
+/**
+ * Convert a desired surface top back into emitted bounds.
+ * Inverse of the factory's "centre a tile row on the rect" step.
+ */
+export function boundsForSurfaceTop(x: number, top: number, w: number, h: number): Bounds {
+    return { x, y: top + FACTORY.boxSizeRatio / 2 - h / 2, w, h };
+}
+
+// ---------------------------------------------------------------------------
+// Graph
+// ---------------------------------------------------------------------------
+
+/** Can the player get from surface `a` onto surface `b`? */
+function canMove(a: Surface, b: Surface, model: JumpModel): boolean {
+    if (a.landingOnly) return false;
+    const rise = a.top - b.top;
+    if (rise > model.safeRise + EPSILON) return false;
+
+    const gap = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w));
+    if (gap > 0) {
+        return gap + model.bodyWidth <= horizontalReach(model, rise);
+    }
+
+    // Spans overlap: the lower surface has to stick out past the upper one
+    // far enough to stand on, otherwise the upper one is a ceiling.
+    const [lower, upper] = a.top >= b.top ? [a, b] : [b, a];
+    const overhang = Math.max(upper.x - lower.x, (lower.x + lower.w) - (upper.x + upper.w));
+    return overhang >= model.bodyWidth;
+}
+
+/**
+ * Can the player touch the exit from surface `s`? Mid-jump overlap counts,
+ * so the feet only need to rise until the body reaches the exit sprite.
+ */
+function canTouchExit(s: Surface, exit: Point, model: JumpModel): boolean {
+    if (s.landingOnly) return false;
+    const exitHalf = PHYSICS.exitSize / 2;
+    const rise = Math.max(0, s.top - (exit.y + exitHalf + model.bodyHeight));
+    if (rise > model.safeRise + EPSILON) return false;
+    if (s.top < exit.y - exitHalf) return false;
+
+    const exitHalfX = exitHalf * model.aspect;
+    const gap = Math.max(exit.x - exitHalfX - (s.x + s.w), s.x - (exit.x + exitHalfX));
+    if (gap <= 0) return true;
+    return gap + model.bodyWidth / 2 <= horizontalReach(model, rise);
+}
+
+/** The surface the player lands on after spawning (falls straight down). */
+function spawnSurface(surfaces: Surface[], spawn: Point): Surface {
+    let best: Surface | undefined;
+    for (const s of surfaces) {
+        if (spawn.x < s.x || spawn.x > s.x + s.w) continue;
+        if (s.top < spawn.y) continue;
+        if (!best || s.top < best.top) best = s;
+    }
+    // The floor spans the whole width, so this only falls back on bad spawns
+    return best ?? surfaces[surfaces.length - 1];
+}
+
+/** The tile row the factory builds under a surface's top edge. */
+export const surfaceBox = (s: Surface): Bounds => ({ x: s.x, y: s.top, w: s.w, h: FACTORY.boxSizeRatio });
+
+/** Top-centre of a surface as a path step. */
+export const surfaceStep = (s: Surface): PathStep => ({ id: s.id, x: s.x + s.w / 2, y: s.top });
+
+/**
+ * Breadth-first search from the spawn surface to any surface the exit can
+ * be touched from. Returns the shortest path in surface hops.
+ */
+export function solveReachability(
+    scene: ReachabilityScene,
+    model: JumpModel = createJumpModel(scene),
+): ReachabilityResult {
+    const surfaces = simulatePlatforms(scene, model);
+    const { player, exit } = scene.spawns;
+
+    const start = spawnSurface(surfaces, player);
+    const parent = new Map<Surface, Surface | null>([[start, null]]);
+    const queue: Surface[] = [start];
+    let goal: Surface | undefined;
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (canTouchExit(current, exit, model)) {
+            goal = current;
+            break;
+        }
+        for (const next of surfaces) {
+            if (parent.has(next) || !canMove(current, next, model)) continue;
+            parent.set(next, current);
+            queue.push(next);
+        }
+    }
+
+    const reached = [...parent.keys()];
+    if (!goal) {
+        return { reachable: false, path: [], reached };
+    }
+
+    const hops: PathStep[] = [];
+    for (let s: Surface | null | undefined = goal; s; s = parent.get(s)) {
+        hops.unshift(surfaceStep(s));
+    }
+
+    return {
+        reachable: true,
+        path: [
+            { id: 'spawn', x: player.x, y: player.y },
+            ...hops,
+            { id: 'exit', x: exit.x, y: exit.y },
+        ],
+        reached,
+    };
+}
+
+/**
+ * Regions the proven path moves through: the walk from the spawn to the
+ * first take-off, every jump between surfaces (up to the jump apex) and
+ * the final jump to the exit. Anything solid or damaging placed outside
+ * these leaves the path intact. Empty when the scene is unreachable.
+ */
+export function pathCorridors(
+    scene: ReachabilityScene,
+    result: ReachabilityResult,
+    model: JumpModel = createJumpModel(scene),
+): Bounds[] {
+    if (!result.reachable) return [];
+
+    const byId = new Map(simulatePlatforms(scene, model).map(s => [s.id, s]));
+    const hops = result.path.slice(1, -1).map(step => byId.get(step.id)!);
+    const { player, exit } = scene.spawns;
+    const exitHalf = PHYSICS.exitSize / 2;
+    const exitHalfX = exitHalf * model.aspect;
+    const apex = model.jumpHeight + model.bodyHeight;
+
+    const corridors: Bounds[] = [];
+    const span = (x0: number, x1: number, top: number, bottom: number) => {
+        corridors.push({
+            x: x0 - model.bodyWidth,
+            y: top,
+            w: x1 - x0 + 2 * model.bodyWidth,
+            h: bottom - top,
+        });
+    };
+
+    // Where the player can be on the current surface: the spawn point on
+    // the first one, anywhere on the ones it lands on
+    let x0 = player.x;
+    let x1 = player.x;
+    hops.forEach((a, i) => {
+        const b = hops[i + 1];
+        if (b) {
+            span(Math.min(x0, b.x), Math.max(x1, b.x + b.w), Math.min(a.top, b.top) - apex, Math.max(a.top, b.top));
+            x0 = b.x;
+            x1 = b.x + b.w;
+        } else {
+            span(
+                Math.min(x0, exit.x - exitHalfX), Math.max(x1, exit.x + exitHalfX),
+                Math.min(a.top - apex, exit.y - exitHalf), a.top,
+            );
+        }
+    });
+
+    return corridors;
+}
+
+// ---------------------------------------------------------------------------
+// Pickups
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the coins of a coin spawn are in the game: the spawn point and the
+ * coins stacked above it. Every one of them has to be collectible, since
+ * collect_all_to_unlock_exit counts coins, not spawns.
+ */
+export function coinStack(spawn: Point): Point[] {
+    const spacing = PHYSICS.pickupSize * COIN_STACK.spacingRatio;
+    return Array.from({ length: COIN_STACK.count }, (_, i) => ({ x: spawn.x, y: spawn.y - i * spacing }));
+}
+
+// ---------------------------------------------------------------------------
+// Repair
+// ---------------------------------------------------------------------------
+
+/** Horizontal scan step for candidate placements. */
+const SCAN_STEP = 0.02;
+
+/** How high above a reached surface to try a new ledge (fractions of safeRise). */
+const RISE_STEPS = [0.9, 0.75, 0.6, 0.45, 0.3];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Find a platform placement that extends the reachable area towards the
+ * exit. With `replaceId` the existing platform is moved (a nudge);
+ * otherwise a new ledge with id `newId` is appended.
+ *
+ * Candidates sit within a jump of a surface that is already reachable and
+ * are tried closest-to-exit first. The first candidate the factory keeps
+ * that makes the exit reachable, or opens up a surface that wasn't
+ * reachable before, wins. Failing that, a reachable dead-end ledge that is
+ * closer to the exit than anything reached so far is returned, so the next
+ * repair round can build from it. Returns null when nothing helps.
+ */
+export function findPlacement(
+    scene: ReachabilityScene,
+    opts: {
+        w: number;
+        h: number;
+        xMin: number;
+        xMax: number;
+        yMin: number;
+        newId?: string;
+        replaceId?: string;
+    },
+): Bounds | null {
+    const model = createJumpModel(scene);
+    const before = solveReachability(scene, model);
+    const exit = scene.spawns.exit;
+    const id = opts.replaceId ?? opts.newId ?? 'ledge_candidate';
+
+    const reachedBefore = new Set(before.reached.map(s => s.id));
+    const bestDistance = Math.min(
+        ...before.reached.map(s => distance(surfaceStep(s), exit)),
+    );
+
+    const candidates: Bounds[] = [];
+    for (const s of before.reached) {
+        if (s.id === opts.replaceId) continue;
+        for (const f of RISE_STEPS) {
+            const top = s.top - model.safeRise * f;
+            const bounds = boundsForSurfaceTop(0, top, opts.w, opts.h);
+            if (bounds.y < opts.yMin) continue;
+            for (let x = opts.xMin; x <= opts.xMax - opts.w; x += SCAN_STEP) {
+                candidates.push({ ...bounds, x });
+            }
+        }
+    }
+
+    const centreOf = (b: Bounds): Point => ({ x: b.x + b.w / 2, y: b.y });
+    candidates.sort((a, b) => distance(centreOf(a), exit) - distance(centreOf(b), exit));
+
+    let closer: Bounds | null = null;
+    for (const bounds of candidates) {
+        const objects = opts.replaceId
+            ? scene.objects.map(o => (o.id === opts.replaceId ? { ...o, bounds_normalized: bounds } : o))
+            : [...scene.objects, { id, type: 'platform', bounds_normalized: bounds }];
+        const result = solveReachability({ ...scene, objects });
+        if (result.reachable) return bounds;
+
+        const reachedIds = result.reached.map(s => s.id);
+        if (!reachedIds.includes(id)) continue;
+
+        // A nudged platform carries its own role (e.g. the exit) — reaching it is the point
+        if (opts.replaceId) return bounds;
+        if (reachedIds.some(r => r !== id && !reachedBefore.has(r))) return bounds;
+
+        if (!closer && distance(centreOf(bounds), exit) < bestDistance) closer = bounds;
+    }
+
+    return closer;
+}
+
+/**
+ * The reachable surface closest to `target` — the last-resort home for the
+ * exit when no placement can bridge the gap. `reached[0]` is always the
+ * spawn surface.
+ */
+export function closestReached(result: ReachabilityResult, target: Point): PathStep {
+    let best = surfaceStep(result.reached[0]);
+    for (const s of result.reached) {
+        const step = surfaceStep(s);
+        if (distance(step, target) < distance(best, target)) best = step;
+    }
+    return best;
+}
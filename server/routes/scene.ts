@@ -1,196 +1,355 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import OpenAI from 'openai';
-import { buildLevel, DetectionResponse } from '../levelBuilder';
-
-const openai = new OpenAI(); // reads OPENAI_API_KEY from env
-
-// Configure multer to store files in memory (no disk storage)
-const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: {
-        fileSize: 10 * 1024 * 1024, // 10MB max file size
-    },
-    fileFilter: (_req, file, cb) => {
-        // Accept only image files
-        if (file.mimetype.startsWith('image/')) {
-            cb(null, true);
-        } else {
-            cb(new Error('Only image files are allowed'));
-        }
-    },
-});
+import {
+    BUILDER_VERSION,
+    buildLevel,
+    buildStitchedLevel,
+    parseRebuildRequest,
+    randomSeed,
+} from '../levelBuilder';
+import { apiError, jobWithoutDebug, withoutDebug } from '../apiErrors';
+import { createCachedDetectionProvider } from '../detectionCache';
+import { selectPrompt } from '../detectionPrompts';
+import {
+    isImageType,
+    sniffImageType,
+    uploadFailures,
+    uploadLimits,
+    type UploadFailure,
+} from '../multipartUpload';
+import { postprocessDetections } from '../detectionPostprocess';
+import { startRequestLog, type Logger } from '../logger';
+import type { SceneMetrics, SceneRoute } from '../metrics';
+import {
+    clientKey,
+    createConcurrencyGate,
+    createRateLimiter,
+    withConcurrencyLimit,
+} from '../rateLimit';
+import { startSceneProgress } from '../sceneProgress';
+import { generateScene } from '../scenePipeline';
+import { createSceneJobStore } from '../sceneJobs';
+import { isDebugRequest, type ServerConfig } from '../serverConfig';
+import { parseSceneV1 } from '../../src/shared/schema/scene_v1.schema';
+
+/** Retry-After suggested when the job store is full (s) */
+const JOBS_FULL_RETRY_SECONDS = 10;
 
-export const sceneRouter = Router();
+/** A photo whose declared type isn't one of IMAGE_TYPES (from multer's fileFilter) */
+class UnsupportedImageError extends Error {}
 
-// AI prompt: detection + name generation
-const DETECTION_PROMPT = `You are an object detection AI. You receive a photo and detect objects in it.
+/**
+ * The /api/scene routes for `config` (see serverConfig.ts), counting into
+ * `metrics` (see metrics.ts) and logging each request under its id through
+ * a child of `logger` (see logger.ts). Fails when the detection provider or
+ * cache is misconfigured, so the server can refuse to start.
+ */
+export function createSceneRouter(
+    config: ServerConfig,
+    metrics: SceneMetrics,
+    logger: Logger,
+): { ok: true; value: Router } | { ok: false; error: string } {
+    // Upload rate limit and AI concurrency cap (RATE_LIMIT_*, AI_*), see rateLimit.ts
+    const limiter = createRateLimiter(config.rateLimit);
+    const aiGate = createConcurrencyGate(config.rateLimit);
 
-RESPOND WITH ONLY VALID JSON — no markdown, no backticks, no explanation.
+    // Detection provider picked by DETECTION_PROVIDER (OpenAI unless configured otherwise),
+    // behind the DETECTION_CACHE image-hash cache. Only misses take an AI slot.
+    const detectionProvider = createCachedDetectionProvider(
+        config,
+        (provider) => withConcurrencyLimit(provider, aiGate),
+    );
+    if (!detectionProvider.ok) return detectionProvider;
+    const provider = detectionProvider.value;
 
-Detect objects visible in the photo. For each object, return its label, category, confidence, and bounding box in normalized coordinates (0.0 to 1.0 relative to image dimensions).
+    // Background scene jobs (SCENE_JOB_*), see sceneJobs.ts
+    const jobs = createSceneJobStore(config.jobs);
 
-Also generate:
-1. A fun player name in the format "adjective-adjective-noun" (noun must be a nature thing or animal)
-2. A creative level name inspired by what you see in the photo (2-4 words, title case)
+    /** Whether the request may see `_debug` (DEBUG_RESPONSES, x-debug-token) */
+    const debugRequest = (req: Request) => isDebugRequest(config.debug, req.headers);
 
-{
-  "image": { "w": <estimated_width>, "h": <estimated_height> },
-  "player_name": "<adjective-adjective-noun>",
-  "level_name": "<creative level name based on photo>",
-  "detections": [
-    {
-      "label": "<what the object is>",
-      "category": "furniture | food | plant | electric | other",
-      "confidence": <0.0-1.0>,
-      "bounds_normalized": { "x": <left>, "y": <top>, "w": <width>, "h": <height> }
+    /**
+     * Settle the request's id, echo it in x-request-id and keep the
+     * request's logger in `res.locals.log` for the handlers after this one.
+     */
+    function logRequests(route: SceneRoute) {
+        return (req: Request, res: Response, next: NextFunction) => {
+            res.locals.log = startRequestLog(logger, req, res, route);
+            next();
+        };
     }
-  ]
-}
 
-RULES:
-- bounds_normalized: x,y is the top-left corner. w,h is width and height as fraction of image.
-- Detect ALL visible objects: tables, chairs, books, cups, plants, screens, cables, boxes, shelves, food, etc.
-- Estimate image dimensions from typical phone photos (e.g. 4032x3024). If unsure use 1280x720.
-- Return up to 15 detections, prioritizing larger and more distinct objects.
-- Be accurate with bounding boxes — they should tightly fit the object.
-- category must be one of: furniture, food, plant, electric, other.
-- Prefer detecting flat horizontal surfaces (tables, shelves, counters, desks, books, window sills) — these are the most important objects.
-- player_name: always lowercase with hyphens, family-friendly. Use fun adjectives and an animal or nature noun. Examples: "brave-sparkly-penguin", "fuzzy-cosmic-otter", "cheerful-mighty-fox".
-- level_name: a short creative title inspired by the scene in the photo. Family-friendly, title case. Examples: "Kitchen Quest", "Sunny Garden Dash", "Cozy Bookshelf Canyon".`;
+    /** The request's logger (the server's for requests logRequests() hasn't seen) */
+    const requestLog = (res: Response): Logger => res.locals.log ?? logger;
 
-/**
- * POST /api/scene
- * Accepts multipart/form-data with an "image" field
- * 1) AI detects objects in the photo
- * 2) Deterministic level builder creates a playable SceneV1
- */
-sceneRouter.post('/', upload.single('image'), async (req: Request, res: Response) => {
-    const file = req.file;
-    const requestId = req.headers['x-request-id'] || 'no-request-id';
-    const timestamp = new Date().toISOString();
-
-    if (!file) {
-        console.log(`[${timestamp}] request=${requestId} error=no_image`);
-        res.status(400).json({
-            error: 'No image file provided',
-            hint: 'Send a multipart/form-data request with field name "image"',
-        });
-        return;
+    /**
+     * Count the JSON answers of `route`, including the rejections of the
+     * middleware after this one. Progress answers are counted where they
+     * are finished.
+     */
+    function countAnswers(route: SceneRoute) {
+        return (_req: Request, res: Response, next: NextFunction) => {
+            const json = res.json.bind(res);
+            res.json = (body: unknown) => {
+                metrics.request(route, res.statusCode, body);
+                return json(body);
+            };
+            next();
+        };
     }
 
-    console.log(`[${timestamp}] request=${requestId} received image size=${file.size} type=${file.mimetype}`);
-
-    try {
-        const base64Image = file.buffer.toString('base64');
-        const mimeType = file.mimetype || 'image/jpeg';
-        const dataUrl = `data:${mimeType};base64,${base64Image}`;
-
-        // === AI: Detect objects in the photo ===
-        console.log(`[${timestamp}] request=${requestId} sending to GPT-4o for object detection...`);
-
-        const completion = await openai.chat.completions.create({
-            model: 'gpt-4o',
-            max_tokens: 1500,
-            temperature: 0.2,
-            messages: [
-                { role: 'system', content: DETECTION_PROMPT },
-                {
-                    role: 'user',
-                    content: [
-                        { type: 'text', text: 'Detect all objects in this photo.' },
-                        { type: 'image_url', image_url: { url: dataUrl, detail: 'high' } },
-                    ],
-                },
-            ],
-        });
-
-        const raw = completion.choices?.[0]?.message?.content;
-        if (!raw) {
-            console.error(`[${timestamp}] request=${requestId} empty AI response`);
-            res.status(502).json({ error: 'Empty response from AI' });
+    /**
+     * Take one upload token for the client, before the body is even read.
+     * Over the limit → 429 with Retry-After.
+     */
+    function rateLimitUploads(req: Request, res: Response, next: NextFunction) {
+        const client = clientKey(config.rateLimit, req.headers['x-api-key'], req.ip);
+        const admission = limiter.take(client);
+        if (!admission.ok) {
+            requestLog(res).warn('rate limited', { client, retry_after: admission.retryAfterSeconds });
+            res.setHeader('Retry-After', String(admission.retryAfterSeconds));
+            res.status(429).json(apiError('RATE_LIMITED', 'Too many uploads. Try again shortly.', {
+                retry_after: admission.retryAfterSeconds,
+            }));
             return;
         }
+        next();
+    }
+
+    // Configure multer to store files in memory (no disk storage), with the
+    // limits the Vercel functions' parser enforces too (see multipartUpload.ts)
+    const limits = uploadLimits(config);
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: {
+            fileSize: limits.fileSize,
+            fields: limits.fields,
+            fieldSize: limits.fieldSize,
+        },
+        fileFilter: (_req, file, cb) => {
+            // Accept only the declared types of IMAGE_TYPES
+            if (isImageType(file.mimetype)) {
+                cb(null, true);
+            } else {
+                cb(new UnsupportedImageError());
+            }
+        },
+    });
 
-        console.log(`[${timestamp}] request=${requestId} AI detection done (${raw.length} chars)`);
+    const fail = (res: Response, failure: UploadFailure) => res.status(failure.status).json(failure.body);
 
-        // Strip markdown fences if present
-        let cleaned = raw.trim();
-        if (cleaned.startsWith('```')) {
-            cleaned = cleaned.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?\s*```$/, '');
+    /**
+     * Reject photos whose bytes aren't JPEG, PNG or WebP, whatever their
+     * declared type; the others get the type their bytes show.
+     */
+    function checkImageBytes(req: Request, res: Response, next: NextFunction) {
+        for (const file of (req.files as Express.Multer.File[] | undefined) ?? []) {
+            const mimetype = sniffImageType(file.buffer);
+            if (!mimetype) {
+                fail(res, uploadFailures.notAnImage());
+                return;
+            }
+            file.mimetype = mimetype;
         }
+        next();
+    }
+
+    const sceneRouter = Router();
+
+    /**
+     * POST /api/scene
+     * Accepts multipart/form-data with an "image" field and optional
+     * "strategy" (layout strategy, e.g. "photo"), "difficulty" and "seed" fields
+     * 1) AI detects objects in the photo
+     * 2) Deterministic level builder creates a playable SceneV1
+     *
+     * Repeating "image" 2–4 times builds one horizontally scrolling level with
+     * a segment per photo (detections run in parallel).
+     *
+     * Rate limited per client; AI calls share a global concurrency cap.
+     *
+     * With `Accept: text/event-stream` the stages are streamed as Server-Sent
+     * Events, ending in a `done` event with the usual body (see sceneProgress.ts).
+     */
+    sceneRouter.post('/', logRequests('scene'), countAnswers('scene'), rateLimitUploads, upload.array('image', limits.files), checkImageBytes, async (req: Request, res: Response) => {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const log = requestLog(res);
 
-        let detections: DetectionResponse;
-        try {
-            detections = JSON.parse(cleaned) as DetectionResponse;
-        } catch (parseErr) {
-            console.error(`[${timestamp}] request=${requestId} JSON parse error:`, parseErr);
-            console.error(`[${timestamp}] request=${requestId} raw:`, raw);
-            res.status(502).json({
-                error: 'AI returned invalid JSON',
-                details: parseErr instanceof Error ? parseErr.message : 'Unknown parse error',
-                raw: raw.substring(0, 500),
-            });
+        // Progress events when the client asked for a stream, plain JSON otherwise
+        const progress = startSceneProgress(req, res);
+        progress.stage('received');
+
+        if (files.length === 0) {
+            log.info('no image');
+            const body = apiError('NO_IMAGE', 'No image file provided. Send a multipart/form-data request with field name "image".');
+            metrics.request('scene', 400, body);
+            progress.finish(400, body);
             return;
         }
 
-        // Validate detections structure minimally
-        if (!detections.image || !Array.isArray(detections.detections)) {
-            console.error(`[${timestamp}] request=${requestId} invalid detection structure`);
-            res.status(502).json({ error: 'AI returned unexpected structure' });
+        for (const file of files) {
+            log.info('received image', { size: file.size, type: file.mimetype });
+        }
+
+        // DETECTION_PROMPT_VERSION, or the version the request asks for (x-prompt-version)
+        const fields = req.body ?? {};
+        const prompt = selectPrompt(config.promptVersion, req.headers, fields);
+        if (!prompt.ok) {
+            metrics.request('scene', prompt.status, prompt.body);
+            progress.finish(prompt.status, prompt.body);
             return;
         }
 
-        console.log(`[${timestamp}] request=${requestId} detected ${detections.detections.length} objects, building level...`);
+        const result = await generateScene(provider, { images: files, fields, prompt: prompt.value }, log, progress.stage, progress.signal);
+        metrics.request('scene', result.status, result.body);
+        metrics.photos(result.photos ?? []);
+        progress.finish(result.status, withoutDebug(result.body, debugRequest(req)), result.headers);
+    });
 
-        // === Deterministic level builder ===
-        const scene = buildLevel(detections);
+    /**
+     * POST /api/scene/jobs
+     * Same upload as POST /api/scene, but answers 202 with a job at once and
+     * generates the scene in the background (see sceneJobs.ts).
+     *
+     * GET /api/scene/jobs/:id
+     * The job's status and latest stage, then its result or error.
+     */
+    sceneRouter.post('/jobs', logRequests('jobs'), countAnswers('jobs'), rateLimitUploads, upload.array('image', limits.files), checkImageBytes, (req: Request, res: Response) => {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const log = requestLog(res);
 
-        console.log(`[${timestamp}] request=${requestId} level built: ${scene.objects.length} objects, ${scene.spawns.pickups.length} pickups, ${scene.spawns.enemies.length} enemies`);
+        if (files.length === 0) {
+            log.info('no image');
+            res.status(400).json(apiError('NO_IMAGE', 'No image file provided. Send a multipart/form-data request with field name "image".'));
+            return;
+        }
+        const fields = req.body ?? {};
+        const prompt = selectPrompt(config.promptVersion, req.headers, fields);
+        if (!prompt.ok) {
+            res.status(prompt.status).json(prompt.body);
+            return;
+        }
 
-        // Return scene + AI-generated names + raw AI detections for developer mode
-        res.json({
-            ...scene,
-            player_name: detections.player_name || 'happy-little-adventurer',
-            level_name: detections.level_name || 'Mystery Level',
-            _debug: {
-                raw_ai_response: cleaned,
-                detections,
-            },
+        // The job outlives the request, so its lines carry the job id too (known once
+        // submit() returns, which is before the work starts)
+        let jobLog = log;
+        const job = jobs.submit(async (onStage) => {
+            const result = await generateScene(provider, { images: files, fields, prompt: prompt.value }, jobLog, onStage);
+            if (result.status >= 400) metrics.failure('jobs', result.body);
+            metrics.photos(result.photos ?? []);
+            return result;
         });
+        if (!job) {
+            log.warn('job store full', { jobs: jobs.size });
+            res.setHeader('Retry-After', String(JOBS_FULL_RETRY_SECONDS));
+            res.status(503).json(apiError('SERVER_BUSY', 'Server busy. Try again shortly.', { retry_after: JOBS_FULL_RETRY_SECONDS }));
+            return;
+        }
+
+        jobLog = log.child({ job_id: job.id });
+        jobLog.info('job queued', { photos: files.length });
+        res.setHeader('Location', `${req.baseUrl}/jobs/${job.id}`);
+        res.status(202).json(job);
+    });
+
+    sceneRouter.get('/jobs/:id', logRequests('jobs'), (req: Request, res: Response) => {
+        const job = jobs.get(String(req.params.id));
+        if (!job) {
+            res.status(404).json(apiError('JOB_NOT_FOUND', 'Job not found or expired'));
+            return;
+        }
+        res.setHeader('Cache-Control', 'no-store');
+        res.json(jobWithoutDebug(job, debugRequest(req)));
+    });
 
-    } catch (err: unknown) {
-        const apiErr = err as { status?: number; message?: string };
-        console.error(`[${timestamp}] request=${requestId} error:`, apiErr.message || err);
+    // Error handling middleware for multer errors
+    sceneRouter.use((err: Error, _req: Request, res: Response, _next: Function) => {
+        if (err instanceof multer.MulterError) {
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                fail(res, uploadFailures.tooLarge(limits));
+                return;
+            }
+            if (err.code === 'LIMIT_UNEXPECTED_FILE') {
+                fail(res, err.field === 'image' ? uploadFailures.tooMany(limits) : uploadFailures.invalid(`Unexpected file field "${err.field}"`));
+                return;
+            }
+            fail(res, uploadFailures.invalid(err.message));
+            return;
+        }
 
-        if (apiErr.status === 429) {
-            res.status(429).json({ error: 'Rate limited by AI provider. Try again shortly.' });
+        if (err instanceof UnsupportedImageError) {
+            fail(res, uploadFailures.notAnImage());
             return;
         }
 
-        res.status(500).json({
-            error: 'AI processing failed',
-            details: apiErr.message || 'Unknown error',
+        requestLog(res).error('server error', { err });
+        res.status(500).json(apiError('INTERNAL_ERROR', 'Internal server error'));
+    });
+
+    /**
+     * POST /api/scene/rebuild
+     * JSON body: { detections, seed?, strategy?, difficulty? }
+     * Rebuilds a level from stored detections (the `detections` of an
+     * earlier /api/scene response — an array for multi-photo levels) without
+     * calling the AI. Omitting the seed draws a fresh one, i.e. "reroll layout".
+     * The detections are post-processed again with the current settings.
+     */
+    sceneRouter.post('/rebuild', logRequests('rebuild'), countAnswers('rebuild'), (req: Request, res: Response) => {
+        const log = requestLog(res);
+
+        const parsed = parseRebuildRequest(req.body);
+        if (!parsed.ok) {
+            log.info('invalid rebuild request', { error: parsed.error });
+            res.status(400).json(apiError('INVALID_REBUILD_REQUEST', `Invalid rebuild request: ${parsed.error}`));
+            return;
+        }
+
+        const { options } = parsed.value;
+        const stored = Array.isArray(parsed.value.detections) ? parsed.value.detections : [parsed.value.detections];
+        const processed = stored.map((d) => (config.postprocess ? postprocessDetections(d, config.postprocess) : { detections: d }));
+        const detections = processed.map((p) => p.detections);
+        const debugDetections = processed.map((p) => ('postprocess' in p ? { ...p.detections, postprocess: p.postprocess } : p.detections));
+
+        const buildOptions = { ...options, seed: options.seed ?? randomSeed() };
+        const built = detections.length > 1
+            ? buildStitchedLevel(detections, buildOptions)
+            : buildLevel(detections[0], buildOptions);
+        const names = detections[0];
+        const { scene, path, repairs } = built;
+
+        for (const event of built.events) log[event.level](event.msg, event.fields);
+        log.info('level rebuilt', {
+            objects: scene.objects.length,
+            path_steps: path.length,
+            repairs,
+            seed: built.seed,
+            strategy: built.strategy,
         });
-    }
-});
 
-// Error handling middleware for multer errors
-sceneRouter.use((err: Error, _req: Request, res: Response, _next: Function) => {
-    if (err instanceof multer.MulterError) {
-        if (err.code === 'LIMIT_FILE_SIZE') {
-            res.status(413).json({ error: 'File too large. Maximum size is 10MB.' });
+        const checked = parseSceneV1(scene);
+        if (!checked.ok) {
+            log.error('rebuilt level failed validation', { errors: checked.errors });
+            res.status(500).json(withoutDebug(
+                apiError('LEVEL_INVALID', 'Built level failed validation', { _debug: { issues: checked.issues } }),
+                debugRequest(req),
+            ));
             return;
         }
-        res.status(400).json({ error: err.message });
-        return;
-    }
-    
-    if (err.message === 'Only image files are allowed') {
-        res.status(415).json({ error: err.message });
-        return;
-    }
 
-    console.error('Server error:', err);
-    res.status(500).json({ error: 'Internal server error' });
-});
+        res.json(withoutDebug({
+            ...checked.data,
+            player_name: names.player_name || 'happy-little-adventurer',
+            level_name: names.level_name || 'Mystery Level',
+            seed: built.seed,
+            strategy: built.strategy,
+            builder_version: BUILDER_VERSION,
+            detections: stored.length > 1 ? stored : stored[0],
+            _debug: {
+                detections: debugDetections.length > 1 ? debugDetections : debugDetections[0],
+                reachability: { path, repairs },
+            },
+        }, debugRequest(req)));
+    });
+
+    return { ok: true, value: sceneRouter };
+}
@@ -0,0 +1,107 @@
+/**
+ * SCENE JOB TESTS
+ * ================
+ *
+ * The in-process job store: running the scene pipeline in the background,
+ * stage reporting, failures, expiry and the size cap.
+ *
+ * Run: npm test
+ */
+
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { createSceneJobConfig, createSceneJobStore, type SceneJobStore } from './sceneJobs';
+import { generateScene } from './scenePipeline';
+import { fixtureProvider } from './detectionProviders';
+import { jobWithoutDebug } from './apiErrors';
+import { parseRebuildRequest } from './levelBuilder';
+import { createLogger } from './logger';
+import type { SceneJob } from '../src/shared/types/SceneJob';
+
+const log = createLogger({ level: 'warn', format: 'pretty' });
+
+const image = (bytes: string) => ({ buffer: Buffer.from(bytes), mimetype: 'image/jpeg' });
+
+const fixtures = fixtureProvider(path.join(__dirname, 'fixtures/detections'));
+
+/** Poll the store until the job has finished */
+async function settled(store: SceneJobStore, id: string): Promise<SceneJob | undefined> {
+    for (let i = 0; i < 100; i++) {
+        const job = store.get(id);
+        if (!job || job.status === 'done' || job.status === 'failed') return job;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error('job never finished');
+}
+
+// ============================================================
+//  Running jobs
+// ============================================================
+
+describe('createSceneJobStore', () => {
+    it('runs the pipeline in the background and keeps the result', async () => {
+        const store = createSceneJobStore({ ttlMs: 60_000, maxJobs: 10 });
+        const job = store.submit((onStage) =>
+            generateScene(fixtures, { images: [image('photo')], fields: { seed: '7' } }, log, onStage));
+
+        expect(job).toMatchObject({ status: 'queued', stage: null });
+        expect(job?.id).toMatch(/^job_[\w-]{16}$/);
+
+        const done = await settled(store, job!.id);
+        expect(done?.status).toBe('done');
+        expect(done?.stage).toEqual({ stage: 'done' });
+        expect(done?.result).toMatchObject({ version: 1, seed: 7, prompt: { id: 'detection@1+naming@1' } });
+    });
+
+    it('keeps the detections to reroll from outside `_debug`', async () => {
+        const store = createSceneJobStore({ ttlMs: 60_000, maxJobs: 10 });
+        const job = store.submit((onStage) =>
+            generateScene(fixtures, { images: [image('photo')], fields: {} }, log, onStage));
+
+        const { result } = jobWithoutDebug((await settled(store, job!.id))!, false);
+        expect(result).not.toHaveProperty('_debug');
+        expect(parseRebuildRequest({ detections: result?.detections }).ok).toBe(true);
+    });
+
+    it('records the error status and body of a failed job', async () => {
+        const store = createSceneJobStore({ ttlMs: 60_000, maxJobs: 10 });
+        const offline = fixtureProvider(path.join(__dirname, 'no-such-dir'));
+        const job = store.submit((onStage) =>
+            generateScene(offline, { images: [image('photo')], fields: {} }, log, onStage));
+
+        const failed = await settled(store, job!.id);
+        expect(failed?.status).toBe('failed');
+        expect(failed?.stage).toEqual({ stage: 'validating' });
+        expect(failed?.error).toMatchObject({ status: 404, error: 'No recorded detections for this image' });
+    });
+
+    it('turns a crashed job into a 500', async () => {
+        const store = createSceneJobStore({ ttlMs: 60_000, maxJobs: 10 });
+        const job = store.submit(() => Promise.reject(new Error('boom')));
+        expect((await settled(store, job!.id))?.error).toMatchObject({ status: 500, code: 'JOB_FAILED', _debug: { details: 'boom' } });
+    });
+
+    it('forgets expired jobs and refuses new ones when full', async () => {
+        const store = createSceneJobStore({ ttlMs: 1_000, maxJobs: 1 });
+        const never = () => new Promise<never>(() => {});
+        const job = store.submit(never)!;
+
+        expect(store.submit(never)).toBeUndefined();
+        expect(store.get(job.id, Date.now() + 2_000)).toBeUndefined();
+        expect(store.submit(never, Date.now() + 2_000)).toBeDefined();
+        expect(store.size).toBe(1);
+        expect(store.get('job_unknown')).toBeUndefined();
+    });
+});
+
+// ============================================================
+//  Configuration
+// ============================================================
+
+describe('createSceneJobConfig', () => {
+    it('uses the defaults and rejects bad numbers', () => {
+        expect(createSceneJobConfig({})).toEqual({ ok: true, value: { ttlMs: 900_000, maxJobs: 100 } });
+        expect(createSceneJobConfig({ SCENE_JOB_MAX: '5' })).toEqual({ ok: true, value: { ttlMs: 900_000, maxJobs: 5 } });
+        expect(createSceneJobConfig({ SCENE_JOB_TTL_MS: '0' }).ok).toBe(false);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * SCENE JOBS
+ * ===========
+ *
+ * In-process store for the asynchronous job API (POST /api/scene/jobs,
+ * GET /api/scene/jobs/:id; see src/shared/types/SceneJob.ts).
+ *
+ * submit() starts the work right away and returns the job; the work keeps
+ * its stage and result up to date in the store. Jobs are forgotten
+ * SCENE_JOB_TTL_MS after their last update, and at most SCENE_JOB_MAX are
+ * kept, so a flood of submissions can't grow the store without bound.
+ *
+ * Ids are random and unguessable: anyone holding one can read the level.
+ *
+ * The store lives in the server process: on Vercel that means one warm
+ * instance, so a poll may reach an instance that never saw the job (404).
+ */
+
+import { randomBytes } from 'crypto';
+import { apiError } from './apiErrors';
+import type { SceneResult } from './scenePipeline';
+import type { SceneProgress } from './sceneProgress';
+import type { SceneJob } from '../src/shared/types/SceneJob';
+
+export interface SceneJobStore {
+    /** Start `work` as a new job, or undefined when the store is full. */
+    submit(work: (onStage: SceneProgress['stage']) => Promise<SceneResult>, now?: number): SceneJob | undefined;
+    /** The job, unless unknown or expired */
+    get(id: string, now?: number): SceneJob | undefined;
+    /** Jobs kept right now (expired ones included until the next prune) */
+    readonly size: number;
+}
+
+export interface SceneJobConfig {
+    /** How long a job is kept after its last update (ms) */
+    ttlMs: number;
+    /** Most jobs kept at once */
+    maxJobs: number;
+}
+
+export const DEFAULT_SCENE_JOBS: SceneJobConfig = {
+    ttlMs: 15 * 60_000,
+    maxJobs: 100,
+};
+
+export function createSceneJobStore(config: SceneJobConfig): SceneJobStore {
+    const { ttlMs, maxJobs } = config;
+    const jobs = new Map<string, SceneJob>();
+
+    const touch = (job: SceneJob, patch: Partial<SceneJob>) => {
+        const now = Date.now();
+        Object.assign(job, patch, {
+            updated_at: new Date(now).toISOString(),
+            expires_at: new Date(now + ttlMs).toISOString(),
+        });
+    };
+
+    const prune = (now: number) => {
+        for (const [id, job] of jobs) {
+            if (Date.parse(job.expires_at) <= now) jobs.delete(id);
+        }
+    };
+
+    return {
+        get size() { return jobs.size; },
+
+        submit(work, now = Date.now()) {
+            prune(now);
+            if (jobs.size >= maxJobs) return undefined;
+
+            const job: SceneJob = {
+                id: `job_${randomBytes(12).toString('base64url')}`,
+                status: 'queued',
+                stage: null,
+                created_at: new Date(now).toISOString(),
+                updated_at: new Date(now).toISOString(),
+                expires_at: new Date(now + ttlMs).toISOString(),
+            };
+            jobs.set(job.id, job);
+
+            // Run after submit() returns, so the caller can answer first
+            setImmediate(() => {
+                touch(job, { status: 'running' });
+                work((stage, detail) => touch(job, { stage: { stage, ...detail } }))
+                    .then(({ status, body }) => {
+                        if (status < 400) {
+                            touch(job, { status: 'done', stage: { stage: 'done' }, result: body });
+                        } else {
+                            touch(job, { status: 'failed', error: { status, error: String(body.error ?? 'Failed'), ...body } });
+                        }
+                    })
+                    .catch((err: unknown) => {
+                        touch(job, {
+                            status: 'failed',
+                            error: {
+                                status: 500,
+                                ...apiError('JOB_FAILED', 'Scene job failed', {
+                                    _debug: { details: err instanceof Error ? err.message : String(err) },
+                                }),
+                            },
+                        });
+                    });
+            });
+
+            return job;
+        },
+
+        get(id, now = Date.now()) {
+            const job = jobs.get(id);
+            if (!job || Date.parse(job.expires_at) <= now) return undefined;
+            return job;
+        },
+    };
+}
+
+/**
+ * Read the job limits from the environment.
+ *
+ * Environment:
+ *   SCENE_JOB_TTL_MS  how long a job is kept after its last update (default 900000)
+ *   SCENE_JOB_MAX     most jobs kept at once (default 100)
+ */
+export function createSceneJobConfig(
+    env: Record<string, string | undefined>,
+): { ok: true; value: SceneJobConfig } | { ok: false; error: string } {
+    const settings = [
+        ['SCENE_JOB_TTL_MS', 'ttlMs'],
+        ['SCENE_JOB_MAX', 'maxJobs'],
+    ] as const;
+
+    const value: SceneJobConfig = { ...DEFAULT_SCENE_JOBS };
+    for (const [name, field] of settings) {
+        const setting = env[name]?.trim();
+        if (!setting) continue;
+        const n = Number(setting);
+        if (!Number.isInteger(n) || n < 1) {
+            return { ok: false, error: `${name} must be a positive integer` };
+        }
+        value[field] = n;
+    }
+    return { ok: true, value };
+}
@@ -0,0 +1,325 @@
+/**
+ * SCENE PIPELINE
+ * ===============
+ *
+ * Photos in, SceneV1 response out: detect objects in every photo (in
+ * parallel), build the level, validate it against the shared schema. What
+ * /api/scene answers, whether directly, as a progress stream, or as the
+ * result of a background job (see sceneJobs.ts).
+ *
+ * The result is a status, body and headers rather than a response, so the
+ * caller decides how to deliver it, and whether with its `_debug` (see
+ * apiErrors.ts). Errors use the envelope of src/shared/types/ApiError.ts. Stages are reported through `onStage`
+ * (see src/shared/types/SceneProgress.ts), and `signal` aborts the AI calls
+ * when the client has disconnected.
+ *
+ * What the detections took (tokens, model time, retries) is reported per
+ * photo in `_debug.usage` and, summed up with the stage durations, in a
+ * Server-Timing header:
+ *
+ *   Server-Timing: detect;dur=2310, tokens;desc="1203 prompt + 312 completion", build;dur=14, total;dur=2330
+ *
+ * The level records the prompt the detections were asked with (`prompt`:
+ * id and hash, see detectionPrompts.ts), so level quality can be compared
+ * across prompt versions; `_debug.prompt` adds its version and locale.
+ *
+ * Every run ends with a "scene finished" log line: status, error code,
+ * prompt and the time spent in each stage.
+ */
+
+import {
+    BUILDER_VERSION,
+    buildLevel,
+    buildStitchedLevel,
+    isLayoutStrategy,
+    parseDifficulty,
+    parseSeed,
+} from './levelBuilder';
+import { apiError } from './apiErrors';
+import type { Logger } from './logger';
+import { CACHE_HEADER } from './detectionCache';
+import type { DetectionPrompt } from './detectionPrompts';
+import {
+    DEFAULT_PROMPT,
+    type CacheStatus,
+    type DetectionImage,
+    type DetectionOutcome,
+    type DetectionProvider,
+} from './detectionProviders';
+import { upstreamRetryAfter } from './rateLimit';
+import type { SceneProgress } from './sceneProgress';
+import { parseSceneV1 } from '../src/shared/schema/scene_v1.schema';
+import type { DetectionUsage } from '../src/shared/types/Detection';
+import type { SceneStage } from '../src/shared/types/SceneProgress';
+
+export interface SceneRequest {
+    /** 1 photo, or 2–4 for a stitched level, in order */
+    images: DetectionImage[];
+    /** Optional "strategy", "difficulty", "seed" and "locale" form fields */
+    fields: Record<string, unknown>;
+    /** What to ask the model (see selectPrompt()); default DEFAULT_PROMPT */
+    prompt?: DetectionPrompt;
+}
+
+/** The response to send: a 200 with the scene, or an error */
+export interface SceneResult {
+    status: number;
+    body: Record<string, unknown>;
+    headers: Record<string, string>;
+    /** What each photo's detection took, once detection has run (for metrics.ts) */
+    photos?: PhotoAccounting[];
+}
+
+export interface PhotoAccounting {
+    usage?: DetectionUsage;
+    cache?: CacheStatus;
+}
+
+/** One Server-Timing metric: a duration (ms) and/or a description */
+interface TimingEntry {
+    name: string;
+    dur?: number;
+    desc?: string;
+}
+
+/** Status logged (and "answered") when the client went away mid-pipeline */
+export const CLIENT_CLOSED_STATUS = 499;
+
+/** A Server-Timing header value */
+function serverTiming(entries: TimingEntry[]): string {
+    return entries
+        .map(({ name, dur, desc }) => [
+            name,
+            ...(dur !== undefined ? [`dur=${Math.round(dur)}`] : []),
+            ...(desc !== undefined ? [`desc="${desc}"`] : []),
+        ].join(';'))
+        .join(', ');
+}
+
+/** The Server-Timing entries for the photos' token usage, if any was reported */
+function tokenTiming(photos: PhotoAccounting[]): TimingEntry[] {
+    const usages = photos.flatMap((p) => (p.usage ? [p.usage] : []));
+    if (usages.length === 0) return [];
+    const prompt = usages.reduce((sum, u) => sum + u.prompt_tokens, 0);
+    const completion = usages.reduce((sum, u) => sum + u.completion_tokens, 0);
+    return [{ name: 'tokens', desc: `${prompt} prompt + ${completion} completion` }];
+}
+
+/**
+ * Run the pipeline for one upload. Never throws: provider errors become
+ * a 429 (with the provider's Retry-After) or a 500, and an abort a 499.
+ * `log` is the request's logger.
+ */
+export async function generateScene(
+    provider: DetectionProvider,
+    request: SceneRequest,
+    log: Logger,
+    onStage: SceneProgress['stage'] = () => {},
+    signal?: AbortSignal,
+): Promise<SceneResult> {
+    const started = Date.now();
+    const stageMs: Partial<Record<SceneStage, number>> = {};
+    let current: { stage: SceneStage; since: number } | undefined;
+    const endStage = (now: number) => {
+        if (current) stageMs[current.stage] = (stageMs[current.stage] ?? 0) + now - current.since;
+    };
+
+    const result = await runScene(provider, request, log, (stage, detail) => {
+        if (current?.stage !== stage) {
+            const now = Date.now();
+            endStage(now);
+            current = { stage, since: now };
+        }
+        onStage(stage, detail);
+    }, signal);
+
+    const finished = Date.now();
+    endStage(finished);
+    const code = result.status >= 400 ? result.body.code : undefined;
+    (result.status >= 500 ? log.error : log.info)('scene finished', {
+        status: result.status,
+        code,
+        prompt: (request.prompt ?? DEFAULT_PROMPT).id,
+        photos: request.images.length,
+        stage_ms: stageMs,
+        duration_ms: finished - started,
+    });
+    return result;
+}
+
+async function runScene(
+    provider: DetectionProvider,
+    { images, fields, prompt = DEFAULT_PROMPT }: SceneRequest,
+    log: Logger,
+    onStage: SceneProgress['stage'],
+    signal?: AbortSignal,
+): Promise<SceneResult> {
+    const started = Date.now();
+    try {
+        // === AI: Detect objects in every photo ===
+        // Preprocessing runs inside detect() (withImagePreprocessing()), which
+        // reports each photo's stages: the scene is preprocessing until every
+        // photo has been handed to the model (or has already failed).
+        const total = images.length;
+        const handedOver = new Set<number>();
+        let preprocessing = false;
+        let completed = 0;
+        const handOver = (i: number) => {
+            if (handedOver.has(i)) return;
+            handedOver.add(i);
+            if (handedOver.size === total) onStage('detecting', { completed, total });
+        };
+        const outcomes = await Promise.all(images.map(async (image, i) => {
+            const outcome = await provider.detect(image, total > 1 ? log.child({ photo: i + 1 }) : log, signal, prompt, (stage) => {
+                if (stage === 'detecting') handOver(i);
+                else if (!preprocessing) {
+                    preprocessing = true;
+                    onStage('preprocessing');
+                }
+            });
+            completed++;
+            if (!handedOver.has(i)) handOver(i);
+            else if (handedOver.size === total) onStage('detecting', { completed, total });
+            return outcome;
+        }));
+        const detected = Date.now();
+        const photos: PhotoAccounting[] = outcomes.map((o) => ({
+            ...(o.usage && { usage: o.usage }),
+            ...(o.ok && o.cache && { cache: o.cache }),
+        }));
+        const timing: TimingEntry[] = [{ name: 'detect', dur: detected - started }, ...tokenTiming(photos)];
+
+        if (signal?.aborted) {
+            log.info('client disconnected, skipping the build');
+            return { status: CLIENT_CLOSED_STATUS, body: apiError('CLIENT_CLOSED', 'Client closed request'), headers: {}, photos };
+        }
+
+        onStage('validating');
+        const results: Extract<DetectionOutcome, { ok: true }>[] = [];
+        for (const outcome of outcomes) {
+            if (!outcome.ok) {
+                return {
+                    status: outcome.status,
+                    body: outcome.body,
+                    headers: {
+                        ...(outcome.retryAfterSeconds && { 'Retry-After': String(outcome.retryAfterSeconds) }),
+                        'Server-Timing': serverTiming(timing),
+                    },
+                    photos,
+                };
+            }
+            results.push(outcome);
+        }
+
+        const detections = results.map((r) => r.detections);
+        const names = detections[0];
+        // What /api/scene/rebuild takes to reroll the level: the detections before post-processing
+        const rerollDetections = results.map((r) => (r.postprocess ? { ...r.detections, detections: r.postprocess.before } : r.detections));
+        // What the builder got, with what preprocessing read and post-processing changed to get there
+        const debugDetections = results.map((r) => ({
+            ...r.detections,
+            ...(r.preprocess && { preprocess: r.preprocess }),
+            ...(r.postprocess && { postprocess: r.postprocess }),
+        }));
+
+        log.info('building level', { photos: detections.length });
+        onStage('building');
+
+        // === Deterministic level builder ===
+        const strategy = isLayoutStrategy(fields.strategy) ? fields.strategy : undefined;
+        const difficulty = parseDifficulty(fields.difficulty);
+        const seed = parseSeed(fields.seed);
+        const built = detections.length > 1
+            ? buildStitchedLevel(detections, { strategy, difficulty, seed })
+            : buildLevel(names, { strategy, difficulty, seed });
+        const { scene, path, repairs } = built;
+
+        for (const event of built.events) log[event.level](event.msg, event.fields);
+        log.info('level built', {
+            objects: scene.objects.length,
+            pickups: scene.spawns.pickups.length,
+            enemies: scene.spawns.enemies.length,
+            segments: detections.length,
+            path_steps: path.length,
+            repairs,
+            seed: built.seed,
+            strategy: built.strategy,
+        });
+
+        // === Validate against the shared schema (catches builder drift) ===
+        const checked = parseSceneV1(scene);
+        if (!checked.ok) {
+            log.error('built level failed validation', { errors: checked.errors });
+            return {
+                status: 500,
+                body: apiError('LEVEL_INVALID', 'Built level failed validation', { _debug: { issues: checked.issues } }),
+                headers: {},
+                photos,
+            };
+        }
+
+        // Cache hit / miss per photo (no header when caching is off)
+        const headers: Record<string, string> = {};
+        if (results.every((r) => r.cache)) {
+            headers[CACHE_HEADER] = results.map((r) => (r.cache?.hit ? 'hit' : 'miss')).join(', ');
+        }
+        const finished = Date.now();
+        headers['Server-Timing'] = serverTiming([
+            ...timing,
+            { name: 'build', dur: finished - detected },
+            { name: 'total', dur: finished - started },
+        ]);
+
+        // Scene + AI-generated names + build and prompt provenance + detections to reroll from + raw AI detections for developer mode
+        return {
+            status: 200,
+            body: {
+                ...checked.data,
+                player_name: names.player_name || 'happy-little-adventurer',
+                level_name: names.level_name || 'Mystery Level',
+                seed: built.seed,
+                strategy: built.strategy,
+                builder_version: BUILDER_VERSION,
+                prompt: { id: prompt.id, hash: prompt.hash },
+                detections: detections.length > 1 ? rerollDetections : rerollDetections[0],
+                _debug: {
+                    prompt: { id: prompt.id, hash: prompt.hash, version: prompt.version, locale: prompt.locale },
+                    raw_ai_response: detections.length > 1
+                        ? `[${results.map((r) => r.cleaned).join(',')}]`
+                        : results[0].cleaned,
+                    detections: detections.length > 1 ? debugDetections : debugDetections[0],
+                    validation: detections.length > 1 ? results.map((r) => r.validation) : results[0].validation,
+                    cache: detections.length > 1 ? results.map((r) => r.cache ?? null) : results[0].cache ?? null,
+                    usage: detections.length > 1 ? results.map((r) => r.usage ?? null) : results[0].usage ?? null,
+                    reachability: { path, repairs },
+                },
+            },
+            headers,
+            photos,
+        };
+
+    } catch (err: unknown) {
+        if (signal?.aborted) {
+            log.info('client disconnected, AI call aborted');
+            return { status: CLIENT_CLOSED_STATUS, body: apiError('CLIENT_CLOSED', 'Client closed request'), headers: {} };
+        }
+
+        const apiErr = err as { status?: number; message?: string };
+        log.error('scene pipeline failed', { err });
+
+        if (apiErr.status === 429) {
+            const retryAfter = upstreamRetryAfter(err);
+            return {
+                status: 429,
+                body: apiError('AI_RATE_LIMITED', 'Rate limited by AI provider. Try again shortly.', { retry_after: retryAfter }),
+                headers: retryAfter ? { 'Retry-After': String(retryAfter) } : {},
+            };
+        }
+
+        return {
+            status: 500,
+            body: apiError('AI_FAILED', 'AI processing failed', { _debug: { details: apiErr.message || 'Unknown error' } }),
+            headers: {},
+        };
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * SCENE PROGRESS TESTS
+ * =====================
+ *
+ * Streamed and plain JSON answers from the same handler code (against a
+ * local server), and splitting a stream into frames.
+ *
+ * Run: npm test
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { startSceneProgress, wantsSceneStream } from './sceneProgress';
+import { SCENE_EVENT_STREAM, splitSceneFrames } from '../src/shared/types/SceneProgress';
+
+// ============================================================
+//  Responses
+// ============================================================
+
+describe('startSceneProgress', () => {
+    let server: Server;
+    let url = '';
+    let hangAborted: () => void = () => {};
+
+    beforeAll(async () => {
+        // Reports two stages, then succeeds, or fails when the path says so.
+        // /hang never answers, and records when it notices the client left.
+        server = createServer((req, res) => {
+            const progress = startSceneProgress(req, res);
+            if (req.url === '/hang') {
+                progress.signal.addEventListener('abort', () => hangAborted());
+                return;
+            }
+            progress.stage('received');
+            progress.stage('detecting', { completed: 1, total: 2 });
+            if (req.url === '/fail') {
+                progress.finish(503, { error: 'Server busy. Try again shortly.', retry_after: 5 }, { 'Retry-After': '5' });
+            } else {
+                progress.finish(200, { level_name: 'Kitchen' }, { 'X-Detection-Cache': 'miss' });
+            }
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    it('answers plain JSON with its headers when no stream is asked for', async () => {
+        const response = await fetch(`${url}/fail`);
+        expect(response.status).toBe(503);
+        expect(response.headers.get('Retry-After')).toBe('5');
+        expect(await response.json()).toEqual({ error: 'Server busy. Try again shortly.', retry_after: 5 });
+    });
+
+    it('streams the stages, then the body as a done event', async () => {
+        const response = await fetch(url, { headers: { Accept: SCENE_EVENT_STREAM } });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe(SCENE_EVENT_STREAM);
+        expect(response.headers.get('X-Detection-Cache')).toBeNull();
+
+        const { frames, rest } = splitSceneFrames(await response.text());
+        expect(rest).toBe('');
+        expect(frames.map((f) => [f.event, JSON.parse(f.data)])).toEqual([
+            ['stage', { stage: 'received' }],
+            ['stage', { stage: 'detecting', completed: 1, total: 2 }],
+            ['done', { level_name: 'Kitchen' }],
+        ]);
+    });
+
+    it('aborts the signal when the client disconnects first', async () => {
+        const aborted = new Promise<void>((resolve) => { hangAborted = resolve; });
+        const client = new AbortController();
+        const request = fetch(`${url}/hang`, { signal: client.signal }).catch(() => 'cancelled');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        client.abort();
+        expect(await request).toBe('cancelled');
+        await aborted;
+    });
+
+    it('streams a failure as an error event with its status', async () => {
+        const response = await fetch(`${url}/fail`, { headers: { Accept: SCENE_EVENT_STREAM } });
+        const { frames } = splitSceneFrames(await response.text());
+        expect(frames[frames.length - 1]).toEqual({
+            event: 'error',
+            data: JSON.stringify({ status: 503, error: 'Server busy. Try again shortly.', retry_after: 5 }),
+        });
+    });
+});
+
+describe('wantsSceneStream', () => {
+    it('looks for the event-stream type among the accepted ones', () => {
+        expect(wantsSceneStream('text/event-stream, application/json')).toBe(true);
+        expect(wantsSceneStream('application/json;q=0.9, text/event-stream;q=1')).toBe(true);
+        expect(wantsSceneStream('*/*')).toBe(false);
+        expect(wantsSceneStream(undefined)).toBe(false);
+    });
+});
+
+// ============================================================
+//  Wire format
+// ============================================================
+
+describe('splitSceneFrames', () => {
+    it('keeps an unfinished frame for the next chunk', () => {
+        const first = splitSceneFrames('event: stage\ndata: {"stage":"received"}\n\nevent: sta');
+        expect(first.frames).toEqual([{ event: 'stage', data: '{"stage":"received"}' }]);
+
+        const second = splitSceneFrames(`${first.rest}ge\ndata: {"stage":"building"}\n\n`);
+        expect(second.frames).toEqual([{ event: 'stage', data: '{"stage":"building"}' }]);
+        expect(second.rest).toBe('');
+    });
+
+    it('ignores comments and joins multi-line data', () => {
+        const { frames } = splitSceneFrames(': keep-alive\n\nid: 1\r\ndata: a\r\ndata: b\r\n\r\n');
+        expect(frames).toEqual([{ event: 'message', data: 'a\nb' }]);
+    });
+});
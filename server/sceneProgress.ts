@@ -0,0 +1,100 @@
+/**
+ * SCENE PROGRESS
+ * ===============
+ *
+ * One way for the /api/scene handlers to answer, whether the client asked
+ * for a progress stream or for plain JSON (see src/shared/types/SceneProgress.ts
+ * for the event format).
+ *
+ *   const progress = startSceneProgress(req, res);
+ *   progress.stage('detecting', { completed: 0, total: 2 });
+ *   ...
+ *   progress.finish(200, body, { 'X-Detection-Cache': 'miss' });
+ *
+ * With JSON, stage() does nothing and finish() sends the status, headers
+ * and body as usual. With a stream, the 200 and the event-stream headers
+ * go out at once, so finish() turns the body into a `done` or `error`
+ * event and drops its headers (everything they say is in the body too).
+ *
+ * `signal` aborts when the client disconnects before finish(), so the
+ * handler can stop paying for an AI call nobody will see.
+ *
+ * Works on the plain Node response both Express and Vercel hand over.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+    formatSceneFrame,
+    SCENE_EVENT_STREAM,
+    type SceneStage,
+    type SceneStageEvent,
+} from '../src/shared/types/SceneProgress';
+
+export interface SceneProgress {
+    /** Whether events are being streamed */
+    readonly streaming: boolean;
+    /** Aborted when the client goes away before the answer is finished */
+    readonly signal: AbortSignal;
+    /** Report reaching `stage` (a no-op without a stream) */
+    stage(stage: Exclude<SceneStage, 'done'>, detail?: Omit<SceneStageEvent, 'stage'>): void;
+    /** Send the final answer and end the response */
+    finish(status: number, body: object, headers?: Record<string, string>): void;
+}
+
+/** Whether an Accept header asks for the progress stream */
+export function wantsSceneStream(accept: string | string[] | undefined): boolean {
+    const value = Array.isArray(accept) ? accept.join(',') : accept ?? '';
+    return value.split(',').some((type) => type.split(';')[0].trim() === SCENE_EVENT_STREAM);
+}
+
+export function startSceneProgress(req: IncomingMessage, res: ServerResponse): SceneProgress {
+    const disconnect = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) disconnect.abort();
+    });
+    const { signal } = disconnect;
+
+    if (!wantsSceneStream(req.headers.accept)) {
+        return {
+            streaming: false,
+            signal,
+            stage() {},
+            finish(status, body, headers = {}) {
+                if (res.destroyed) return; // client already gone
+                for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+                res.statusCode = status;
+                res.setHeader('Content-Type', 'application/json; charset=utf-8');
+                res.end(JSON.stringify(body));
+            },
+        };
+    }
+
+    res.writeHead(200, {
+        'Content-Type': SCENE_EVENT_STREAM,
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stop nginx-style proxies from holding events back
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+        if (!res.writableEnded && !res.destroyed) res.write(formatSceneFrame(event, data));
+    };
+
+    return {
+        streaming: true,
+        signal,
+        stage(stage, detail) {
+            send('stage', { stage, ...detail });
+        },
+        finish(status, body) {
+            if (status < 400) {
+                send('done', body);
+            } else {
+                send('error', { status, ...body });
+            }
+            if (!res.destroyed) res.end();
+        },
+    };
+}
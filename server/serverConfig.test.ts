@@ -0,0 +1,240 @@
+/**
+ * SERVER CONFIGURATION TESTS
+ * ===========================
+ *
+ * Defaults per entrypoint, overrides from the environment, error
+ * reporting, debug requests, CORS headers, and redaction for GET /api/config.
+ *
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    corsHeaders,
+    formatUploadLimit,
+    isDebugRequest,
+    isMetricsRequest,
+    loadServerConfig,
+    redactServerConfig,
+} from './serverConfig';
+
+// ============================================================
+//  Loading
+// ============================================================
+
+describe('loadServerConfig', () => {
+    it('uses the defaults of each entrypoint', () => {
+        const express = loadServerConfig({}, 'express');
+        const vercel = loadServerConfig({}, 'vercel');
+
+        expect(express.ok && express.value).toMatchObject({
+            port: 3001,
+            uploadMaxBytes: 10 * 1024 * 1024,
+            detection: { detail: 'high', maxTokens: 1500 },
+            imageMaxEdge: 2048,
+            promptVersion: 1,
+            configEndpoint: true,
+        });
+        expect(express.ok && express.value.cors.origins).toContain('http://localhost:5173');
+        expect(express.ok && express.value).toMatchObject({
+            provider: { kind: 'openai', structuredOutput: true, repairRetries: 2, fixturesDir: 'server/fixtures/detections' },
+            cache: { kind: 'memory', size: 200, dir: '.cache/detections' },
+        });
+        expect(vercel.ok && vercel.value).toMatchObject({ detection: { detail: 'low' }, cors: { origins: '*' } });
+    });
+
+    it('allows the request id header through CORS', () => {
+        const made = loadServerConfig({}, 'express');
+        expect(made.ok && made.value.cors.allowedHeaders).toEqual(expect.arrayContaining(['x-request-id', 'x-api-key']));
+    });
+
+    it('reads overrides, treating blank settings as unset', () => {
+        const made = loadServerConfig({
+            PORT: '4000',
+            CORS_ORIGINS: 'https://game.example.com, http://localhost:3000',
+            DETECTION_MODEL: 'gpt-4o-mini',
+            DETECTION_IMAGE_DETAIL: 'auto',
+            DETECTION_MAX_TOKENS: ' ',
+            DETECTION_PRICE_PER_MTOK: '2.5, 10',
+            DETECTION_PROMPT_VERSION: '2',
+            DETECTION_MAX_EDGE: '1024',
+            UPLOAD_MAX_MB: '2',
+            NODE_ENV: 'production',
+            RATE_LIMIT_BURST: '3',
+        }, 'express');
+
+        expect(made.ok && made.value).toMatchObject({
+            port: 4000,
+            cors: { origins: ['https://game.example.com', 'http://localhost:3000'] },
+            uploadMaxBytes: 2 * 1024 * 1024,
+            detection: { model: 'gpt-4o-mini', detail: 'auto', maxTokens: 1500, prices: { input: 2.5, output: 10 } },
+            imageMaxEdge: 1024,
+            promptVersion: 2,
+            rateLimit: { burst: 3 },
+            configEndpoint: false,
+        });
+    });
+
+    it('reports every problem at once', () => {
+        const made = loadServerConfig({
+            PORT: 'eighty',
+            DETECTION_IMAGE_DETAIL: 'max',
+            CORS_ORIGINS: 'localhost',
+            AI_MAX_CONCURRENT: '0',
+            DETECTION_PRICE_PER_MTOK: '2.5',
+            DETECTION_PROMPT_VERSION: '9',
+        }, 'express');
+
+        expect(made.ok).toBe(false);
+        const errors = made.ok ? [] : made.error.split('; ');
+        expect(errors).toHaveLength(6);
+        expect(errors[0]).toMatch(/^PORT: /);
+        expect(errors).toContain('AI_MAX_CONCURRENT must be an integer of at least 1');
+        expect(errors.some((e) => e.startsWith('CORS_ORIGINS: "localhost" is not an origin'))).toBe(true);
+        expect(errors.some((e) => e.startsWith('DETECTION_PRICE_PER_MTOK: must be "input,output"'))).toBe(true);
+        expect(errors).toContain('DETECTION_PROMPT_VERSION: must be one of 1, 2');
+    });
+
+    it('reads the provider and cache settings', () => {
+        const made = loadServerConfig({
+            DETECTION_PROVIDER: 'compatible',
+            DETECTION_BASE_URL: 'http://localhost:11434/v1',
+            DETECTION_API_KEY: 'local-key',
+            DETECTION_REPAIR_RETRIES: '0',
+            DETECTION_CACHE: 'disk',
+            DETECTION_CACHE_DIR: 'tmp/cache',
+        }, 'express');
+
+        expect(made.ok && made.value).toMatchObject({
+            provider: { kind: 'compatible', baseUrl: 'http://localhost:11434/v1', apiKey: 'local-key', structuredOutput: false, repairRetries: 0 },
+            cache: { kind: 'disk', dir: 'tmp/cache' },
+        });
+    });
+
+    it('rejects bad provider and cache settings', () => {
+        const made = loadServerConfig({
+            DETECTION_PROVIDER: 'magic',
+            DETECTION_STRUCTURED_OUTPUT: 'maybe',
+            DETECTION_REPAIR_RETRIES: '9',
+            DETECTION_BASE_URL: 'localhost',
+            DETECTION_CACHE: 'redis',
+            DETECTION_CACHE_SIZE: '0',
+        }, 'express');
+
+        const errors = made.ok ? [] : made.error.split('; ').map((e) => e.split(':')[0]);
+        expect(errors).toEqual([
+            'DETECTION_PROVIDER',
+            'DETECTION_BASE_URL',
+            'DETECTION_STRUCTURED_OUTPUT',
+            'DETECTION_REPAIR_RETRIES',
+            'DETECTION_CACHE',
+            'DETECTION_CACHE_SIZE',
+        ]);
+    });
+});
+
+// ============================================================
+//  Debug responses
+// ============================================================
+
+describe('isDebugRequest', () => {
+    const TOKEN = 'debug-hush-0123456789';
+
+    it('answers any debug request during local development only', () => {
+        const dev = loadServerConfig({}, 'express');
+        const prod = loadServerConfig({ NODE_ENV: 'production' }, 'express');
+        if (!dev.ok || !prod.ok) throw new Error('config failed');
+
+        expect(isDebugRequest(dev.value.debug, { 'x-debug-token': 'dev' })).toBe(true);
+        expect(isDebugRequest(dev.value.debug, {})).toBe(false);
+        expect(isDebugRequest(prod.value.debug, { 'x-debug-token': 'dev' })).toBe(false);
+    });
+
+    it('demands the token once one is configured', () => {
+        const made = loadServerConfig({ DEBUG_RESPONSES: 'on', DEBUG_TOKEN: TOKEN }, 'vercel');
+        if (!made.ok) throw new Error(made.error);
+
+        expect(isDebugRequest(made.value.debug, { 'x-debug-token': TOKEN })).toBe(true);
+        expect(isDebugRequest(made.value.debug, { 'x-debug-token': 'dev' })).toBe(false);
+        expect(redactServerConfig(made.value).debug).toEqual({ enabled: true });
+    });
+
+    it('refuses debug responses without a token on Vercel', () => {
+        expect(loadServerConfig({ DEBUG_RESPONSES: 'on' }, 'vercel')).toEqual({
+            ok: false,
+            error: 'DEBUG_RESPONSES=on needs a DEBUG_TOKEN here',
+        });
+    });
+});
+
+// ============================================================
+//  Metrics
+// ============================================================
+
+describe('isMetricsRequest', () => {
+    const TOKEN = 'metrics-hush-0123456789';
+
+    it('serves the metrics where /api/config is, without a token', () => {
+        const dev = loadServerConfig({}, 'express');
+        const prod = loadServerConfig({ NODE_ENV: 'production' }, 'express');
+        if (!dev.ok || !prod.ok) throw new Error('config failed');
+
+        expect(isMetricsRequest(dev.value.metrics, {})).toBe(true);
+        expect(prod.value.metrics.enabled).toBe(false);
+        expect(isMetricsRequest(prod.value.metrics, {})).toBe(false);
+    });
+
+    it('demands the bearer token once one is configured, in development too', () => {
+        for (const env of [{ METRICS_TOKEN: TOKEN }, { METRICS_TOKEN: TOKEN, NODE_ENV: 'production' }]) {
+            const made = loadServerConfig(env, 'express');
+            if (!made.ok) throw new Error(made.error);
+
+            expect(isMetricsRequest(made.value.metrics, { authorization: `Bearer ${TOKEN}` })).toBe(true);
+            expect(isMetricsRequest(made.value.metrics, { authorization: 'Bearer wrong' })).toBe(false);
+            expect(isMetricsRequest(made.value.metrics, {})).toBe(false);
+            expect(JSON.stringify(redactServerConfig(made.value))).not.toMatch(/hush/);
+        }
+    });
+});
+
+describe('formatUploadLimit', () => {
+    it('shows megabytes', () => {
+        expect(formatUploadLimit({ uploadMaxBytes: 10 * 1024 * 1024 })).toBe('10MB');
+        expect(formatUploadLimit({ uploadMaxBytes: 4.5 * 1024 * 1024 })).toBe('4.5MB');
+    });
+});
+
+// ============================================================
+//  CORS and redaction
+// ============================================================
+
+describe('corsHeaders', () => {
+    const cors = { origins: ['https://game.example.com'], allowedHeaders: ['x-request-id'], exposedHeaders: ['Retry-After'] };
+
+    it('echoes an allowed origin only', () => {
+        expect(corsHeaders(cors, 'https://game.example.com', ['POST'])).toMatchObject({
+            'Access-Control-Allow-Origin': 'https://game.example.com',
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'x-request-id',
+            Vary: 'Origin',
+        });
+        expect(corsHeaders(cors, 'https://evil.example.com', ['POST'])['Access-Control-Allow-Origin']).toBeUndefined();
+        expect(corsHeaders({ ...cors, origins: '*' }, undefined, ['GET'])['Access-Control-Allow-Origin']).toBe('*');
+    });
+});
+
+describe('redactServerConfig', () => {
+    it('leaves out secrets', () => {
+        const env = { OPENAI_API_KEY: 'sk-hush-1', RATE_LIMIT_API_KEYS: 'team-hush-2' };
+        const made = loadServerConfig(env, 'express');
+        if (!made.ok) throw new Error(made.error);
+
+        const shown = JSON.stringify(redactServerConfig(made.value));
+        expect(shown).not.toMatch(/hush/);
+        expect(JSON.parse(shown)).toMatchObject({
+            provider: { kind: 'openai' },
+            rateLimit: { apiKeys: '1 configured' },
+            secrets: { OPENAI_API_KEY: 'set', DETECTION_API_KEY: 'unset' },
+        });
+    });
+});
@@ -0,0 +1,405 @@
+/**
+ * SERVER CONFIGURATION
+ * =====================
+ *
+ * The settings both entrypoints (the Express dev server and the Vercel
+ * functions) run with, read from the environment in one place. The core
+ * settings are a Zod schema; the rate limit, scene jobs and detection
+ * post-processing keep their own readers (rateLimit.ts, sceneJobs.ts,
+ * detectionPostprocess.ts) and are gathered here, so one call reports
+ * every problem at once.
+ *
+ * The entrypoints differ only in their defaults (ENTRYPOINT_DEFAULTS):
+ * Vercel looks at photos in low detail to stay within the Hobby plan's
+ * function timeout, accepts what fits in its 4.5MB request body, and
+ * answers any origin.
+ *
+ * The Express server refuses to start with a bad configuration; a Vercel
+ * function logs it when loaded and answers 500 "Server misconfiguration".
+ *
+ * Environment:
+ *   PORT                   Express port (default 3001)
+ *   CORS_ORIGINS           comma-separated origins allowed to call the API, or *
+ *   DETECTION_MODEL        model name (openai default gpt-4o; required for compatible)
+ *   DETECTION_IMAGE_DETAIL low | high | auto
+ *   DETECTION_MAX_TOKENS   longest detection answer (default 1500)
+ *   DETECTION_PRICE_PER_MTOK  "input,output" USD per million tokens, for cost estimates
+ *   DETECTION_PROMPT_VERSION  prompt version asked with (default 1; see detectionPrompts.ts)
+ *   DETECTION_MAX_EDGE     longest edge (px) photos are downsized to before detection
+ *                          (default 2048; see imagePreprocess.ts)
+ *   UPLOAD_MAX_MB          largest photo accepted, in MB
+ *   CONFIG_ENDPOINT        true | false: serve GET /api/config (default: outside production)
+ *   METRICS_TOKEN          bearer token GET /api/metrics demands; without one it is
+ *                          served only where /api/config is
+ *   DEBUG_RESPONSES        on | off: answer debug requests with `_debug` (default: Express outside production)
+ *   DEBUG_TOKEN            what a debug request's x-debug-token header must be
+ *                          (required for DEBUG_RESPONSES=on on Vercel and in production)
+ *   LOG_LEVEL              debug | info | warn | error (default info)
+ *   LOG_FORMAT             json | pretty (default: pretty for Express outside production)
+ * plus the provider settings (DETECTION_PROVIDER, OPENAI_API_KEY, …; see
+ * ProviderSettings), the cache settings (DETECTION_CACHE, …; see
+ * CacheSettings), and the RATE_LIMIT_*, AI_*, SCENE_JOB_* and
+ * DETECTION_POSTPROCESS settings. createCachedDetectionProvider() builds the
+ * provider and cache from the parsed values.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import {
+    CACHE_HEADER,
+    CACHE_KINDS,
+    DEFAULT_CACHE_DIR,
+    DEFAULT_CACHE_SIZE,
+    type CacheSettings,
+} from './detectionCache';
+import { DEFAULT_PROMPT_VERSION, isPromptVersion, PROMPT_HEADER, PROMPT_VERSIONS } from './detectionPrompts';
+import {
+    DEFAULT_FIXTURES_DIR,
+    DEFAULT_REPAIR_RETRIES,
+    MAX_REPAIR_RETRIES,
+    PROVIDER_KINDS,
+    type DetectionSettings,
+    type ImageDetail,
+    type ProviderSettings,
+    type TokenPrices,
+} from './detectionProviders';
+import { createPostprocessConfig, type PostprocessConfig } from './detectionPostprocess';
+import { DEFAULT_MAX_EDGE } from './imagePreprocess';
+import { LOG_FORMATS, LOG_LEVELS, REQUEST_ID_HEADER, type LogConfig } from './logger';
+import { createRateLimitConfig, type RateLimitConfig } from './rateLimit';
+import { createSceneJobConfig, type SceneJobConfig } from './sceneJobs';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Entrypoint = 'express' | 'vercel';
+
+export interface CorsConfig {
+    /** Origins allowed to call the API, or '*' for any */
+    origins: string[] | '*';
+    /** Request headers the browser may send */
+    allowedHeaders: string[];
+    /** Response headers the browser may read */
+    exposedHeaders: string[];
+}
+
+export interface ServerConfig {
+    entrypoint: Entrypoint;
+    /** Express only */
+    port: number;
+    cors: CorsConfig;
+    /** Largest photo accepted (bytes) */
+    uploadMaxBytes: number;
+    /** Which detection provider to build, and its keys */
+    provider: ProviderSettings;
+    detection: DetectionSettings;
+    /** Which detection cache to keep */
+    cache: CacheSettings;
+    /** Longest edge (px) of the photo the model is sent, see preprocessImage() */
+    imageMaxEdge: number;
+    /** Prompt version uploads are asked with unless they pick another (see selectPrompt()) */
+    promptVersion: number;
+    rateLimit: RateLimitConfig;
+    jobs: SceneJobConfig;
+    /** Undefined when DETECTION_POSTPROCESS=off */
+    postprocess: PostprocessConfig | undefined;
+    /** Whether GET /api/config answers */
+    configEndpoint: boolean;
+    /** Who gets `_debug` in responses, see isDebugRequest() */
+    debug: DebugConfig;
+    /** Who may read GET /api/metrics, see isMetricsRequest() */
+    metrics: MetricsConfig;
+    /** Log level and line format, see logger.ts */
+    log: LogConfig;
+}
+
+export interface DebugConfig {
+    /** Whether debug requests get `_debug` (DEBUG_RESPONSES) */
+    enabled: boolean;
+    /** What their x-debug-token header must be; any value when unset */
+    token: string | undefined;
+}
+
+export interface MetricsConfig {
+    /** Whether GET /api/metrics answers: with a token, or where GET /api/config does */
+    enabled: boolean;
+    /** What its Authorization bearer token must be; none needed when unset */
+    token: string | undefined;
+}
+
+/** Settings whose default depends on the entrypoint */
+interface EntrypointDefaults {
+    detail: ImageDetail;
+    uploadMaxMb: number;
+    corsOrigins: string[] | '*';
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ENTRYPOINT_DEFAULTS: Readonly<Record<Entrypoint, EntrypointDefaults>> = {
+    express: {
+        detail: 'high',
+        uploadMaxMb: 10,
+        // The Vite dev server, by name and by address
+        corsOrigins: [
+            'http://localhost:8080',
+            'http://localhost:5173',
+            'http://127.0.0.1:8080',
+            'http://127.0.0.1:5173',
+        ],
+    },
+    vercel: {
+        detail: 'low',
+        uploadMaxMb: 4.5,
+        corsOrigins: '*',
+    },
+};
+
+/** Express port unless PORT says otherwise */
+export const DEFAULT_PORT = 3001;
+
+/** Detection answer limit unless DETECTION_MAX_TOKENS says otherwise */
+export const DEFAULT_MAX_TOKENS = 1500;
+
+/** Header that asks for `_debug` in the response */
+export const DEBUG_HEADER = 'x-debug-token';
+
+/** Request headers the client sends: tracing, the rate limit key, progress streaming, debug, prompt A/B */
+const ALLOWED_HEADERS = ['Content-Type', 'Accept', REQUEST_ID_HEADER, 'x-api-key', DEBUG_HEADER, PROMPT_HEADER];
+
+/** Response headers the client reads: cache status, backoff, job location, timings, the request id */
+const EXPOSED_HEADERS = [CACHE_HEADER, 'Retry-After', 'Location', 'Server-Timing', REQUEST_ID_HEADER];
+
+/** Settings shown by redactServerConfig() only as set / unset */
+const SECRET_SETTINGS = ['OPENAI_API_KEY', 'DETECTION_API_KEY', 'DEBUG_TOKEN', 'METRICS_TOKEN'] as const;
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Blank settings count as unset, like everywhere else on the server */
+const setting = <T extends z.ZodType>(schema: T) =>
+    z.preprocess((v) => (typeof v === 'string' ? v.trim() || undefined : v), schema);
+
+const EnvSchema = z.object({
+    PORT: setting(z.coerce.number().int().min(1).max(65535).optional()),
+    CORS_ORIGINS: setting(z.string().optional()).transform((v, ctx) => {
+        if (v === undefined || v === '*') return v;
+        const origins = v.split(',').map((o) => o.trim()).filter(Boolean);
+        const bad = origins.find((o) => !/^https?:\/\/[^/\s]+$/.test(o));
+        if (bad) {
+            ctx.addIssue({ code: 'custom', message: `"${bad}" is not an origin like https://example.com` });
+            return z.NEVER;
+        }
+        return origins;
+    }),
+    DETECTION_PROVIDER: setting(z.enum(PROVIDER_KINDS).optional()),
+    OPENAI_API_KEY: setting(z.string().optional()),
+    DETECTION_BASE_URL: setting(z.url().optional()),
+    DETECTION_API_KEY: setting(z.string().optional()),
+    DETECTION_STRUCTURED_OUTPUT: setting(z.enum(['true', 'false']).optional()),
+    DETECTION_REPAIR_RETRIES: setting(z.coerce.number().int().min(0).max(MAX_REPAIR_RETRIES).optional()),
+    DETECTION_FIXTURES_DIR: setting(z.string().optional()),
+    DETECTION_CACHE: setting(z.enum(CACHE_KINDS).optional()),
+    DETECTION_CACHE_SIZE: setting(z.coerce.number().int().min(1).optional()),
+    DETECTION_CACHE_DIR: setting(z.string().optional()),
+    DETECTION_MODEL: setting(z.string().optional()),
+    DETECTION_IMAGE_DETAIL: setting(z.enum(['low', 'high', 'auto']).optional()),
+    DETECTION_MAX_TOKENS: setting(z.coerce.number().int().min(256).max(16384).optional()),
+    DETECTION_PRICE_PER_MTOK: setting(z.string().optional()).transform((v, ctx): TokenPrices | undefined => {
+        if (v === undefined) return undefined;
+        const [input, output, ...rest] = v.split(',').map((p) => Number(p.trim()));
+        if (rest.length > 0 || !(input >= 0) || !(output >= 0)) {
+            ctx.addIssue({ code: 'custom', message: 'must be "input,output" USD per million tokens, e.g. 2.5,10' });
+            return z.NEVER;
+        }
+        return { input, output };
+    }),
+    DETECTION_PROMPT_VERSION: setting(z.coerce.number().refine(isPromptVersion, {
+        message: `must be one of ${Object.keys(PROMPT_VERSIONS).join(', ')}`,
+    }).optional()),
+    DETECTION_MAX_EDGE: setting(z.coerce.number().int().min(256).max(8192).optional()),
+    UPLOAD_MAX_MB: setting(z.coerce.number().positive().max(100).optional()),
+    CONFIG_ENDPOINT: setting(z.enum(['true', 'false']).optional()),
+    METRICS_TOKEN: setting(z.string().min(16, 'must be at least 16 characters').optional()),
+    DEBUG_RESPONSES: setting(z.enum(['on', 'off']).optional()),
+    DEBUG_TOKEN: setting(z.string().min(16, 'must be at least 16 characters').optional()),
+    LOG_LEVEL: setting(z.enum(LOG_LEVELS).optional()),
+    LOG_FORMAT: setting(z.enum(LOG_FORMATS).optional()),
+    NODE_ENV: setting(z.string().optional()),
+});
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the configuration for `entrypoint` from the environment. Every
+ * problem is reported, separated by "; ".
+ */
+export function loadServerConfig(
+    env: Record<string, string | undefined>,
+    entrypoint: Entrypoint,
+): { ok: true; value: ServerConfig } | { ok: false; error: string } {
+    const defaults = ENTRYPOINT_DEFAULTS[entrypoint];
+    const errors: string[] = [];
+
+    const parsed = EnvSchema.safeParse(env);
+    if (!parsed.success) {
+        errors.push(...parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`));
+    }
+    const rateLimit = createRateLimitConfig(env);
+    const jobs = createSceneJobConfig(env);
+    const postprocess = createPostprocessConfig(env);
+    for (const made of [rateLimit, jobs, postprocess]) {
+        if (!made.ok) errors.push(made.error);
+    }
+
+    // Debug output for anyone who asks only during local development
+    const production = entrypoint === 'vercel' || parsed.data?.NODE_ENV === 'production';
+    const debugEnabled = parsed.data?.DEBUG_RESPONSES
+        ? parsed.data.DEBUG_RESPONSES === 'on'
+        : !production;
+    if (parsed.success && debugEnabled && production && !parsed.data.DEBUG_TOKEN) {
+        errors.push('DEBUG_RESPONSES=on needs a DEBUG_TOKEN here');
+    }
+
+    if (!parsed.success || !rateLimit.ok || !jobs.ok || !postprocess.ok || errors.length > 0) {
+        return { ok: false, error: errors.join('; ') };
+    }
+
+    const settings = parsed.data;
+    const provider = settings.DETECTION_PROVIDER ?? 'openai';
+    const configEndpoint = settings.CONFIG_ENDPOINT
+        ? settings.CONFIG_ENDPOINT === 'true'
+        : settings.NODE_ENV !== 'production';
+    return {
+        ok: true,
+        value: {
+            entrypoint,
+            port: settings.PORT ?? DEFAULT_PORT,
+            cors: {
+                origins: settings.CORS_ORIGINS ?? defaults.corsOrigins,
+                allowedHeaders: ALLOWED_HEADERS,
+                exposedHeaders: EXPOSED_HEADERS,
+            },
+            uploadMaxBytes: Math.round((settings.UPLOAD_MAX_MB ?? defaults.uploadMaxMb) * 1024 * 1024),
+            provider: {
+                kind: provider,
+                openaiApiKey: settings.OPENAI_API_KEY,
+                baseUrl: settings.DETECTION_BASE_URL,
+                apiKey: settings.DETECTION_API_KEY,
+                structuredOutput: settings.DETECTION_STRUCTURED_OUTPUT
+                    ? settings.DETECTION_STRUCTURED_OUTPUT === 'true'
+                    : provider === 'openai',
+                repairRetries: settings.DETECTION_REPAIR_RETRIES ?? DEFAULT_REPAIR_RETRIES,
+                fixturesDir: settings.DETECTION_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR,
+            },
+            detection: {
+                model: settings.DETECTION_MODEL,
+                detail: settings.DETECTION_IMAGE_DETAIL ?? defaults.detail,
+                maxTokens: settings.DETECTION_MAX_TOKENS ?? DEFAULT_MAX_TOKENS,
+                prices: settings.DETECTION_PRICE_PER_MTOK,
+            },
+            cache: {
+                kind: settings.DETECTION_CACHE ?? 'memory',
+                size: settings.DETECTION_CACHE_SIZE ?? DEFAULT_CACHE_SIZE,
+                dir: settings.DETECTION_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+            },
+            imageMaxEdge: settings.DETECTION_MAX_EDGE ?? DEFAULT_MAX_EDGE,
+            promptVersion: settings.DETECTION_PROMPT_VERSION ?? DEFAULT_PROMPT_VERSION,
+            rateLimit: rateLimit.value,
+            jobs: jobs.value,
+            postprocess: postprocess.value,
+            configEndpoint,
+            debug: { enabled: debugEnabled, token: settings.DEBUG_TOKEN },
+            metrics: { enabled: configEndpoint || settings.METRICS_TOKEN !== undefined, token: settings.METRICS_TOKEN },
+            log: {
+                level: settings.LOG_LEVEL ?? 'info',
+                format: settings.LOG_FORMAT ?? (production ? 'json' : 'pretty'),
+            },
+        },
+    };
+}
+
+/** The upload limit for error messages, e.g. "10MB" */
+export function formatUploadLimit(config: Pick<ServerConfig, 'uploadMaxBytes'>): string {
+    return `${Math.round((config.uploadMaxBytes / (1024 * 1024)) * 10) / 10}MB`;
+}
+
+/**
+ * Whether a request with these headers gets `_debug`: debug responses are
+ * on, and it sent DEBUG_HEADER (matching DEBUG_TOKEN when there is one).
+ */
+export function isDebugRequest(debug: DebugConfig, headers: Record<string, string | string[] | undefined>): boolean {
+    const sent = headers[DEBUG_HEADER];
+    if (!debug.enabled || typeof sent !== 'string' || !sent) return false;
+    if (debug.token === undefined) return true;
+    return sameToken(sent, debug.token);
+}
+
+/**
+ * Whether a request with these headers may read GET /api/metrics: it is
+ * served, and the request sent `Authorization: Bearer <METRICS_TOKEN>`
+ * when there is one.
+ */
+export function isMetricsRequest(metrics: MetricsConfig, headers: Record<string, string | string[] | undefined>): boolean {
+    if (!metrics.enabled) return false;
+    if (metrics.token === undefined) return true;
+    const sent = headers.authorization;
+    return typeof sent === 'string' && sameToken(sent, `Bearer ${metrics.token}`);
+}
+
+/** Compare a sent token with the expected one in constant time */
+function sameToken(sent: string, expected: string): boolean {
+    const a = Buffer.from(sent);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * CORS response headers for a Vercel function: the configured origins
+ * (echoing the caller's origin when it is one of them), headers and
+ * `methods`. Express uses the cors middleware with the same settings.
+ */
+export function corsHeaders(cors: CorsConfig, origin: string | undefined, methods: string[]): Record<string, string> {
+    const headers: Record<string, string> = {
+        'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+        'Access-Control-Allow-Headers': cors.allowedHeaders.join(', '),
+        'Access-Control-Expose-Headers': cors.exposedHeaders.join(', '),
+    };
+    if (cors.origins === '*') {
+        headers['Access-Control-Allow-Origin'] = '*';
+    } else {
+        headers.Vary = 'Origin';
+        if (origin && cors.origins.includes(origin)) headers['Access-Control-Allow-Origin'] = origin;
+    }
+    return headers;
+}
+
+/**
+ * What GET /api/config shows: the configuration with nothing secret in it
+ * (API keys are counted, secret settings only reported as set or not).
+ */
+export function redactServerConfig(config: ServerConfig): Record<string, unknown> {
+    const { provider, rateLimit, postprocess, debug, metrics } = config;
+    const { openaiApiKey, apiKey, ...shownProvider } = provider;
+    const secrets: Record<typeof SECRET_SETTINGS[number], string | undefined> = {
+        OPENAI_API_KEY: openaiApiKey,
+        DETECTION_API_KEY: apiKey,
+        DEBUG_TOKEN: debug.token,
+        METRICS_TOKEN: metrics.token,
+    };
+    return {
+        ...config,
+        provider: shownProvider,
+        debug: { enabled: debug.enabled },
+        metrics: { enabled: metrics.enabled },
+        rateLimit: { ...rateLimit, apiKeys: `${rateLimit.apiKeys.size} configured` },
+        postprocess: postprocess && { ...postprocess, synonyms: Object.fromEntries(postprocess.synonyms) },
+        secrets: Object.fromEntries(Object.entries(secrets).map(([name, value]) => [name, value ? 'set' : 'unset'])),
+    };
+}
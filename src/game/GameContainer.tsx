@@ -12,6 +12,7 @@
  *
  * Props:
  * - photoUrl: string - Object URL of the captured photo
+ * - photoUrls?: string[] - All photos of a stitched level, in segment order
  * - sceneData: SceneV1 - Validated scene data
  * - debugEnabled: boolean - Whether to show debug overlays
  * - onExit?: () => void - Optional callback when user wants to leave
@@ -26,6 +27,7 @@ import './GameContainer.css';
 
 interface GameContainerProps {
     photoUrl: string;
+    photoUrls?: string[];
     sceneData: SceneV1;
     debugEnabled: boolean;
     onExit?: () => void;
@@ -41,7 +43,7 @@ function loadImageDimensions(url: string): Promise<{ width: number; height: numb
     });
 }
 
-export function GameContainer({ photoUrl, sceneData, debugEnabled }: GameContainerProps) {
+export function GameContainer({ photoUrl, photoUrls, sceneData, debugEnabled }: GameContainerProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const gameRef = useRef<Game | null>(null);
     const [photoDims, setPhotoDims] = useState<{ width: number; height: number } | null>(null);
@@ -89,7 +91,7 @@ export function GameContainer({ photoUrl, sceneData, debugEnabled }: GameContain
         const game = new Game(config);
         gameRef.current = game;
 
-        const sceneInitData = { photoUrl, sceneData, debugEnabled };
+        const sceneInitData = { photoUrl, photoUrls, sceneData, debugEnabled };
 
         // Handle both sync and async boot (Phaser boots synchronously
         // when document is already loaded, so 'ready' may have already fired).
@@ -110,7 +112,7 @@ export function GameContainer({ photoUrl, sceneData, debugEnabled }: GameContain
             }
         };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [photoUrl, sceneData, photoDims]);
+    }, [photoUrl, photoUrls, sceneData, photoDims]);
 
     // Toggle debug via EventBus when prop changes
     useEffect(() => {
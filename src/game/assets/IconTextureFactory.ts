@@ -97,6 +97,23 @@ const SVG_DATA: Record<string, LucideSvgDef> = {
         fillFirst: true,
     },
 
+    /* ---- Zap (hazard) ---- */
+    Zap: {
+        paths: [
+            'M13 2 3 14h9l-1 8 10-12h-9l1-8z',
+        ],
+    },
+
+    /* ---- Package (obstacle) ---- */
+    Package: {
+        paths: [
+            'M21 8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16Z',
+            'm7.5 4.27 9 5.15',
+            'm3.3 7 8.7 5 8.7-5',
+            'M12 22V12',
+        ],
+    },
+
     /* ---- SquareSquare (platform_solid) ---- */
     SquareSquare: {
         paths: [
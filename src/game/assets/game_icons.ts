@@ -15,6 +15,7 @@
 /** Semantic roles that can appear as Phaser sprites. */
 export type GameIconKey =
     | 'player' | 'enemy' | 'exit' | 'coin' | 'health'
+    | 'hazard' | 'obstacle'
     | 'platform_solid' | 'platform_soft' | 'platform_bouncy'
     | 'platform_slippery' | 'platform_breakable';
 
@@ -29,6 +30,9 @@ export const GAME_ICONS: Record<GameIconKey, string> = {
     coin:   'CirclePoundSterling',
     health: 'Heart',
 
+    hazard:   'Zap',
+    obstacle: 'Package',
+
     platform_solid:     'SquareSquare',
     platform_soft:      'SquareArrowDown',
     platform_bouncy:    'SquareActivity',
@@ -47,6 +51,9 @@ export const GAME_ICON_COLORS: Record<GameIconKey, string> = {
     coin:   '#fbbf24',
     health: '#ef4444',
 
+    hazard:   '#facc15',
+    obstacle: '#fb923c',
+
     platform_solid:     '#4ade80',
     platform_soft:      '#c084fc',
     platform_bouncy:    '#fbbf24',
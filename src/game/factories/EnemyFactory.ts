@@ -9,6 +9,8 @@
  * Enemies spawn at their designated position and fall with gravity
  * until they land on a platform or the ground. Once landed they
  * patrol back and forth, reversing at platform edges or walls.
+ * Runners (hard difficulty) patrol faster than walkers; unknown types
+ * fall back to walker.
  *
  * Size derived from ComputedPhysics (world-relative).
  */
@@ -29,8 +31,11 @@ export interface EnemySprite extends Phaser.Physics.Arcade.Sprite {
     patrolSpeed: number;
 }
 
-/** Patrol speed as a fraction of world width per second */
-const PATROL_SPEED_FRACTION = 0.09;
+/** Patrol speed as a fraction of phys.viewWidth per second, by enemy type */
+const PATROL_SPEED_FRACTION: Record<string, number> = {
+    walker: 0.09,
+    runner: 0.15,
+};
 
 export function createEnemies(
     scene: Phaser.Scene,
@@ -42,7 +47,6 @@ export function createEnemies(
     const group = scene.physics.add.group();
 
     const size = phys.enemySizePx;
-    const patrolSpeed = PATROL_SPEED_FRACTION * worldW;
 
     // Ensure the enemy texture exists (uses 'Angry' via game_icons.ts)
     ensureIconTexture(scene, 'enemy', size);
@@ -53,8 +57,11 @@ export function createEnemies(
         const ex = e.x * worldW;
         const ey = e.y * worldH;
 
+        const enemyType = e.type && e.type in PATROL_SPEED_FRACTION ? e.type : 'walker';
+        const patrolSpeed = PATROL_SPEED_FRACTION[enemyType] * phys.viewWidth;
+
         const sprite = scene.physics.add.sprite(ex, ey, key) as EnemySprite;
-        sprite.enemyType = e.type ?? 'walker';
+        sprite.enemyType = enemyType;
         sprite.damageAmount = 20;
         sprite.patrolLeft = 0;
         sprite.patrolRight = worldW;
@@ -0,0 +1,67 @@
+/**
+ * HAZARD FACTORY
+ * ===============
+ *
+ * Creates damaging strips from validated SceneV1 objects where
+ * type === 'hazard' (the builder turns electric detections — cables,
+ * sockets, screens — into these).
+ *
+ * Each hazard is a Zone with a static physics body (overlap only, not a
+ * collider) plus a row of "Zap" icon tiles for the visual. The damage per
+ * contact comes from game_mechanics.damage_amount and is stored on the
+ * zone via zone.setData('damage', n).
+ *
+ * Sizes derived from the scene bounds (world-relative).
+ */
+
+import type { SceneObject } from '../../shared/schema/scene_v1.types';
+import { normRectToWorldRect } from '../utils/coords';
+import { ensureIconTexture, getIconTextureKey } from '../assets/IconTextureFactory';
+
+/** HP lost per contact when the scene doesn't specify damage_amount */
+export const DEFAULT_HAZARD_DAMAGE = 2;
+
+/** Texture size for hazard icons (px). Scaled to actual tile dimensions. */
+const ICON_RENDER_SIZE = 48;
+
+export function createHazards(
+    scene: Phaser.Scene,
+    objects: SceneObject[],
+    worldW: number,
+    worldH: number,
+): Phaser.Physics.Arcade.StaticGroup {
+    const group = scene.physics.add.staticGroup();
+
+    const hazards = objects.filter(o => o.type === 'hazard');
+
+    ensureIconTexture(scene, 'hazard', ICON_RENDER_SIZE);
+    const textureKey = getIconTextureKey('hazard', ICON_RENDER_SIZE);
+
+    for (const obj of hazards) {
+        const rect = normRectToWorldRect(obj.bounds_normalized, worldW, worldH);
+        if (rect.w < 1 || rect.h < 1) continue;
+
+        // --- Visual: tinted strip with a row of Zap icons ---
+        scene.add.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, 0xfacc15, 0.35);
+
+        const iconSize = Math.max(rect.h * 1.6, 8);
+        const iconCount = Math.max(1, Math.floor(rect.w / iconSize));
+        for (let i = 0; i < iconCount; i++) {
+            const ix = rect.x + (rect.w / iconCount) * (i + 0.5);
+            scene.add.image(ix, rect.y + rect.h / 2, textureKey)
+                .setDisplaySize(iconSize, iconSize)
+                .setAlpha(0.9);
+        }
+
+        // --- Physics: zone matches the strip ---
+        const zone = scene.add.zone(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h);
+        scene.physics.add.existing(zone, true);
+        zone.setData('damage', obj.game_mechanics?.damage_amount ?? DEFAULT_HAZARD_DAMAGE);
+
+        group.add(zone);
+    }
+
+    console.info(`[HazardFactory] Created ${group.getLength()} hazards`);
+
+    return group;
+}
@@ -0,0 +1,65 @@
+/**
+ * OBSTACLE FACTORY
+ * =================
+ *
+ * Creates solid blocks from validated SceneV1 objects where
+ * type === 'obstacle' (the builder turns bulky furniture into these).
+ *
+ * Each obstacle is a Zone with a static physics body (collider — the
+ * player can stand on it or has to hop over it) plus a grid of "Package"
+ * icon tiles stretched to fill the block.
+ *
+ * Unlike platforms, obstacles keep their exact scene bounds: the builder
+ * already placed them clear of the proven path, so widening them here
+ * could block it.
+ */
+
+import type { SceneObject } from '../../shared/schema/scene_v1.types';
+import { normRectToWorldRect } from '../utils/coords';
+import { ensureIconTexture, getIconTextureKey } from '../assets/IconTextureFactory';
+
+/** Texture size for obstacle icons (px). Scaled to actual tile dimensions. */
+const ICON_RENDER_SIZE = 64;
+
+export function createObstacles(
+    scene: Phaser.Scene,
+    objects: SceneObject[],
+    worldW: number,
+    worldH: number,
+): Phaser.Physics.Arcade.StaticGroup {
+    const group = scene.physics.add.staticGroup();
+
+    const obstacles = objects.filter(o => o.type === 'obstacle');
+
+    ensureIconTexture(scene, 'obstacle', ICON_RENDER_SIZE);
+    const textureKey = getIconTextureKey('obstacle', ICON_RENDER_SIZE);
+
+    for (const obj of obstacles) {
+        const rect = normRectToWorldRect(obj.bounds_normalized, worldW, worldH);
+        if (rect.w < 1 || rect.h < 1) continue;
+
+        // --- Visual: grid of roughly square tiles filling the block ---
+        const cols = Math.max(1, Math.round(rect.w / rect.h));
+        const rows = Math.max(1, Math.round(rect.h / (rect.w / cols)));
+        const tileW = rect.w / cols;
+        const tileH = rect.h / rows;
+
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                scene.add.image(rect.x + tileW * (c + 0.5), rect.y + tileH * (r + 0.5), textureKey)
+                    .setDisplaySize(tileW, tileH)
+                    .setAlpha(0.8);
+            }
+        }
+
+        // --- Physics: zone matches the block ---
+        const zone = scene.add.zone(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h);
+        scene.physics.add.existing(zone, true);
+
+        group.add(zone);
+    }
+
+    console.info(`[ObstacleFactory] Created ${group.getLength()} obstacles`);
+
+    return group;
+}
@@ -37,6 +37,7 @@ export function createPickups(
         const py = p.y * worldH;
 
         // Coins spawn as a stack of 2; health spawns as a single pickup
+        // (the level builder checks every coin can be reached: COIN_STACK in server/reachability.ts)
         const count = isCoin ? 2 : 1;
         const spacing = size * 1.2;
         const bobDuration = 1200 + Math.random() * 400; // shared per stack
@@ -26,7 +26,9 @@
  *     slippery  → SquareCode       (blue)
  *     breakable → SquareX          (red)
  *
- *   Tiles are stored on the zone via zone.setData('tiles', [...]).
+ *   Tiles are stored on the zone via zone.setData('tiles', [...]) and
+ *   game_mechanics.respawn_ms via zone.setData('respawnMs', n); the
+ *   SurfaceSystem uses both to crumble and restore breakable platforms.
  *
  * Minimum dimensions come from ComputedPhysics (world-relative).
  */
@@ -174,9 +176,12 @@ export function createPlatforms(
         // Store surface type so GameScene can read it during collisions
         zone.setData('surfaceType', surfaceType);
 
-        // Store tiles for future sprite swaps
+        // Store tiles so surface behaviours can animate them
         zone.setData('tiles', tiles);
 
+        // Breakable respawn delay (undefined = SurfaceSystem default)
+        zone.setData('respawnMs', obj.game_mechanics?.respawn_ms);
+
         group.add(zone);
     }
 
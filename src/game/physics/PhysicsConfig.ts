@@ -9,6 +9,10 @@
  * vertical gap the player must clear. This ensures every LLM-generated
  * level is always completable, no matter where platforms land.
  *
+ * Stitched levels (scene.segments) are several photos wide. Values that
+ * scale with the width are based on one segment (`viewWidth`), so running
+ * across a photo takes as long as in a single-photo level.
+ *
  * Usage:
  *   const phys = computePhysics(worldW, worldH, sceneData);
  *   // phys.gravityY, phys.playerSpeed, phys.jumpVelocity, etc.
@@ -53,10 +57,10 @@ const RATIOS = {
     minJumpFraction: 0.25,
     maxJumpFraction: 0.55,
 
-    /** Player horizontal speed — fraction of worldW per second */
+    /** Player horizontal speed — fraction of viewWidth per second */
     speedFraction: 0.40,
 
-    /** Minimum platform width (fraction of worldW) to be considered playable */
+    /** Minimum platform width (fraction of viewWidth) to be considered playable */
     minPlatformWidthFraction: 0.025,
 
     /** Minimum platform height (fraction of worldH) */
@@ -131,6 +135,8 @@ function analyzeSceneGaps(sceneData: SceneV1): number {
 // ---------------------------------------------------------------------------
 
 export interface ComputedPhysics {
+    /** Width of one photo segment (= worldW unless the level is stitched) */
+    viewWidth: number;
     gravityY: number;
     playerSpeed: number;
     jumpVelocity: number;
@@ -174,9 +180,11 @@ export function computePhysics(
     const jumpH = jumpFraction * worldH;
     const jumpVelocity = -Math.sqrt(2 * gravityY * jumpH);
 
-    const playerSpeed = RATIOS.speedFraction * worldW;
+    const viewWidth = worldW / (sceneData?.segments?.length ?? 1);
+    const playerSpeed = RATIOS.speedFraction * viewWidth;
 
     return {
+        viewWidth,
         gravityY,
         playerSpeed,
         jumpVelocity,
@@ -187,7 +195,7 @@ export function computePhysics(
         exitSizePx,
         pickupSizePx,
         enemySizePx,
-        minPlatformWidth: RATIOS.minPlatformWidthFraction * worldW,
+        minPlatformWidth: RATIOS.minPlatformWidthFraction * viewWidth,
         minPlatformHeight: RATIOS.minPlatformHeightFraction * worldH,
     };
 }
@@ -7,6 +7,9 @@
  * Receives validated SceneV1 data and a photo URL via init data.
  * Same data as PreviewScene, but with Arcade Physics enabled.
  *
+ * Stitched levels (scene.segments) are one canvas wide per photo: the
+ * photos are laid side by side and the camera follows the player across.
+ *
  * All physics values (gravity, speed, jump, sizes) are computed relative
  * to the world dimensions so the game feels identical on any device.
  *
@@ -16,7 +19,13 @@
  *
  * Win condition: player overlaps exit sprite.
  * Collectibles: overlap pickups -> score increment.
- * Health: player starts with 10 HP. Enemy contact costs 2 HP.
+ * Health: player starts with 10 HP. Enemy contact costs 2 HP; hazard
+ * contact costs the hazard's game_mechanics.damage_amount.
+ * Rules: the scene's rule modifiers (gravity, speeds, starting health,
+ * time limit, locked exit) are applied by RuleModifiersSystem.
+ * Obstacles: solid blocks for the player and enemies.
+ * Surfaces: soft, bouncy, slippery and breakable platforms behave as
+ * described in SurfaceSystem.
  */
 
 import { Scene } from 'phaser';
@@ -28,11 +37,17 @@ import { createPlatforms } from '../factories/PlatformFactory';
 import { createExit } from '../factories/ExitFactory';
 import { createPickups, PickupSprite } from '../factories/PickupFactory';
 import { createEnemies, type EnemySprite } from '../factories/EnemyFactory';
+import { createObstacles } from '../factories/ObstacleFactory';
+import { createHazards, DEFAULT_HAZARD_DAMAGE } from '../factories/HazardFactory';
+import { SurfaceSystem } from '../systems/SurfaceSystem';
+import { RuleModifiersSystem } from '../systems/RuleModifiersSystem';
 import { EventBus } from '../EventBus';
 import type { InputState } from '../input/InputState';
 
 export interface GameSceneData {
     photoUrl: string;
+    /** One photo per segment of a stitched level (the first is photoUrl) */
+    photoUrls?: string[];
     sceneData: SceneV1;
     inputState: InputState;
     debugEnabled: boolean;
@@ -40,12 +55,12 @@ export interface GameSceneData {
 
 export class GameScene extends Scene {
     private sceneData!: SceneV1;
-    private photoUrl!: string;
+    private photoUrls!: string[];
     private inputState!: InputState;
     private debugEnabled!: boolean;
 
-    /** Texture key for the loaded photo */
-    private photoTextureKey?: string;
+    /** Texture keys for the loaded photos, by segment */
+    private photoTextureKeys: string[] = [];
 
     private worldW = 960;
     private worldH = 640;
@@ -69,8 +84,14 @@ export class GameScene extends Scene {
     /** Enemy group — needed for patrol update logic */
     private enemyGroup?: Phaser.Physics.Arcade.Group;
 
-    /** Current surface type the player is standing on (updated by collider callback) */
-    private currentSurfaceType: string = 'solid';
+    /** Scene rule modifiers — created in init() */
+    private rules!: RuleModifiersSystem;
+
+    /** Coins still to collect (gates the exit under collect_all_to_unlock_exit) */
+    private coinsLeft = 0;
+
+    /** Surface behaviours (fed by the platform collider callback) */
+    private surfaces!: SurfaceSystem;
 
     // Debug layer
     private debugLayer!: Phaser.GameObjects.Container;
@@ -81,24 +102,27 @@ export class GameScene extends Scene {
     }
 
     init(data: GameSceneData) {
-        this.photoUrl = data.photoUrl;
+        this.photoUrls = data.photoUrls ?? (data.photoUrl ? [data.photoUrl] : []);
         this.sceneData = data.sceneData;
         this.inputState = data.inputState;
         this.debugEnabled = data.debugEnabled ?? true;
+        this.rules = new RuleModifiersSystem(this.sceneData.rules);
         this.score = 0;
-        this.health = 10;
+        this.health = this.rules.startingHealth(10);
         this.gameWon = false;
         this.gameLost = false;
         this.invulnerableUntil = 0;
-        this.photoTextureKey = undefined;
+        this.photoTextureKeys = [];
 
-        // World dimensions from game config (PlayScreen sets these to photo dimensions)
-        this.worldW = this.scale.width || 960;
+        // World dimensions from game config (PlayScreen sets these to photo
+        // dimensions). A stitched level is one canvas wide per segment.
+        this.worldW = (this.scale.width || 960) * (this.sceneData.segments?.length ?? 1);
         this.worldH = this.scale.height || 640;
 
         // Compute physics values relative to world size + scene layout.
         // Jump height adapts to the largest vertical gap in the level.
-        this.phys = computePhysics(this.worldW, this.worldH, this.sceneData);
+        // Rule modifiers scale gravity and player speed on top of that.
+        this.phys = this.rules.applyToPhysics(computePhysics(this.worldW, this.worldH, this.sceneData));
 
         const anchors = this.sceneData.objects.filter(isEnemySpawnAnchor);
         console.info('[GameScene] init:', {
@@ -110,14 +134,17 @@ export class GameScene extends Scene {
             playerSpeed: Math.round(this.phys.playerSpeed),
             objects: this.sceneData.objects.length,
             enemySpawnAnchors: anchors.map(a => a.id),
+            rules: this.sceneData.rules.map(r => r.type),
         });
     }
 
     preload() {
-        if (this.photoUrl) {
-            this.photoTextureKey = 'game-photo-' + Date.now();
-            this.load.image(this.photoTextureKey, this.photoUrl);
-        }
+        const stamp = Date.now();
+        this.photoTextureKeys = this.photoUrls.map((url, i) => {
+            const key = `game-photo-${stamp}-${i}`;
+            this.load.image(key, url);
+            return key;
+        });
     }
 
     create() {
@@ -125,15 +152,22 @@ export class GameScene extends Scene {
         this.physics.world.gravity.y = this.phys.gravityY;
 
         // --- Photo background (darkened + blur for gameplay visibility) ---
-        if (this.photoTextureKey && this.textures.exists(this.photoTextureKey)) {
-            const photo = this.add.image(0, 0, this.photoTextureKey).setOrigin(0, 0);
-            photo.setDisplaySize(this.worldW, this.worldH);
-            photo.setAlpha(0.5);
-
-            // Apply a slight blur via Phaser's built-in pipeline
-            if (photo.postFX) {
-                photo.postFX.addBlur(0, 2, 2, 1);
-            }
+        // One photo per segment; a segment whose photo is missing stays dark.
+        const segments = this.sceneData.segments ?? [{ x: 0, w: 1 }];
+        if (this.photoTextureKeys.some(key => this.textures.exists(key))) {
+            segments.forEach((segment, i) => {
+                const key = this.photoTextureKeys[i];
+                if (!key || !this.textures.exists(key)) return;
+
+                const photo = this.add.image(segment.x * this.worldW, 0, key).setOrigin(0, 0);
+                photo.setDisplaySize(segment.w * this.worldW, this.worldH);
+                photo.setAlpha(0.5);
+
+                // Apply a slight blur via Phaser's built-in pipeline
+                if (photo.postFX) {
+                    photo.postFX.addBlur(0, 2, 2, 1);
+                }
+            });
 
             // Dark overlay on top of the photo for extra contrast
             this.add.rectangle(
@@ -167,14 +201,24 @@ export class GameScene extends Scene {
         const playerX = normToWorldX(spawn.x, this.worldW);
         const playerY = normToWorldY(spawn.y, this.worldH);
         this.player = createPlayer(this, playerX, playerY, this.phys);
+        this.surfaces = new SurfaceSystem(this, this.player, this.phys);
 
-        // Player <-> Platforms collision (callback tracks surface type)
+        // Player <-> Platforms collision (callback tracks the surface stood on)
         this.physics.add.collider(this.player, platformGroup, (_player, platObj) => {
-            const zone = platObj as Phaser.GameObjects.Zone;
-            const surfaceType = zone.getData('surfaceType') as string | undefined;
-            if (surfaceType) {
-                this.currentSurfaceType = surfaceType;
-            }
+            this.surfaces.stand(platObj as Phaser.GameObjects.Zone);
+        });
+
+        // --- Obstacles (solid) ---
+        const obstacleGroup = createObstacles(this, this.sceneData.objects, this.worldW, this.worldH);
+        this.physics.add.collider(this.player, obstacleGroup, (_player, obstacleObj) => {
+            this.surfaces.stand(obstacleObj as Phaser.GameObjects.Zone);
+        });
+
+        // --- Hazards (damage on contact) ---
+        const hazardGroup = createHazards(this, this.sceneData.objects, this.worldW, this.worldH);
+        this.physics.add.overlap(this.player, hazardGroup, (_player, hazardObj) => {
+            const damage = (hazardObj as Phaser.GameObjects.Zone).getData('damage') as number | undefined;
+            this.takeDamage(damage ?? DEFAULT_HAZARD_DAMAGE);
         });
 
         // --- Exit ---
@@ -186,9 +230,13 @@ export class GameScene extends Scene {
             this.phys,
         );
 
+        // Locked until the last coin is collected (coins are counted once created)
+        this.coinsLeft = 0;
+        const exitLocked = () => this.rules.exitRequiresAllCoins && this.coinsLeft > 0;
+
         // Player overlaps exit -> win
         this.physics.add.overlap(this.player, exitSprite, () => {
-            if (!this.gameWon) {
+            if (!this.gameWon && !exitLocked()) {
                 this.gameWon = true;
                 this.handleWin();
             }
@@ -203,6 +251,8 @@ export class GameScene extends Scene {
                 this.worldH,
                 this.phys,
             );
+            // Every coin sprite counts: a coin spawn is a stack of them (see PickupFactory)
+            this.coinsLeft = pickupGroup.getChildren().filter(c => (c as PickupSprite).pickupType !== 'health').length;
 
             this.physics.add.overlap(this.player, pickupGroup, (_player, pickup) => {
                 const p = pickup as PickupSprite;
@@ -218,10 +268,20 @@ export class GameScene extends Scene {
                     p.disableBody(true, true);
                     this.score += 1;
                     EventBus.emit('score-update', this.score);
+
+                    this.coinsLeft--;
+                    if (this.rules.exitRequiresAllCoins && this.coinsLeft === 0) {
+                        // Exit unlocked: restore it with a short pulse
+                        exitSprite.setAlpha(1);
+                        this.tweens.add({ targets: exitSprite, scale: exitSprite.scale * 1.3, duration: 150, yoyo: true });
+                    }
                 }
             });
         }
 
+        // Locked exits are dimmed until then
+        if (exitLocked()) exitSprite.setAlpha(0.35);
+
         // --- Enemies ---
         if (this.sceneData.spawns.enemies.length > 0) {
             this.enemyGroup = createEnemies(
@@ -253,31 +313,27 @@ export class GameScene extends Scene {
                 enemy.patrolReady = true;
             });
 
+            this.rules.applyToEnemies(this.enemyGroup);
+
+            // Obstacles block enemies too (patrol reverses on blocked sides)
+            this.physics.add.collider(this.enemyGroup, obstacleGroup);
+
             // Player overlaps enemy -> take damage
             this.physics.add.overlap(this.player, this.enemyGroup, () => {
-                if (this.gameWon || this.gameLost) return;
-                if (this.time.now < this.invulnerableUntil) return;
-
-                this.health = Math.max(0, this.health - 2);
-                this.invulnerableUntil = this.time.now + 1000; // 1s invulnerability
-                EventBus.emit('health-update', this.health);
-
-                // Brief red flash to indicate damage
-                this.player.setTintFill(0xff4444);
-                this.time.delayedCall(200, () => {
-                    this.player.clearTint();
-                });
-
-                if (this.health <= 0) {
-                    this.gameLost = true;
-                    this.handleLose();
-                }
+                this.takeDamage(2);
             });
         }
 
         // Emit initial health so UI is in sync
         EventBus.emit('health-update', this.health);
 
+        // Time limit (if any) — running out loses the level
+        this.rules.startTimer(this, () => {
+            if (this.gameWon || this.gameLost) return;
+            this.gameLost = true;
+            this.handleLose();
+        });
+
         // Score is shown in the React header — no in-game HUD needed
 
         // --- Debug overlay ---
@@ -313,7 +369,7 @@ export class GameScene extends Scene {
         EventBus.emit('current-scene-ready', this);
     }
 
-    update() {
+    update(_time: number, delta: number) {
         if (this.gameWon || this.gameLost) return;
 
         const body = this.player.body as Phaser.Physics.Arcade.Body;
@@ -332,30 +388,18 @@ export class GameScene extends Scene {
             || this.spaceKey?.isDown
             || this.wasd?.W?.isDown;
 
-        // Surface modifiers (soft = slower movement, normal jump)
-        const onSoft = body.blocked.down && this.currentSurfaceType === 'soft';
-        const speedMul = onSoft ? 0.35 : 1;
-        const jumpMul = 1;
-
-        // Horizontal movement (world-relative speed)
-        const speed = this.phys.playerSpeed * speedMul;
-        if (left) {
-            body.setVelocityX(-speed);
-        } else if (right) {
-            body.setVelocityX(speed);
-        } else {
-            body.setVelocityX(0);
-        }
+        // Horizontal movement (world-relative speed, surface-adjusted)
+        const speed = this.phys.playerSpeed * this.surfaces.speedMultiplier(body);
+        const targetVx = left ? -speed : right ? speed : 0;
+        body.setVelocityX(this.surfaces.steer(body, targetVx, delta));
 
-        // Jump (only when touching ground, world-relative velocity)
-        if (jump && body.blocked.down) {
-            body.setVelocityY(this.phys.jumpVelocity * jumpMul);
+        // Bouncy surfaces launch on their own; otherwise jump only when
+        // touching ground (world-relative velocity)
+        if (!this.surfaces.bounce(body) && jump && body.blocked.down) {
+            body.setVelocityY(this.phys.jumpVelocity);
         }
 
-        // Reset surface type when airborne (will be set again on next landing)
-        if (!body.blocked.down) {
-            this.currentSurfaceType = 'solid';
-        }
+        this.surfaces.update(body);
 
         // Consume jump to prevent continuous jumping from held button
         if (jump && !body.blocked.down) {
@@ -416,7 +460,30 @@ export class GameScene extends Scene {
         }
     }
 
+    /** Lose `amount` HP, then stay invulnerable for a second. */
+    private takeDamage(amount: number) {
+        if (this.gameWon || this.gameLost) return;
+        if (this.time.now < this.invulnerableUntil) return;
+        if (amount <= 0) return;
+
+        this.health = Math.max(0, this.health - amount);
+        this.invulnerableUntil = this.time.now + 1000; // 1s invulnerability
+        EventBus.emit('health-update', this.health);
+
+        // Brief red flash to indicate damage
+        this.player.setTintFill(0xff4444);
+        this.time.delayedCall(200, () => {
+            this.player.clearTint();
+        });
+
+        if (this.health <= 0) {
+            this.gameLost = true;
+            this.handleLose();
+        }
+    }
+
     private handleWin() {
+        this.rules.stopTimer();
         const body = this.player.body as Phaser.Physics.Arcade.Body;
         body.setVelocity(0, 0);
         body.setAllowGravity(false);
@@ -424,6 +491,7 @@ export class GameScene extends Scene {
     }
 
     private handleLose() {
+        this.rules.stopTimer();
         const body = this.player.body as Phaser.Physics.Arcade.Body;
         body.setVelocity(0, 0);
         body.setAllowGravity(false);
@@ -16,7 +16,8 @@
  *
  * The world size is set to match the photo's actual aspect ratio so
  * nothing gets squashed. Phaser Scale.FIT handles fitting it into the
- * container on screen.
+ * container on screen. Stitched levels (scene.segments) show all their
+ * photos side by side, each stretched to the first photo's size.
  *
  * Debug overlay can be toggled via EventBus from React.
  */
@@ -45,13 +46,15 @@ const TYPE_ALPHA: Record<string, number> = {
 
 export interface PreviewSceneData {
     photoUrl: string;
+    /** One photo per segment of a stitched level (the first is photoUrl) */
+    photoUrls?: string[];
     sceneData: SceneV1;
     debugEnabled: boolean;
 }
 
 export class PreviewScene extends Scene {
     private sceneData!: SceneV1;
-    private photoUrl!: string;
+    private photoUrls!: string[];
     private debugEnabled!: boolean;
 
     /** Actual world size - derived from the photo dimensions */
@@ -68,12 +71,12 @@ export class PreviewScene extends Scene {
     }
 
     init(data: PreviewSceneData) {
-        this.photoUrl = data.photoUrl;
+        this.photoUrls = data.photoUrls ?? (data.photoUrl ? [data.photoUrl] : []);
         this.sceneData = data.sceneData;
         this.debugEnabled = data.debugEnabled ?? true;
 
         console.info('[PreviewScene] init:', {
-            hasPhoto: !!this.photoUrl,
+            photos: this.photoUrls.length,
             objects: this.sceneData?.objects?.length ?? 0,
             enemies: this.sceneData?.spawns?.enemies?.length ?? 0,
             pickups: this.sceneData?.spawns?.pickups?.length ?? 0,
@@ -82,36 +85,46 @@ export class PreviewScene extends Scene {
     }
 
     preload() {
-        if (this.photoUrl) {
-            const key = 'user-photo-' + Date.now();
-            this.load.image(key, this.photoUrl);
-            this.data.set('photoKey', key);
-        }
+        const stamp = Date.now();
+        const keys = this.photoUrls.map((url, i) => {
+            const key = `user-photo-${stamp}-${i}`;
+            this.load.image(key, url);
+            return key;
+        });
+        this.data.set('photoKeys', keys);
     }
 
     create() {
-        const photoKey = this.data.get('photoKey') as string | undefined;
+        const photoKeys = (this.data.get('photoKeys') as string[] | undefined) ?? [];
+        const photoKey = photoKeys[0];
 
         if (photoKey && this.textures.exists(photoKey)) {
             // Get the actual photo dimensions from the loaded texture
             const frame = this.textures.getFrame(photoKey);
             const photoW = frame.width;
             const photoH = frame.height;
+            const segments = this.sceneData.segments ?? [{ x: 0, w: 1 }];
 
-            console.info(`[PreviewScene] Photo loaded: ${photoW}x${photoH}`);
+            console.info(`[PreviewScene] Photo loaded: ${photoW}x${photoH}, segments=${segments.length}`);
 
             // Resize the game to match the photo's aspect ratio.
-            // Use the photo's native dimensions as the world size.
-            // Phaser Scale.FIT will handle fitting it into the container.
-            this.worldW = photoW;
+            // Use the photo's native dimensions as the world size (one
+            // photo width per segment). Phaser Scale.FIT will handle
+            // fitting it into the container.
+            this.worldW = photoW * segments.length;
             this.worldH = photoH;
-            this.scale.resize(photoW, photoH);
-
-            // Render photo at its native size - no stretching
-            const photo = this.add.image(0, 0, photoKey).setOrigin(0, 0);
-            photo.setDisplaySize(photoW, photoH);
-
-            console.info(`[PreviewScene] World resized to ${photoW}x${photoH}`);
+            this.scale.resize(this.worldW, this.worldH);
+
+            // Render the first photo at its native size, later segments
+            // stretched to match
+            segments.forEach((segment, i) => {
+                const key = photoKeys[i];
+                if (!key || !this.textures.exists(key)) return;
+                const photo = this.add.image(segment.x * this.worldW, 0, key).setOrigin(0, 0);
+                photo.setDisplaySize(segment.w * this.worldW, photoH);
+            });
+
+            console.info(`[PreviewScene] World resized to ${this.worldW}x${this.worldH}`);
         } else {
             // Fallback: keep default size, dark background
             this.add.rectangle(this.worldW / 2, this.worldH / 2, this.worldW, this.worldH, 0x1a1a2e);
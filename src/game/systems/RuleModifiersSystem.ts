@@ -0,0 +1,94 @@
+/**
+ * RULE MODIFIERS SYSTEM
+ * ======================
+ *
+ * Applies a scene's `rules` (RuleModifierSchema) when GameScene starts:
+ *
+ *   gravity_multiplier         → scales ComputedPhysics.gravityY
+ *   player_speed_multiplier    → scales ComputedPhysics.playerSpeed
+ *   enemy_speed_multiplier     → scales every enemy's patrol speed
+ *   starting_health            → HP the player starts with
+ *   time_limit                 → countdown; the level is lost at zero
+ *   collect_all_to_unlock_exit → the exit ignores the player until every
+ *                                coin has been collected
+ *
+ * Jump velocity is left alone, so lower gravity means higher jumps.
+ * maxJumpHeight keeps describing the unmodified jump — the one platform
+ * placement and the builder's reachability proof are based on.
+ *
+ * The countdown is reported through EventBus 'time-update' (seconds left).
+ */
+
+import { findRule, type RuleModifier } from '../../shared/types/RuleModifier';
+import type { ComputedPhysics } from '../physics/PhysicsConfig';
+import type { EnemySprite } from '../factories/EnemyFactory';
+import { EventBus } from '../EventBus';
+
+export class RuleModifiersSystem {
+    /** Countdown timer, while one is running */
+    private timer?: Phaser.Time.TimerEvent;
+
+    constructor(private readonly rules: readonly RuleModifier[]) {}
+
+    /** Physics values with the gravity and player speed multipliers applied. */
+    applyToPhysics(phys: ComputedPhysics): ComputedPhysics {
+        const gravity = findRule(this.rules, 'gravity_multiplier')?.value ?? 1;
+        const speed = findRule(this.rules, 'player_speed_multiplier')?.value ?? 1;
+        return {
+            ...phys,
+            gravityY: phys.gravityY * gravity,
+            playerSpeed: phys.playerSpeed * speed,
+        };
+    }
+
+    /** Scale the patrol speed of every enemy in `group`. */
+    applyToEnemies(group: Phaser.Physics.Arcade.Group) {
+        const mul = findRule(this.rules, 'enemy_speed_multiplier')?.value ?? 1;
+        if (mul === 1) return;
+
+        for (const obj of group.getChildren()) {
+            const enemy = obj as EnemySprite;
+            enemy.patrolSpeed *= mul;
+            const body = enemy.body as Phaser.Physics.Arcade.Body;
+            body.setVelocityX(body.velocity.x * mul);
+        }
+    }
+
+    /** Starting HP, or `fallback` when the scene doesn't set one. */
+    startingHealth(fallback: number): number {
+        return findRule(this.rules, 'starting_health')?.value ?? fallback;
+    }
+
+    /** True if the exit stays locked until every coin is collected. */
+    get exitRequiresAllCoins(): boolean {
+        return findRule(this.rules, 'collect_all_to_unlock_exit') !== undefined;
+    }
+
+    /**
+     * Start the countdown, if the scene has a time limit. Emits the seconds
+     * left once a second and calls `onExpired` when they run out.
+     */
+    startTimer(scene: Phaser.Scene, onExpired: () => void) {
+        const limit = findRule(this.rules, 'time_limit');
+        if (!limit) return;
+
+        let remaining = limit.seconds;
+        EventBus.emit('time-update', remaining);
+
+        this.timer = scene.time.addEvent({
+            delay: 1000,
+            repeat: remaining - 1,
+            callback: () => {
+                remaining--;
+                EventBus.emit('time-update', remaining);
+                if (remaining <= 0) onExpired();
+            },
+        });
+    }
+
+    /** Stop the countdown (level won or lost). */
+    stopTimer() {
+        this.timer?.remove();
+        this.timer = undefined;
+    }
+}
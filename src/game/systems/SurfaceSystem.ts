@@ -0,0 +1,176 @@
+/**
+ * SURFACE SYSTEM
+ * ===============
+ *
+ * Gives platform surface types their gameplay behaviour. GameScene reports
+ * the platform the player is standing on (from the platform collider
+ * callback) and asks this system how to move the player every frame.
+ *
+ *   solid     → normal movement
+ *   soft      → walking speed × SOFT_SPEED_MUL
+ *   bouncy    → landing auto-launches the player at BOUNCE_MUL × jump velocity
+ *   slippery  → low grip: horizontal velocity eases toward the input instead
+ *               of snapping to it. The slide carries through the air until
+ *               the player lands on a grippy surface.
+ *   breakable → crumbles CRUMBLE_DELAY_MS after it is first stood on. Its
+ *               tiles (zone.getData('tiles')) fall away and the body is
+ *               disabled. It comes back after game_mechanics.respawn_ms
+ *               (stored as zone.getData('respawnMs'), 0 = never), waiting
+ *               while the player is inside its bounds.
+ *
+ * Values mirror PhysicsConfig: everything is relative to the computed jump
+ * velocity and player speed, so the feel is the same on any world size.
+ */
+
+import { Geom } from 'phaser';
+import type { SurfaceType } from '../../shared/schema/scene_v1.types';
+import type { ComputedPhysics } from '../physics/PhysicsConfig';
+
+/** Walking speed multiplier on soft surfaces */
+const SOFT_SPEED_MUL = 0.35;
+
+/** Bouncy launch velocity as a multiple of the normal jump velocity */
+const BOUNCE_MUL = 1.2;
+
+/** How fast velocity converges on the input while sliding (per second) */
+const SLIPPERY_GRIP = 2.5;
+
+/** Time a breakable platform holds after first contact (ms) */
+const CRUMBLE_DELAY_MS = 500;
+
+/** Duration of the tiles falling away (ms) */
+const CRUMBLE_FALL_MS = 450;
+
+/** Delay between consecutive tiles starting to fall (ms) */
+const CRUMBLE_STAGGER_MS = 30;
+
+/** Respawn delay when the scene doesn't set game_mechanics.respawn_ms (ms) */
+export const DEFAULT_RESPAWN_MS = 4000;
+
+/** Retry interval while the player blocks a respawn (ms) */
+const RESPAWN_RETRY_MS = 250;
+
+/** Fade-in duration of respawned tiles (ms) */
+const RESPAWN_FADE_MS = 300;
+
+/** Where a tile sat before crumbling, so it can be put back */
+interface TileHome { x: number; y: number; alpha: number }
+
+export class SurfaceSystem {
+    /** Surface the player is standing on (reset to solid when airborne) */
+    private current: SurfaceType = 'solid';
+
+    /** True from landing on a slippery surface until landing on a grippy one */
+    private sliding = false;
+
+    constructor(
+        private readonly scene: Phaser.Scene,
+        private readonly player: Phaser.Physics.Arcade.Sprite,
+        private readonly phys: ComputedPhysics,
+    ) {}
+
+    /** Collider callback: the player touched `zone`. Only landings count. */
+    stand(zone: Phaser.GameObjects.Zone) {
+        const body = this.player.body as Phaser.Physics.Arcade.Body;
+        if (!body.blocked.down && !body.touching.down) return; // side or ceiling hit
+
+        this.current = (zone.getData('surfaceType') as SurfaceType | undefined) ?? 'solid';
+        this.sliding = this.current === 'slippery';
+
+        if (this.current === 'breakable') {
+            this.crumble(zone);
+        }
+    }
+
+    /** Horizontal speed multiplier for this frame. */
+    speedMultiplier(body: Phaser.Physics.Arcade.Body): number {
+        return body.blocked.down && this.current === 'soft' ? SOFT_SPEED_MUL : 1;
+    }
+
+    /** Horizontal velocity for this frame, given the velocity the input asks for. */
+    steer(body: Phaser.Physics.Arcade.Body, targetVx: number, delta: number): number {
+        if (!this.sliding) return targetVx;
+
+        // Frame-rate independent ease toward the target
+        const t = 1 - Math.exp(-SLIPPERY_GRIP * delta / 1000);
+        return body.velocity.x + (targetVx - body.velocity.x) * t;
+    }
+
+    /** Launch the player off a bouncy surface. Returns true if it did. */
+    bounce(body: Phaser.Physics.Arcade.Body): boolean {
+        if (this.current !== 'bouncy' || !body.blocked.down) return false;
+
+        body.setVelocityY(this.phys.jumpVelocity * BOUNCE_MUL);
+        this.current = 'solid';
+        return true;
+    }
+
+    /** Per-frame housekeeping, after movement has been applied. */
+    update(body: Phaser.Physics.Arcade.Body) {
+        // Forget the surface when airborne (set again on the next landing).
+        // `sliding` deliberately survives so momentum carries through jumps.
+        if (!body.blocked.down) {
+            this.current = 'solid';
+        }
+    }
+
+    // -----------------------------------------------------------------------
+    // Breakable platforms
+    // -----------------------------------------------------------------------
+
+    private crumble(zone: Phaser.GameObjects.Zone) {
+        if (zone.getData('crumbling')) return;
+        zone.setData('crumbling', true);
+
+        const tiles = (zone.getData('tiles') as Phaser.GameObjects.Image[] | undefined) ?? [];
+        const homes: TileHome[] = tiles.map(t => ({ x: t.x, y: t.y, alpha: t.alpha }));
+
+        // Warning wobble while the platform still holds
+        const wobble = this.scene.tweens.add({
+            targets: tiles,
+            angle: { from: -6, to: 6 },
+            duration: 70,
+            yoyo: true,
+            repeat: -1,
+        });
+
+        this.scene.time.delayedCall(CRUMBLE_DELAY_MS, () => {
+            wobble.stop();
+            (zone.body as Phaser.Physics.Arcade.StaticBody).enable = false;
+
+            tiles.forEach((tile, i) => {
+                this.scene.tweens.add({
+                    targets: tile,
+                    y: tile.y + tile.displayHeight * 3,
+                    angle: i % 2 === 0 ? -35 : 35,
+                    alpha: 0,
+                    duration: CRUMBLE_FALL_MS,
+                    delay: i * CRUMBLE_STAGGER_MS,
+                    ease: 'Quad.easeIn',
+                });
+            });
+
+            const respawnMs = (zone.getData('respawnMs') as number | undefined) ?? DEFAULT_RESPAWN_MS;
+            if (respawnMs > 0) {
+                this.scene.time.delayedCall(respawnMs, () => this.respawn(zone, tiles, homes));
+            }
+        });
+    }
+
+    private respawn(zone: Phaser.GameObjects.Zone, tiles: Phaser.GameObjects.Image[], homes: TileHome[]) {
+        // Never rematerialise inside the player
+        if (Geom.Intersects.RectangleToRectangle(this.player.getBounds(), zone.getBounds())) {
+            this.scene.time.delayedCall(RESPAWN_RETRY_MS, () => this.respawn(zone, tiles, homes));
+            return;
+        }
+
+        tiles.forEach((tile, i) => {
+            this.scene.tweens.killTweensOf(tile);
+            tile.setPosition(homes[i].x, homes[i].y).setAngle(0).setAlpha(0);
+            this.scene.tweens.add({ targets: tile, alpha: homes[i].alpha, duration: RESPAWN_FADE_MS });
+        });
+
+        (zone.body as Phaser.Physics.Arcade.StaticBody).enable = true;
+        zone.setData('crumbling', false);
+    }
+}
@@ -11,8 +11,14 @@
  * Content-Type: multipart/form-data
  * 
  * Request:
- *   - Field name: "image" (required) - the photo file/blob
+ *   - Field name: "image" (required) - the photo file/blob. Repeat it with
+ *     2–4 photos for a horizontally scrolling level stitched from all of them
+ *   - Field name: "strategy" (optional) - layout strategy, e.g. "photo"
+ *   - Field name: "difficulty" (optional) - "easy" | "normal" | "hard"
+ *   - Field name: "seed" (optional) - layout RNG seed (unsigned integer)
+ *   - Field name: "locale" (optional) - language of the level name, e.g. "de-DE"
  *   - Header: "x-request-id" (optional) - for request tracing
+ *   - Header: "x-debug-token" (optional) - asks for `_debug` (see DEBUG)
  * 
  * Response (200 OK):
  *   {
@@ -25,24 +31,139 @@
  *       "enemies": [...],
  *       "pickups": [...]
  *     },
- *     "rules": [...]
+ *     "rules": [...],
+ *     "segments": [{ "x": number, "w": number }, ...],  // multi-photo only
+ *     "seed": number, "strategy": string, "builder_version": number,
+ *     "prompt": { "id": string, "hash": string }
  *   }
  * 
  * Error Response (4xx/5xx):
- *   { "error": "description" }
+ *   { "error": "description", "code": "AI_INVALID_JSON", "retry_after"?: number }
+ *   `code` is stable (see src/shared/types/ApiError.ts) and ends up as
+ *   UploadError.code; the error screen maps it to its own copy.
+ *
+ * DEBUG:
+ * ------
+ * `_debug` (raw AI answer, detections, validation; provider details on
+ * errors) is only sent when the server allows debug responses and the
+ * request carries `debugToken`. Reroll doesn't need it: every level carries
+ * the `detections` it was built from.
  * 
  * TESTING WITH CURL:
  * ------------------
  * curl -i -X POST "http://localhost:3001/api/scene" \
  *   -H "x-request-id: req_CURLTEST" \
  *   -F "image=@/path/to/photo.jpg"
+ *
+ * PROGRESS:
+ * ---------
+ * Passing `onProgress` sends `Accept: text/event-stream`; the server then
+ * streams its pipeline stages as Server-Sent Events and ends with a `done`
+ * event carrying the response above. A plain JSON answer is handled the
+ * same as without `onProgress`. See src/shared/types/SceneProgress.ts.
+ *
+ * JOBS:
+ * -----
+ * POST /api/scene/jobs takes the same upload and answers 202 with a job;
+ * GET /api/scene/jobs/:id reports its stage, then `result` (the response
+ * above) or `error`. generateSceneWithJob() submits and polls.
+ * See src/shared/types/SceneJob.ts.
+ *
+ * RESILIENCE:
+ * -----------
+ * Every request goes through upload_transport.ts: `signal` cancels it,
+ * `timeoutMs` bounds each attempt, and 429 / 5xx / network errors are
+ * retried with exponential backoff (honoring Retry-After). With
+ * `onUploadProgress` the photo upload reports bytes sent.
+ *
+ * REROLL:
+ * -------
+ * Endpoint: POST /api/scene/rebuild (application/json)
+ * Body: { detections, seed?, strategy?, difficulty? } — `detections` is the
+ * `detections` of an earlier response (an array for multi-photo levels).
+ * No AI call; omitting the seed gives a new layout.
  */
 
+import type {
+    DetectionPostprocess,
+    DetectionPromptRef,
+    DetectionResponse,
+    DetectionUsage,
+    DetectionValidation,
+    ImagePreprocess,
+} from '../shared/types/Detection';
+import type { SceneJob } from '../shared/types/SceneJob';
+import {
+    SCENE_EVENT_STREAM,
+    splitSceneFrames,
+    type SceneErrorEvent,
+    type SceneStageEvent,
+} from '../shared/types/SceneProgress';
+import {
+    sendWithRetry,
+    UploadError,
+    type RetryInfo,
+    type UploadProgress,
+} from './upload_transport';
+
+/** One photo's detections as the builder got them (`_debug.detections`) */
+export type DebugDetections = DetectionResponse & {
+    /** What post-processing filtered, merged or relabeled, and the detections before it */
+    postprocess?: DetectionPostprocess;
+    /** The photo's true size and orientation, the metadata stripped from it and the size it was sent at */
+    preprocess?: ImagePreprocess;
+};
+
+/** Detection cache lookup for one photo (`_debug.cache`) */
+export interface DetectionCacheStatus {
+    hit: boolean;
+    key: string;
+}
+
 export interface UploadParams {
     blob: Blob;
+    /** All photos for a stitched level, in order (2–4; overrides `blob`) */
+    blobs?: Blob[];
     filename?: string;
     endpoint?: string;
     requestId?: string;
+    /** Layout strategy for the level builder (e.g. "photo"); omit for a random generated layout */
+    strategy?: string;
+    /** Difficulty profile for the level builder; omit for "normal" */
+    difficulty?: string;
+    /** Layout RNG seed; omit to derive one from the detections */
+    seed?: number;
+    /** Language for the level name, e.g. navigator.language; omit for English */
+    locale?: string;
+    /** Called as the server reports each pipeline stage (asks for a progress stream) */
+    onProgress?: (event: SceneStageEvent) => void;
+    /** Called as the photos are sent (bytes), for upload progress */
+    onUploadProgress?: (progress: UploadProgress) => void;
+    /** Cancels the upload (and any polling or pending retry) */
+    signal?: AbortSignal;
+    /** Time one request may take (ms); default 90s */
+    timeoutMs?: number;
+    /** Automatic retries after a 429, 5xx or network error; default 2 */
+    retries?: number;
+    /** Called before each automatic retry */
+    onRetry?: (info: RetryInfo) => void;
+    /** Sent as x-debug-token to ask for `_debug` */
+    debugToken?: string;
+}
+
+export interface RebuildParams {
+    /** Stored detections from an earlier response (its `detections`) */
+    detections: unknown;
+    endpoint?: string;
+    requestId?: string;
+    /** Seed to rebuild; omit for a fresh random layout */
+    seed?: number;
+    strategy?: string;
+    difficulty?: string;
+    /** Cancels the rebuild */
+    signal?: AbortSignal;
+    /** Sent as x-debug-token to ask for `_debug` */
+    debugToken?: string;
 }
 
 /**
@@ -60,70 +181,133 @@ export interface SceneResponse {
         pickups: unknown[];
     };
     rules: unknown[];
+    /** One span per photo (normalized X) — only present for multi-photo levels */
+    segments?: { x: number; w: number }[];
     /** AI-generated player name in adjective-adjective-noun format */
     player_name?: string;
     /** AI-generated level name based on photo content */
     level_name?: string;
-    /** Raw AI detection data — only present in non-mock responses */
+    /** Seed the layout was built from — send it back to rebuild the same level */
+    seed?: number;
+    /** Layout strategy the builder used */
+    strategy?: string;
+    /** Level builder version that produced this scene */
+    builder_version?: number;
+    /** Prompt the detections were asked with (kept through rerolls) */
+    prompt?: DetectionPromptRef;
+    /** Detections the level was built from, before post-processing — send them back to reroll (not in mock responses) */
+    detections?: DetectionResponse | DetectionResponse[];
+    /** Raw AI detection data — only present for debug requests (not in mock responses) */
     _debug?: {
+        /** The prompt, with its version and the locale of its naming template */
+        prompt?: DetectionPromptRef & { version: number; locale: string };
         raw_ai_response: string;
-        detections: unknown;
+        /** Detections for the photo, or one per photo for multi-photo levels */
+        detections: DebugDetections | DebugDetections[];
+        /** How the detections were validated (attempts, repairs, salvage), one per photo for multi-photo levels */
+        validation?: DetectionValidation | DetectionValidation[];
+        /** Whether the detections came from the image-hash cache (null when caching is off), one per photo for multi-photo levels */
+        cache?: DetectionCacheStatus | null | (DetectionCacheStatus | null)[];
+        /** Tokens, model time and retries the detection took (null for cache hits and fixtures), one per photo for multi-photo levels */
+        usage?: DetectionUsage | null | (DetectionUsage | null)[];
+        /** Path the level builder proved from spawn to exit, and how many repairs it took */
+        reachability?: {
+            path: { id: string; x: number; y: number }[];
+            repairs: number;
+        };
     };
 }
 
-export class UploadError extends Error {
-    constructor(
-        message: string,
-        public status: number,
-        public responseText: string
-    ) {
-        super(message);
-        this.name = 'UploadError';
+export { UploadError };
+export type { RetryInfo, UploadProgress };
+
+/**
+ * Seconds to wait before retrying: the Retry-After header, else
+ * `retry_after` in the JSON error body.
+ */
+function parseRetryAfter(response: Response, responseText: string): number | undefined {
+    let seconds = Number(response.headers.get('Retry-After'));
+    if (!(seconds > 0)) {
+        try {
+            seconds = Number((JSON.parse(responseText) as { retry_after?: unknown }).retry_after);
+        } catch {
+            return undefined;
+        }
     }
+    return seconds > 0 ? Math.ceil(seconds) : undefined;
 }
 
 /**
  * Upload an image blob to the backend and receive Scene JSON.
  * 
  * @param params.blob - The compressed image blob to upload
+ * @param params.blobs - Optional 2–4 blobs for a multi-photo level (sent instead of `blob`)
  * @param params.filename - Optional filename (default: "photo.jpg")
  * @param params.endpoint - Optional endpoint URL (default: dev server)
  * @param params.requestId - Optional request ID for tracing
+ * @param params.strategy - Optional layout strategy for the level builder
+ * @param params.difficulty - Optional difficulty profile for the level builder
+ * @param params.seed - Optional layout seed (reproduces an earlier level)
+ * @param params.onProgress - Optional stage callback; streams progress when the server supports it
+ * @param params.onUploadProgress - Optional callback with the bytes of the photos sent so far
+ * @param params.signal - Optional AbortSignal; aborting rejects with an AbortError
+ * @param params.timeoutMs - Optional per-attempt timeout (default: 90s)
+ * @param params.retries - Optional number of automatic retries (default: 2)
+ * @param params.onRetry - Optional callback before each automatic retry
+ * @param params.debugToken - Optional token asking for `_debug` in the response
  * @returns Promise resolving to Scene JSON
- * @throws UploadError on non-2xx response
+ * @throws UploadError on non-2xx response (after retries), or status 0 for a network error or timeout
  */
 export async function uploadImageForScene(params: UploadParams): Promise<SceneResponse> {
     const {
-        blob,
-        filename = 'photo.jpg',
         endpoint,
-        requestId,
+        onProgress,
     } = params;
 
     // Use provided endpoint, or relative URL (works for both Vite proxy in dev and Vercel in prod)
     const url = endpoint || '/api/scene';
 
-    const formData = new FormData();
-    formData.append('image', blob, filename);
+    const headers = requestHeaders(params);
+    if (onProgress) {
+        headers['Accept'] = `${SCENE_EVENT_STREAM}, application/json`;
+    }
+
+    return sendWithRetry(url, { ...transportOptions(params), method: 'POST', headers, body: sceneFormData(params) }, async (response) => {
+        if (onProgress && response.ok && response.headers.get('Content-Type')?.startsWith(SCENE_EVENT_STREAM)) {
+            return readSceneStream(response, onProgress);
+        }
+        return readSceneJson(response, 'Upload failed');
+    });
+}
 
-    const headers: HeadersInit = {};
+/** Tracing and debug headers for `params` */
+function requestHeaders({ requestId, debugToken }: { requestId?: string; debugToken?: string }): Record<string, string> {
+    const headers: Record<string, string> = {};
     if (requestId) {
         headers['x-request-id'] = requestId;
     }
+    if (debugToken) {
+        headers['x-debug-token'] = debugToken;
+    }
+    return headers;
+}
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: formData,
-    });
+/** The retry, timeout and progress options of `params`, for sendWithRetry() */
+function transportOptions(params: UploadParams) {
+    const { signal, timeoutMs, retries, onRetry, onUploadProgress } = params;
+    return { signal, timeoutMs, retries, onRetry, onUploadProgress };
+}
 
+/** Scene JSON from a response, or an UploadError for a non-2xx one */
+async function readSceneJson(response: Response, failure: string): Promise<SceneResponse> {
     const responseText = await response.text();
 
     if (!response.ok) {
         throw new UploadError(
-            `Upload failed: ${response.status} ${response.statusText}`,
+            `${failure}: ${response.status} ${response.statusText}`,
             response.status,
-            responseText
+            responseText,
+            parseRetryAfter(response, responseText)
         );
     }
 
@@ -137,3 +321,255 @@ export async function uploadImageForScene(params: UploadParams): Promise<SceneRe
         );
     }
 }
+
+/** The multipart body for /api/scene and /api/scene/jobs */
+function sceneFormData(params: UploadParams): FormData {
+    const { blob, blobs, filename = 'photo.jpg', strategy, difficulty, seed, locale } = params;
+
+    const formData = new FormData();
+    if (blobs && blobs.length > 1) {
+        blobs.forEach((b, i) => formData.append('image', b, `${i + 1}-${filename}`));
+    } else {
+        formData.append('image', blob, filename);
+    }
+    if (strategy) {
+        formData.append('strategy', strategy);
+    }
+    if (difficulty) {
+        formData.append('difficulty', difficulty);
+    }
+    if (seed !== undefined) {
+        formData.append('seed', String(seed));
+    }
+    if (locale) {
+        formData.append('locale', locale);
+    }
+    return formData;
+}
+
+/** Pause between job polls (ms) */
+const JOB_POLL_INTERVAL_MS = 1500;
+
+/** Polls in a row that may fail to connect before giving up */
+const MAX_FAILED_POLLS = 10;
+
+/**
+ * Generate a scene through the job API: submit the upload, then poll
+ * until the level is ready. A dropped connection or a backgrounded tab
+ * doesn't lose the level, since the server keeps building it and polling
+ * picks up where it left off (at once when the tab becomes visible again).
+ *
+ * Falls back to a direct uploadImageForScene() when the server has no job
+ * API (404 / 405 on submit), and when the job is lost (404 on a poll): it
+ * expired, or the server restarted. Vercel keeps jobs only per instance,
+ * so production clients stream uploadImageForScene() instead (see UploadFlow).
+ *
+ * @param params - As for uploadImageForScene; `endpoint` is the jobs endpoint
+ *   (default: /api/scene/jobs) and `onProgress` gets the job's stages
+ * @returns Promise resolving to Scene JSON
+ * @throws UploadError when the job can't be submitted, fails, or is lost
+ */
+export async function generateSceneWithJob(params: UploadParams): Promise<SceneResponse> {
+    const { endpoint, onProgress, signal, timeoutMs, retries } = params;
+    const url = endpoint || '/api/scene/jobs';
+
+    const headers = requestHeaders(params);
+
+    // The job's lines in the server logs carry the id of the request that submitted it
+    let submitId: string | undefined;
+    const submitted = await sendWithRetry(url, { ...transportOptions(params), method: 'POST', headers, body: sceneFormData(params) },
+        async (response) => {
+            submitId = response.headers.get('x-request-id') ?? undefined;
+            const responseText = await response.text();
+            if (response.status === 404 || response.status === 405) {
+                return undefined;
+            }
+            if (!response.ok) {
+                throw new UploadError(
+                    `Upload failed: ${response.status} ${response.statusText}`,
+                    response.status,
+                    responseText,
+                    parseRetryAfter(response, responseText)
+                );
+            }
+            return parseJob(response, responseText);
+        });
+    if (!submitted) {
+        // No job API on this server: upload directly
+        return uploadImageForScene({ ...params, endpoint: undefined });
+    }
+
+    let job = submitted;
+    let failedPolls = 0;
+    for (;;) {
+        if (job.stage) {
+            onProgress?.(job.stage);
+        }
+        if (job.status === 'done' && job.result) {
+            return job.result as unknown as SceneResponse;
+        }
+        if (job.status === 'failed' && job.error) {
+            const { status, ...body } = job.error;
+            const failed = new UploadError(
+                `Upload failed: ${status}`,
+                status,
+                JSON.stringify(body),
+                typeof body.retry_after === 'number' ? body.retry_after : undefined
+            );
+            failed.requestId = submitId;
+            throw failed;
+        }
+
+        await waitForPoll(JOB_POLL_INTERVAL_MS, signal);
+
+        let polled: SceneJob | undefined;
+        try {
+            polled = await sendWithRetry(`${url}/${encodeURIComponent(job.id)}`, { method: 'GET', headers, signal, timeoutMs, retries },
+                async (response) => {
+                    const responseText = await response.text();
+                    if (response.status === 404) {
+                        return undefined;
+                    }
+                    if (!response.ok) {
+                        throw new UploadError(
+                            `Polling failed: ${response.status} ${response.statusText}`,
+                            response.status,
+                            responseText
+                        );
+                    }
+                    return parseJob(response, responseText);
+                });
+            failedPolls = 0;
+        } catch (err) {
+            // Offline or suspended: the job keeps running on the server
+            if (err instanceof UploadError && err.status === 0 && ++failedPolls < MAX_FAILED_POLLS) continue;
+            throw err;
+        }
+        if (!polled) {
+            // Job lost (expired, or the server restarted): upload directly
+            return uploadImageForScene({ ...params, endpoint: undefined });
+        }
+        job = polled;
+    }
+}
+
+/** A job from a jobs endpoint response body */
+function parseJob(response: Response, responseText: string): SceneJob {
+    try {
+        return JSON.parse(responseText) as SceneJob;
+    } catch {
+        throw new UploadError('Invalid JSON response from server', response.status, responseText);
+    }
+}
+
+/**
+ * Wait `ms`, or less if the page comes back to the foreground. Rejects
+ * with the abort reason when `signal` aborts.
+ */
+function waitForPoll(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onVisible = () => {
+            if (document.visibilityState === 'visible') done();
+        };
+        const onAbort = () => {
+            done();
+            reject(signal?.reason);
+        };
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            if (typeof document !== 'undefined') {
+                document.removeEventListener('visibilitychange', onVisible);
+            }
+            resolve();
+        };
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (typeof document !== 'undefined') {
+            document.addEventListener('visibilitychange', onVisible);
+        }
+    });
+}
+
+/**
+ * Follow a progress stream to its `done` event (the scene) or `error`
+ * event (thrown as UploadError with the status the server reported).
+ */
+async function readSceneStream(
+    response: Response,
+    onProgress: (event: SceneStageEvent) => void
+): Promise<SceneResponse> {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const chunk = reader ? await reader.read() : { done: true, value: undefined };
+        buffer += reader ? decoder.decode(chunk.value, { stream: !chunk.done }) : await response.text();
+
+        const { frames, rest } = splitSceneFrames(chunk.done ? `${buffer}\n\n` : buffer);
+        buffer = rest;
+
+        for (const { event, data } of frames) {
+            if (event === 'stage') {
+                onProgress(JSON.parse(data) as SceneStageEvent);
+            } else if (event === 'done') {
+                onProgress({ stage: 'done' });
+                return JSON.parse(data) as SceneResponse;
+            } else if (event === 'error') {
+                const { status, ...body } = JSON.parse(data) as SceneErrorEvent;
+                const responseText = JSON.stringify(body);
+                throw new UploadError(
+                    `Upload failed: ${status}`,
+                    status,
+                    responseText,
+                    typeof body.retry_after === 'number' ? body.retry_after : undefined
+                );
+            }
+        }
+
+        if (chunk.done) {
+            // Connection closed before the server finished
+            throw new UploadError('Connection lost while generating the scene', 0, buffer);
+        }
+    }
+}
+
+/**
+ * Rebuild a level from stored detections without another AI call.
+ *
+ * @param params.detections - `detections` from an earlier response
+ * @param params.endpoint - Optional endpoint URL (default: /api/scene/rebuild)
+ * @param params.requestId - Optional request ID for tracing
+ * @param params.seed - Optional seed; omit to reroll the layout
+ * @param params.strategy - Optional layout strategy for the level builder
+ * @param params.difficulty - Optional difficulty profile for the level builder
+ * @param params.debugToken - Optional token asking for `_debug` in the response
+ * @returns Promise resolving to Scene JSON
+ * @throws UploadError on non-2xx response
+ */
+export async function rebuildScene(params: RebuildParams): Promise<SceneResponse> {
+    const {
+        detections,
+        endpoint,
+        seed,
+        strategy,
+        difficulty,
+        signal,
+    } = params;
+
+    const url = endpoint || '/api/scene/rebuild';
+
+    const headers = { 'Content-Type': 'application/json', ...requestHeaders(params) };
+
+    return sendWithRetry(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ detections, seed, strategy, difficulty }),
+        signal,
+    }, (response) => readSceneJson(response, 'Rebuild failed'));
+}
@@ -0,0 +1,276 @@
+/**
+ * UPLOAD TRANSPORT
+ * ================
+ *
+ * The HTTP layer under ai_proxy_service: one request with a timeout and
+ * cancellation, retried with exponential backoff when the failure is
+ * worth retrying.
+ *
+ * - Timeout: each attempt (including reading the body) is abandoned after
+ *   `timeoutMs` and counts as a network error.
+ * - Cancellation: aborting `signal` stops the request and any pending
+ *   retry; the AbortError is rethrown as is, so callers can tell it apart.
+ * - Retries: network errors, 429 and 5xx are retried up to `retries`
+ *   times. The wait doubles each time (with jitter), and a Retry-After
+ *   from the server is honored; one longer than MAX_RETRY_DELAY_MS is
+ *   left to the user instead (the error screen counts it down).
+ * - Upload progress: with `onUploadProgress` the body is sent through
+ *   XMLHttpRequest, which (unlike fetch) reports bytes sent. Its response
+ *   is still streamed, so progress events keep working.
+ */
+
+import { parseApiErrorCode, type ApiErrorCode } from '../shared/types/ApiError';
+
+/**
+ * A request that failed: a non-2xx status, an unusable response, or (with
+ * status 0) a network error or timeout. `code` is the server's error code
+ * (see src/shared/types/ApiError.ts), when the body has one.
+ */
+export class UploadError extends Error {
+    readonly code: ApiErrorCode | undefined;
+    /** The x-request-id the server answered with, i.e. the id it logged the request under */
+    requestId?: string;
+
+    constructor(
+        message: string,
+        public status: number,
+        public responseText: string,
+        /** Seconds the server asked us to wait before retrying (429 / 503) */
+        public retryAfter?: number
+    ) {
+        super(message);
+        this.name = 'UploadError';
+        this.code = parseApiErrorCode(responseText);
+    }
+}
+
+export interface UploadProgress {
+    /** Bytes sent so far */
+    loaded: number;
+    /** Bytes to send, when known */
+    total?: number;
+}
+
+export interface RetryInfo {
+    /** Retry number about to start (1 = first retry) */
+    attempt: number;
+    /** Wait before it (ms) */
+    delayMs: number;
+    /** HTTP status that caused it, or 0 for a network error / timeout */
+    status: number;
+}
+
+export interface TransportOptions {
+    method: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: BodyInit;
+    signal?: AbortSignal;
+    /** Per attempt (ms); default DEFAULT_TIMEOUT_MS */
+    timeoutMs?: number;
+    /** Retries after the first attempt; default DEFAULT_RETRIES */
+    retries?: number;
+    onUploadProgress?: (progress: UploadProgress) => void;
+    onRetry?: (info: RetryInfo) => void;
+}
+
+/** Time one attempt may take before it is abandoned (ms) */
+export const DEFAULT_TIMEOUT_MS = 90_000;
+
+/** Retries after a 429, 5xx or network error */
+export const DEFAULT_RETRIES = 2;
+
+/** First backoff delay (ms); doubles with each retry */
+const BACKOFF_BASE_MS = 1_000;
+
+/** Longest wait before an automatic retry (ms) */
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/** Thrown from inside an attempt to schedule the next one */
+class RetryLater {
+    constructor(public delayMs: number, public status: number) {}
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/** Backoff for retry number `attempt` (1-based): 1s, 2s, 4s… ±25% */
+function backoff(attempt: number): number {
+    const base = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+    return Math.round(base * (0.75 + Math.random() * 0.5));
+}
+
+/** Wait `ms`, or reject with the abort reason when `signal` aborts first. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Send a request and hand the response to `read`, retrying as described
+ * above. `read` runs inside the attempt's timeout; an UploadError with
+ * status 0 thrown from it (e.g. a dropped stream) is retried as well.
+ */
+export async function sendWithRetry<T>(
+    url: string,
+    options: TransportOptions,
+    read: (response: Response) => Promise<T>
+): Promise<T> {
+    const { signal, retries = DEFAULT_RETRIES, onRetry } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        const retriesLeft = attempt <= retries;
+        try {
+            return await send(url, options, async (response) => {
+                if (retriesLeft && isRetryableStatus(response.status)) {
+                    const retryAfter = Number(response.headers.get('Retry-After'));
+                    const delayMs = retryAfter > 0 ? retryAfter * 1000 : backoff(attempt);
+                    if (delayMs <= MAX_RETRY_DELAY_MS) {
+                        throw new RetryLater(delayMs, response.status);
+                    }
+                }
+                return read(response);
+            });
+        } catch (err) {
+            if (signal?.aborted) throw err;
+
+            let retry: RetryLater;
+            if (err instanceof RetryLater) {
+                retry = err;
+            } else if (err instanceof UploadError && err.status === 0 && retriesLeft) {
+                retry = new RetryLater(backoff(attempt), 0);
+            } else {
+                throw err;
+            }
+
+            onRetry?.({ attempt, delayMs: retry.delayMs, status: retry.status });
+            await sleep(retry.delayMs, signal);
+        }
+    }
+}
+
+/**
+ * One attempt: the request and `read`, under the timeout. Network failures
+ * and timeouts become UploadError with status 0.
+ */
+async function send<T>(
+    url: string,
+    options: TransportOptions,
+    read: (response: Response) => Promise<T>
+): Promise<T> {
+    const { method, headers = {}, body, signal, timeoutMs = DEFAULT_TIMEOUT_MS, onUploadProgress } = options;
+
+    const attempt = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        attempt.abort();
+    }, timeoutMs);
+    const onAbort = () => attempt.abort(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        let response: Response;
+        try {
+            response = onUploadProgress && typeof XMLHttpRequest !== 'undefined'
+                ? await xhrFetch(url, { method, headers, body }, attempt.signal, onUploadProgress)
+                : await fetch(url, { method, headers, body, signal: attempt.signal, cache: 'no-store' });
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            throw new UploadError(
+                timedOut ? `Request timed out after ${Math.round(timeoutMs / 1000)}s` : 'Network error',
+                0,
+                err instanceof Error ? err.message : String(err)
+            );
+        }
+
+        try {
+            return await read(response);
+        } catch (err) {
+            // A timeout while reading the body surfaces as an abort
+            const failure = timedOut && !signal?.aborted
+                ? new UploadError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, 0, '')
+                : err;
+            if (failure instanceof UploadError) {
+                failure.requestId ??= response.headers.get('x-request-id') ?? undefined;
+            }
+            throw failure;
+        }
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * fetch() through XMLHttpRequest, to get upload progress. Resolves once
+ * the response headers arrive, with the body streamed as it comes in.
+ */
+function xhrFetch(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: BodyInit },
+    signal: AbortSignal,
+    onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        const encoder = new TextEncoder();
+        let stream!: ReadableStreamDefaultController<Uint8Array>;
+        let sent = 0;
+        let settled = false;
+
+        const body = new ReadableStream<Uint8Array>({ start(controller) { stream = controller; } });
+        const flush = () => {
+            const text = xhr.responseText;
+            if (text.length > sent) {
+                stream.enqueue(encoder.encode(text.slice(sent)));
+                sent = text.length;
+            }
+        };
+        const fail = (err: Error) => {
+            if (!settled) reject(err);
+            settled = true;
+            try { stream.error(err); } catch { /* already closed */ }
+        };
+
+        xhr.open(init.method, url);
+        for (const [name, value] of Object.entries(init.headers)) {
+            xhr.setRequestHeader(name, value);
+        }
+
+        xhr.upload.onprogress = (e) => onUploadProgress({ loaded: e.loaded, total: e.lengthComputable ? e.total : undefined });
+        xhr.onreadystatechange = () => {
+            if (xhr.readyState !== XMLHttpRequest.HEADERS_RECEIVED || settled) return;
+            settled = true;
+            const headers = new Headers();
+            for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+                const colon = line.indexOf(':');
+                if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+            }
+            const noBody = [204, 205, 304].includes(xhr.status);
+            resolve(new Response(noBody ? null : body, { status: xhr.status, statusText: xhr.statusText, headers }));
+        };
+        xhr.onprogress = flush;
+        xhr.onload = () => {
+            flush();
+            stream.close();
+        };
+        xhr.onerror = () => fail(new TypeError('Network request failed'));
+        xhr.onabort = () => fail(signal.reason instanceof Error ? signal.reason : new DOMException('Aborted', 'AbortError'));
+
+        signal.addEventListener('abort', () => xhr.abort(), { once: true });
+        xhr.send(init.body as XMLHttpRequestBodyInit);
+    });
+}
@@ -118,6 +118,18 @@ describe('parseSceneV1 — invalid inputs', () => {
         expect(result.ok).toBe(false);
     });
 
+    it('reports the path of each Zod issue', () => {
+        const scene = validScene();
+        scene.spawns.player = { x: 1.5, y: 0.5 };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.issues).toHaveLength(1);
+            expect(result.issues[0].path).toBe('spawns.player.x');
+            expect(result.errors[0]).toMatch(/^spawns\.player\.x: /);
+        }
+    });
+
     it('rejects out-of-range coordinates (y < 0)', () => {
         const scene = validScene();
         scene.spawns.exit = { x: 0.5, y: -0.1 };
@@ -206,6 +218,49 @@ describe('parseSceneV1 — invalid inputs', () => {
         }
     });
 
+    it('rejects a single segment', () => {
+        const scene = { ...validScene(), segments: [{ x: 0, w: 1 }] };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects more than 4 segments', () => {
+        const scene = { ...validScene(), segments: Array.from({ length: 5 }, (_, i) => ({ x: i / 5, w: 1 / 5 })) };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects 26 objects in a single-photo level even though the array allows more', () => {
+        const scene = validScene();
+        scene.objects = Array.from({ length: 26 }, (_, i) => ({
+            id: `col_${i}`,
+            type: i < 10 ? 'collectible' as const : 'obstacle' as const,
+            bounds_normalized: { x: 0.1, y: 0.1, w: 0.05, h: 0.05 },
+        }));
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.errors.some(e => e.includes('max 25'))).toBe(true);
+        }
+    });
+
+    it('scales the per-type caps by segment count', () => {
+        const scene = {
+            ...validScene(),
+            segments: [{ x: 0, w: 0.5 }, { x: 0.5, w: 0.5 }],
+            objects: Array.from({ length: 25 }, (_, i) => ({
+                id: `plat_${i}`,
+                type: 'platform' as const,
+                bounds_normalized: { x: 0.1, y: 0.1, w: 0.1, h: 0.1 },
+            })),
+        };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.errors).toContain('Too many platform objects: 25 (max 24)');
+        }
+    });
+
     it('rejects game_mechanics.damage_amount > 50', () => {
         const scene = validScene();
         scene.objects.push({
@@ -228,6 +283,42 @@ describe('parseSceneV1 — invalid inputs', () => {
         expect(result.ok).toBe(false);
     });
 
+    it('rejects negative game_mechanics.respawn_ms', () => {
+        const scene = validScene();
+        scene.objects[0].surface_type = 'breakable';
+        scene.objects[0].game_mechanics = { respawn_ms: -1 };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects an unknown rule type', () => {
+        const scene = validScene();
+        scene.rules = [{ type: 'double_jump' }];
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects an out-of-range rule value', () => {
+        const scene = validScene();
+        scene.rules = [{ type: 'starting_health', value: 50 }];
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects the same rule type twice', () => {
+        const scene = validScene();
+        scene.rules = [
+            { type: 'gravity_multiplier', value: 0.8 },
+            { type: 'gravity_multiplier', value: 1.2 },
+        ];
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.errors).toEqual(['Duplicate rule: gravity_multiplier']);
+            expect(result.issues).toEqual([{ path: 'rules', message: 'Duplicate rule: gravity_multiplier' }]);
+        }
+    });
+
     it('rejects unknown surface_type', () => {
         const scene = validScene();
         (scene.objects[0] as Record<string, unknown>).surface_type = 'lava';
@@ -317,6 +408,49 @@ describe('parseSceneV1 — valid inputs', () => {
         expect(result.ok).toBe(true);
     });
 
+    it('accepts a breakable platform that never respawns', () => {
+        const scene = validScene();
+        scene.objects[0].surface_type = 'breakable';
+        scene.objects[0].game_mechanics = { respawn_ms: 0 };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(true);
+    });
+
+    it('accepts every rule modifier type', () => {
+        const scene = validScene();
+        scene.rules = [
+            { type: 'gravity_multiplier', value: 0.85 },
+            { type: 'player_speed_multiplier', value: 1.2 },
+            { type: 'enemy_speed_multiplier', value: 1.25 },
+            { type: 'time_limit', seconds: 90 },
+            { type: 'starting_health', value: 5 },
+            { type: 'collect_all_to_unlock_exit' },
+        ];
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.data.rules).toHaveLength(6);
+        }
+    });
+
+    it('accepts a stitched level with twice the single-photo caps', () => {
+        const scene = {
+            ...validScene(),
+            image: { w: 2048, h: 768 },
+            segments: [{ x: 0, w: 0.5 }, { x: 0.5, w: 0.5 }],
+            objects: Array.from({ length: 24 }, (_, i) => ({
+                id: `plat_${i}`,
+                type: 'platform' as const,
+                bounds_normalized: { x: 0.1, y: 0.1, w: 0.1, h: 0.1 },
+            })),
+        };
+        const result = parseSceneV1(scene);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.data.segments).toEqual([{ x: 0, w: 0.5 }, { x: 0.5, w: 0.5 }]);
+        }
+    });
+
     it('accepts enemy without game_mechanics', () => {
         const scene = validScene();
         scene.objects.push({
@@ -17,13 +17,28 @@
  * All coordinates are **normalized** (0..1 range). The frontend converts
  * them to world-pixel coords using src/game/utils/coords.ts.
  *
- * HARD CAPS (to prevent the AI from flooding the scene):
+ * HARD CAPS per segment (to prevent the AI from flooding the scene):
  * - Total objects: max 25
  * - Platforms: max 12
  * - Obstacles: max 8
  * - Collectibles: max 10
  * - Hazards: max 8
- * - Enemies: max 2
+ * - Enemy objects (type "enemy"): max 2
+ * A single-photo level is one segment; stitched levels multiply every cap
+ * by their number of segments. Enemy spawns (`spawns.enemies`) are not
+ * objects and have no cap here: the level builder places 1 (easy), 2
+ * (normal) or 3 (hard, runners) per segment, at most 4 with overrides
+ * (see DIFFICULTY_PROFILES in server/levelBuilder.ts).
+ *
+ * SEGMENTS:
+ * A level stitched from 2–4 photos lists one segment per photo, left to
+ * right, as normalized X spans of the (wider) world. Photo i is drawn
+ * behind segment i. Single-photo levels omit `segments`.
+ *
+ * RULES:
+ * Level-wide rule modifiers, discriminated by `type` (gravity / player /
+ * enemy speed multipliers, time limit, starting health, collect-all-to-
+ * unlock-exit). Each type may appear at most once per scene.
  *
  * ENEMY SPAWN ANCHORS:
  * Objects with category "plant" or "electric" (or with enemy_spawn_anchor: true)
@@ -67,8 +82,13 @@ const ObjectCategoryEnum = z.enum([
 const GameMechanicsSchema = z.object({
     damage_amount: z.number().min(0).max(50).optional(),
     speed_multiplier: z.number().min(0.5).max(2.0).optional(),
+    /** Breakable platforms: ms until a crumbled platform comes back (0 = never) */
+    respawn_ms: z.number().int().min(0).max(60000).optional(),
 }).passthrough().optional();
 
+/** How a platform behaves when stood on */
+const SurfaceTypeEnum = z.enum(['solid', 'bouncy', 'slippery', 'breakable', 'soft']);
+
 /** Single detected/generated object */
 const SceneObjectSchema = z.object({
     id: z.string().min(1),
@@ -76,7 +96,7 @@ const SceneObjectSchema = z.object({
     label: z.string().optional(),
     confidence: z.number().min(0).max(1).optional(),
     bounds_normalized: BoundsNormalizedSchema,
-    surface_type: z.enum(['solid', 'bouncy', 'slippery', 'breakable', 'soft']).optional(),
+    surface_type: SurfaceTypeEnum.optional(),
     game_mechanics: GameMechanicsSchema,
     /** Real-world category of the detected object (optional, backward compatible) */
     category: ObjectCategoryEnum.optional(),
@@ -102,6 +122,25 @@ const SpawnsSchema = z.object({
     ).default([]),
 });
 
+/**
+ * Level-wide rule modifiers. Multipliers scale the world-relative values
+ * from PhysicsConfig; RuleModifiersSystem applies them when GameScene starts.
+ */
+const RuleModifierSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('gravity_multiplier'), value: z.number().min(0.5).max(1.5) }),
+    z.object({ type: z.literal('player_speed_multiplier'), value: z.number().min(0.5).max(2.0) }),
+    z.object({ type: z.literal('enemy_speed_multiplier'), value: z.number().min(0.5).max(2.0) }),
+    z.object({ type: z.literal('time_limit'), seconds: z.number().int().min(10).max(600) }),
+    z.object({ type: z.literal('starting_health'), value: z.number().int().min(1).max(10) }),
+    z.object({ type: z.literal('collect_all_to_unlock_exit') }),
+]);
+
+/** Horizontal span of one photo in a stitched level (normalized X) */
+const SegmentSchema = z.object({
+    x: z.number().min(0).max(1),
+    w: z.number().positive().max(1),
+});
+
 /** Image dimensions from backend */
 const ImageDimsSchema = z.object({
     w: z.number().int().positive(),
@@ -110,12 +149,19 @@ const ImageDimsSchema = z.object({
 
 // --- Top-level schema ---
 
+/** Total object cap for a single-photo level */
+const MAX_OBJECTS = 25;
+
+/** Most photos a stitched level can be built from */
+export const MAX_SEGMENTS = 4;
+
 export const SceneV1Schema = z.object({
     version: z.literal(1),
     image: ImageDimsSchema,
-    objects: z.array(SceneObjectSchema).max(25).default([]),
+    objects: z.array(SceneObjectSchema).max(MAX_OBJECTS * MAX_SEGMENTS).default([]),
     spawns: SpawnsSchema,
-    rules: z.array(z.unknown()).default([]),
+    rules: z.array(RuleModifierSchema).max(6).default([]),
+    segments: z.array(SegmentSchema).min(2).max(MAX_SEGMENTS).optional(),
 });
 
 // --- Per-type cap validation ---
@@ -134,11 +180,12 @@ const TYPE_CAPS: Record<string, number> = {
 };
 
 /**
- * Validate per-type hard caps on objects.
- * Call this AFTER Zod parse succeeds.
+ * Validate the total and per-type hard caps on objects. Stitched levels
+ * get the caps once per segment. Call this AFTER Zod parse succeeds.
  */
 export function validateCaps(
-    objects: { type: string }[]
+    objects: { type: string }[],
+    segmentCount = 1,
 ): CapResult {
     const counts: Record<string, number> = {};
     for (const obj of objects) {
@@ -146,7 +193,11 @@ export function validateCaps(
     }
 
     const errors: string[] = [];
-    for (const [type, cap] of Object.entries(TYPE_CAPS)) {
+    if (objects.length > MAX_OBJECTS * segmentCount) {
+        errors.push(`Too many objects: ${objects.length} (max ${MAX_OBJECTS * segmentCount})`);
+    }
+    for (const [type, perSegment] of Object.entries(TYPE_CAPS)) {
+        const cap = perSegment * segmentCount;
         const count = counts[type] || 0;
         if (count > cap) {
             errors.push(`Too many ${type} objects: ${count} (max ${cap})`);
@@ -156,16 +207,48 @@ export function validateCaps(
     return { ok: errors.length === 0, errors };
 }
 
+/**
+ * Reject scenes that set the same rule type twice (which one wins would
+ * be ambiguous). Call this AFTER Zod parse succeeds.
+ */
+export function validateRules(
+    rules: { type: string }[]
+): CapResult {
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    for (const rule of rules) {
+        if (seen.has(rule.type)) {
+            errors.push(`Duplicate rule: ${rule.type}`);
+        }
+        seen.add(rule.type);
+    }
+
+    return { ok: errors.length === 0, errors };
+}
+
 // --- Main parse function ---
 
+/** Issues for cap / rule errors, which concern a whole array */
+function toIssues(path: string, errors: string[]): SceneIssue[] {
+    return errors.map((message) => ({ path, message }));
+}
+
 interface ParseSuccess {
     ok: true;
     data: z.output<typeof SceneV1Schema>;
 }
 
+/** One validation problem: where in the scene (dot path) and what is wrong */
+export interface SceneIssue {
+    path: string;
+    message: string;
+}
+
 interface ParseFailure {
     ok: false;
+    /** Human-readable messages, one per issue */
     errors: string[];
+    issues: SceneIssue[];
 }
 
 /**
@@ -176,6 +259,10 @@ interface ParseFailure {
  * 2. Checks per-type caps
  * 3. Returns a discriminated union for easy handling
  *
+ * The server runs it on every built level too, so schema drift in the
+ * builder surfaces as a structured 500 (the `issues`) instead of a broken
+ * level on the client.
+ *
  * Usage:
  *   const result = parseSceneV1(jsonFromBackend);
  *   if (!result.ok) { showErrors(result.errors); return; }
@@ -185,25 +272,35 @@ export function parseSceneV1(input: unknown): ParseSuccess | ParseFailure {
     const zodResult = SceneV1Schema.safeParse(input);
 
     if (!zodResult.success) {
-        const errors = zodResult.error.issues.map(
-            (issue) => `${issue.path.join('.')}: ${issue.message}`
-        );
+        const issues = zodResult.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+        }));
+        const errors = issues.map((issue) => `${issue.path}: ${issue.message}`);
         console.error('[SceneV1] Validation failed:', errors);
-        return { ok: false, errors };
+        return { ok: false, errors, issues };
     }
 
     const data = zodResult.data;
-    const capResult = validateCaps(data.objects);
+    const capResult = validateCaps(data.objects, data.segments?.length ?? 1);
     if (!capResult.ok) {
         console.error('[SceneV1] Cap validation failed:', capResult.errors);
-        return { ok: false, errors: capResult.errors };
+        return { ok: false, errors: capResult.errors, issues: toIssues('objects', capResult.errors) };
+    }
+
+    const ruleResult = validateRules(data.rules);
+    if (!ruleResult.ok) {
+        console.error('[SceneV1] Rule validation failed:', ruleResult.errors);
+        return { ok: false, errors: ruleResult.errors, issues: toIssues('rules', ruleResult.errors) };
     }
 
     console.info(
         '[SceneV1] Validation OK:',
         `objects=${data.objects.length}`,
         `enemies=${data.spawns.enemies.length}`,
-        `pickups=${data.spawns.pickups.length}`
+        `pickups=${data.spawns.pickups.length}`,
+        `rules=${data.rules.length}`,
+        `segments=${data.segments?.length ?? 1}`
     );
 
     return { ok: true, data };
@@ -225,6 +322,9 @@ export type SceneObjectType = SceneObject['type'];
 /** Object category enum */
 export type SceneObjectCategory = NonNullable<SceneObject['category']>;
 
+/** Platform surface type enum */
+export type SurfaceType = NonNullable<SceneObject['surface_type']>;
+
 /** Normalized bounding box */
 export type BoundsNormalized = SceneObject['bounds_normalized'];
 
@@ -234,6 +334,15 @@ export type SceneSpawns = SceneV1['spawns'];
 /** Optional gameplay mechanics attached to an object */
 export type GameMechanics = SceneObject['game_mechanics'];
 
+/** A single level-wide rule modifier */
+export type RuleModifier = SceneV1['rules'][number];
+
+/** Rule modifier discriminator */
+export type RuleModifierType = RuleModifier['type'];
+
+/** One photo's span of a stitched level */
+export type Segment = NonNullable<SceneV1['segments']>[number];
+
 /** Normalized point */
 export type NormalizedPoint = { x: number; y: number };
 
@@ -14,16 +14,23 @@ export type {
     SceneObject,
     SceneObjectType,
     SceneObjectCategory,
+    SurfaceType,
     BoundsNormalized,
     SceneSpawns,
     GameMechanics,
+    RuleModifier,
+    RuleModifierType,
+    Segment,
+    SceneIssue,
     NormalizedPoint,
 } from './scene_v1.schema';
 
 export {
     SceneV1Schema,
+    MAX_SEGMENTS,
     parseSceneV1,
     validateCaps,
+    validateRules,
     isEnemySpawnAnchor,
     getEnemySpawnAnchors,
 } from './scene_v1.schema';
@@ -0,0 +1,94 @@
+/**
+ * API ERRORS
+ * ===========
+ *
+ * The envelope every /api/scene error response (and progress stream
+ * `error` event, and failed job) carries:
+ *
+ *   { "error": "Human-readable message", "code": "AI_INVALID_JSON", "retry_after"?: 10 }
+ *
+ * `code` is stable and machine-readable; clients map it to their own copy
+ * and must not parse `error`. `retry_after` (seconds) comes with the codes
+ * that mean "wait, then retry", as does a Retry-After header.
+ *
+ * DEBUG:
+ * Provider details, raw model output and validation issues go under
+ * `_debug`, like the `_debug` of a successful response, and are only sent
+ * to debug requests (see DEBUG_RESPONSES in docs/backend_contract.md).
+ */
+
+// ---------------------------------------------------------------------------
+// Codes
+// ---------------------------------------------------------------------------
+
+export const API_ERROR_CODES = [
+    /** Malformed request (e.g. a body that isn't multipart/form-data) */
+    'INVALID_REQUEST',
+    /** No "image" field */
+    'NO_IMAGE',
+    /** More photos than a level can be stitched from */
+    'TOO_MANY_IMAGES',
+    /** A photo over the upload limit */
+    'UPLOAD_TOO_LARGE',
+    /** An upload that isn't an image */
+    'UNSUPPORTED_MEDIA_TYPE',
+    /** A rebuild body without usable detections */
+    'INVALID_REBUILD_REQUEST',
+    'METHOD_NOT_ALLOWED',
+    /** This client sent too many uploads */
+    'RATE_LIMITED',
+    /** Too much work queued on the server (AI calls or jobs) */
+    'SERVER_BUSY',
+    /** The AI provider rate limited the server */
+    'AI_RATE_LIMITED',
+    /** The model's answer wasn't JSON */
+    'AI_INVALID_JSON',
+    /** The model's answer was JSON, but not detections */
+    'AI_INVALID_RESPONSE',
+    /** The model answered nothing */
+    'AI_EMPTY_RESPONSE',
+    /** The AI call itself failed */
+    'AI_FAILED',
+    /** The fixture provider has no recorded detections for the photo */
+    'FIXTURE_NOT_FOUND',
+    /** The level builder produced a level that fails SceneV1 validation */
+    'LEVEL_INVALID',
+    /** Unknown or expired job */
+    'JOB_NOT_FOUND',
+    /** A background job crashed */
+    'JOB_FAILED',
+    'SERVER_MISCONFIGURED',
+    /** The client disconnected before the answer (logged, never seen) */
+    'CLIENT_CLOSED',
+    'INTERNAL_ERROR',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+    return typeof value === 'string' && (API_ERROR_CODES as readonly string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Envelope
+// ---------------------------------------------------------------------------
+
+export interface ApiErrorBody {
+    /** Human-readable message, for logs and developers */
+    error: string;
+    code: ApiErrorCode;
+    /** Seconds to wait before retrying */
+    retry_after?: number;
+    /** Details for debug requests only */
+    _debug?: Record<string, unknown>;
+}
+
+/** The error code of a response body, if it has a known one */
+export function parseApiErrorCode(responseText: string): ApiErrorCode | undefined {
+    try {
+        const code = (JSON.parse(responseText) as { code?: unknown }).code;
+        return isApiErrorCode(code) ? code : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,310 @@
+/**
+ * DETECTION TYPES
+ * ================
+ *
+ * Zod schema for what the detection AI returns for one photo: image size,
+ * AI-generated names, and the detected objects with normalized bounding
+ * boxes. The level builder consumes it; the server validates every model
+ * answer (and every stored detections body sent to /api/scene/rebuild)
+ * against it before building.
+ *
+ * SALVAGE:
+ * Models get details wrong, and text visible in the photo can end up in
+ * labels or names. parseDetectionResponse() keeps what it can instead of
+ * rejecting the whole answer: boxes are clamped into the frame, labels are
+ * cleaned and shortened, names that don't look like names are dropped, and
+ * any detection that still doesn't fit the schema is dropped on its own.
+ * Only an answer without a detections array is rejected outright.
+ *
+ * STRUCTURED OUTPUT:
+ * DETECTION_JSON_SCHEMA is the same contract as JSON Schema, for providers
+ * that can constrain their output to it. Strict structured output only
+ * knows the structural keywords (STRICT_SCHEMA_KEYWORDS), so the schema
+ * keeps the shape, types and enums; length and range limits are left to
+ * the Zod schema, which salvage enforces on every answer.
+ */
+
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Most detections kept per photo (extra ones are dropped) */
+export const MAX_DETECTIONS = 25;
+
+/** Longest label kept (longer ones are cut) */
+const MAX_LABEL_LENGTH = 40;
+
+/** Longest level name kept (longer ones are dropped) */
+const MAX_LEVEL_NAME_LENGTH = 40;
+
+/** Image size assumed when the model doesn't give a usable one */
+const FALLBACK_IMAGE = { w: 1280, h: 720 };
+
+/** "adjective-adjective-noun", lowercase */
+const PLAYER_NAME_PATTERN = /^[a-z]+(?:-[a-z]+){1,3}$/;
+
+/** Letters, digits, spaces and light punctuation */
+const LEVEL_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} '&!,.-]*$/u;
+
+const DetectionCategoryEnum = z.enum(['furniture', 'food', 'plant', 'electric', 'other']);
+
+const DetectionBoundsSchema = z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    w: z.number().min(0).max(1),
+    h: z.number().min(0).max(1),
+});
+
+export const DetectionSchema = z.object({
+    label: z.string().min(1).max(MAX_LABEL_LENGTH),
+    category: DetectionCategoryEnum,
+    confidence: z.number().min(0).max(1),
+    bounds_normalized: DetectionBoundsSchema,
+});
+
+const DetectionImageSchema = z.object({
+    w: z.number().int().positive(),
+    h: z.number().int().positive(),
+});
+
+/**
+ * What the model is asked to return. Every field is required, as strict
+ * structured output demands.
+ */
+const DetectionAnswerSchema = z.object({
+    image: DetectionImageSchema,
+    player_name: z.string(),
+    level_name: z.string(),
+    detections: z.array(DetectionSchema),
+});
+
+/** A validated photo's detections, as the level builder takes them */
+export const DetectionResponseSchema = DetectionAnswerSchema.extend({
+    /** AI-generated names, passed through to the client */
+    player_name: z.string().regex(PLAYER_NAME_PATTERN).optional(),
+    level_name: z.string().max(MAX_LEVEL_NAME_LENGTH).regex(LEVEL_NAME_PATTERN).optional(),
+    detections: z.array(DetectionSchema).max(MAX_DETECTIONS),
+});
+
+/** JSON Schema keywords strict structured output accepts */
+export const STRICT_SCHEMA_KEYWORDS: readonly string[] = ['type', 'properties', 'required', 'additionalProperties', 'items', 'enum'];
+
+/** `schema` with only STRICT_SCHEMA_KEYWORDS, at every level */
+function strictJsonSchema(schema: Record<string, unknown>): Record<string, unknown> {
+    const strict: Record<string, unknown> = {};
+    for (const [keyword, value] of Object.entries(schema)) {
+        if (!STRICT_SCHEMA_KEYWORDS.includes(keyword)) continue;
+        if (keyword === 'properties') {
+            const properties = value as Record<string, Record<string, unknown>>;
+            strict.properties = Object.fromEntries(
+                Object.entries(properties).map(([name, property]) => [name, strictJsonSchema(property)]),
+            );
+        } else if (keyword === 'items') {
+            strict.items = strictJsonSchema(value as Record<string, unknown>);
+        } else {
+            strict[keyword] = value;
+        }
+    }
+    return strict;
+}
+
+/** JSON Schema of the model's answer, for structured output */
+export const DETECTION_JSON_SCHEMA: Record<string, unknown> = strictJsonSchema(
+    z.toJSONSchema(DetectionAnswerSchema) as Record<string, unknown>,
+);
+
+export type Detection = z.output<typeof DetectionSchema>;
+export type DetectionCategory = Detection['category'];
+export type DetectionResponse = z.output<typeof DetectionResponseSchema>;
+
+/**
+ * How a photo's detections were obtained, recorded in the response's
+ * `_debug.validation`.
+ */
+export interface DetectionValidation {
+    /** Answers requested (1 + repair retries) */
+    attempts: number;
+    /** Whether the provider was held to DETECTION_JSON_SCHEMA */
+    structured_output: boolean;
+    /** Why each rejected answer was rejected, in order */
+    rejected: string[][];
+    /** What salvage changed or dropped in the accepted answer */
+    salvaged: string[];
+}
+
+/**
+ * What post-processing did to a photo's detections before the level was
+ * built, recorded with them in the response's `_debug.detections`.
+ */
+export interface DetectionPostprocess {
+    /** The validated detections before post-processing */
+    before: Detection[];
+    /** One note per change, e.g. "detections.3 (cup): dropped (confidence 0.12 < 0.25)" */
+    notes: string[];
+}
+
+/**
+ * What a photo's detection cost, recorded in the response's `_debug.usage`
+ * (null for cache hits and providers that don't call a model).
+ */
+export interface DetectionUsage {
+    /** Provider and model, e.g. "openai:gpt-4o" */
+    model: string;
+    /** Tokens over every attempt; 0 when the provider doesn't report them */
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    /** Time spent waiting on the model, over every attempt */
+    latency_ms: number;
+    /** Repair requests after the first answer */
+    retries: number;
+    /** Estimated from DETECTION_PRICE_PER_MTOK, when set */
+    cost_usd?: number;
+}
+
+/**
+ * Which prompt the detections were asked with (see
+ * server/detectionPrompts.ts), recorded in the level as `prompt` and in
+ * the response's `_debug.prompt`.
+ */
+export interface DetectionPromptRef {
+    /** Its templates, e.g. "detection@2+naming@1.de" */
+    id: string;
+    /** First 12 hex characters of the SHA-256 of its text */
+    hash: string;
+}
+
+/**
+ * What the server read from a photo before detection (see
+ * server/imagePreprocess.ts), recorded with its detections in the
+ * response's `_debug.detections`.
+ */
+export interface ImagePreprocess {
+    /** Upright pixel size of the upload, which `image.w/h` is set to */
+    width: number;
+    height: number;
+    /** EXIF Orientation (1–8) the pixels were turned by; 1 when absent */
+    orientation: number;
+    /** Bytes of metadata (EXIF, XMP, comments) removed before detection */
+    stripped_bytes: number;
+    /** Pixel size the model was sent, after downsizing to DETECTION_MAX_EDGE */
+    sent: { w: number; h: number };
+}
+
+// ---------------------------------------------------------------------------
+// Salvage
+// ---------------------------------------------------------------------------
+
+interface ParseSuccess {
+    ok: true;
+    data: DetectionResponse;
+    /** One note per change salvage made, e.g. "detections.3: dropped (…)" */
+    salvaged: string[];
+}
+
+interface ParseFailure {
+    ok: false;
+    errors: string[];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Strip control characters and collapse whitespace */
+const cleanText = (s: string) => s.replace(/[\p{Cc}\p{Cf}]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/** Fix up what can be fixed in one detection; Zod decides about the rest. */
+function repairDetection(raw: unknown, at: string, notes: string[]): unknown {
+    if (!isRecord(raw)) return raw;
+    const fixed: Record<string, unknown> = { ...raw };
+
+    if (typeof raw.label === 'string') {
+        const label = cleanText(raw.label);
+        fixed.label = label.slice(0, MAX_LABEL_LENGTH).trim();
+        if (label.length > MAX_LABEL_LENGTH) notes.push(`${at}.label: shortened`);
+    }
+    if (typeof raw.category === 'string') {
+        fixed.category = raw.category.trim().toLowerCase();
+    }
+    if (typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)) {
+        fixed.confidence = clamp01(raw.confidence);
+    }
+
+    const b = raw.bounds_normalized;
+    if (isRecord(b) && [b.x, b.y, b.w, b.h].every(v => typeof v === 'number' && Number.isFinite(v))) {
+        const x = clamp01(b.x as number);
+        const y = clamp01(b.y as number);
+        const w = Math.min(Math.max(0, b.w as number), 1 - x);
+        const h = Math.min(Math.max(0, b.h as number), 1 - y);
+        if (x !== b.x || y !== b.y || w !== b.w || h !== b.h) {
+            notes.push(`${at}.bounds_normalized: clamped`);
+        }
+        fixed.bounds_normalized = { x, y, w, h };
+    }
+
+    return fixed;
+}
+
+/**
+ * Validate one photo's detections, salvaging what can be salvaged (see the
+ * header). Fails only when `input` has no detections array.
+ */
+export function parseDetectionResponse(input: unknown): ParseSuccess | ParseFailure {
+    if (!isRecord(input)) {
+        return { ok: false, errors: ['expected a JSON object'] };
+    }
+    if (!Array.isArray(input.detections)) {
+        return { ok: false, errors: ['detections: expected an array'] };
+    }
+
+    const salvaged: string[] = [];
+
+    let image = DetectionImageSchema.safeParse(
+        isRecord(input.image) ? { w: Math.round(Number(input.image.w)), h: Math.round(Number(input.image.h)) } : undefined,
+    ).data;
+    if (!image) {
+        image = FALLBACK_IMAGE;
+        salvaged.push(`image: unusable, assumed ${FALLBACK_IMAGE.w}x${FALLBACK_IMAGE.h}`);
+    }
+
+    const detections: Detection[] = [];
+    input.detections.forEach((raw, i) => {
+        const at = `detections.${i}`;
+        if (detections.length >= MAX_DETECTIONS) {
+            salvaged.push(`${at}: dropped (more than ${MAX_DETECTIONS})`);
+            return;
+        }
+
+        const notes: string[] = [];
+        const result = DetectionSchema.safeParse(repairDetection(raw, at, notes));
+        if (!result.success) {
+            const why = result.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`);
+            salvaged.push(`${at}: dropped (${why.join('; ')})`);
+            return;
+        }
+        if (result.data.bounds_normalized.w === 0 || result.data.bounds_normalized.h === 0) {
+            salvaged.push(`${at}: dropped (empty box)`);
+            return;
+        }
+        salvaged.push(...notes);
+        detections.push(result.data);
+    });
+
+    const data: DetectionResponse = { image, detections };
+    for (const key of ['player_name', 'level_name'] as const) {
+        const value = input[key];
+        if (value === undefined) continue;
+        const name = DetectionResponseSchema.shape[key].safeParse(typeof value === 'string' ? cleanText(value) : value);
+        if (name.success && name.data) {
+            data[key] = name.data;
+        } else {
+            salvaged.push(`${key}: dropped`);
+        }
+    }
+
+    return { ok: true, data, salvaged };
+}
@@ -0,0 +1,23 @@
+/**
+ * RULE MODIFIER TYPES
+ * ====================
+ *
+ * Rule modifiers are defined by RuleModifierSchema in
+ * src/shared/schema/scene_v1.schema.ts (single source of truth). This module
+ * adds the helpers for looking a rule up by its `type`.
+ */
+
+import type { RuleModifier, RuleModifierType } from '../schema/scene_v1.schema';
+
+export type { RuleModifier, RuleModifierType };
+
+/** The rule variant with discriminator `T` */
+export type RuleModifierOf<T extends RuleModifierType> = Extract<RuleModifier, { type: T }>;
+
+/** First rule of the given type, if the scene sets one. */
+export function findRule<T extends RuleModifierType>(
+    rules: readonly RuleModifier[],
+    type: T,
+): RuleModifierOf<T> | undefined {
+    return rules.find((r): r is RuleModifierOf<T> => r.type === type);
+}
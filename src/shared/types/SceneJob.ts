@@ -0,0 +1,34 @@
+/**
+ * SCENE JOBS
+ * ===========
+ *
+ * What the asynchronous job API answers. POST /api/scene/jobs takes the
+ * same upload as /api/scene and returns a job at once (202); the client
+ * polls GET /api/scene/jobs/:id until it is done or failed:
+ *
+ *   queued → running → done    (result: the /api/scene response body)
+ *                    → failed  (error: the status and body /api/scene would have answered)
+ *
+ * Jobs are kept for a while after they finish, so a client that lost its
+ * connection (or was in the background) can still collect the level.
+ */
+
+import type { SceneErrorEvent, SceneStageEvent } from './SceneProgress';
+
+export type SceneJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface SceneJob {
+    id: string;
+    status: SceneJobStatus;
+    /** Latest pipeline stage reached (null while queued) */
+    stage: SceneStageEvent | null;
+    /** ISO timestamps */
+    created_at: string;
+    updated_at: string;
+    /** When the job will be forgotten (ISO) */
+    expires_at: string;
+    /** The scene, once done */
+    result?: Record<string, unknown>;
+    /** Why it failed, once failed */
+    error?: SceneErrorEvent;
+}
@@ -0,0 +1,76 @@
+/**
+ * SCENE PROGRESS EVENTS
+ * ======================
+ *
+ * /api/scene can report its pipeline stages as Server-Sent Events instead
+ * of answering with one JSON body at the end. A client opts in by sending
+ * `Accept: text/event-stream`; a server (or proxy) that answers with plain
+ * JSON instead is still understood, so streaming is only ever a bonus.
+ *
+ * The stream is a series of events:
+ *
+ *   event: stage   data: {"stage":"detecting","completed":1,"total":2}
+ *   event: done    data: <the same body a JSON response would have>
+ *   event: error   data: {"status":502,"error":"…"} plus the usual error fields
+ *
+ * Stages arrive in SCENE_STAGES order. The last one, "done", is the `done`
+ * event itself; a stream ends with either `done` or `error`.
+ */
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+/** Pipeline stages, in the order they are reported */
+export const SCENE_STAGES = ['received', 'preprocessing', 'detecting', 'validating', 'building', 'done'] as const;
+
+export type SceneStage = typeof SCENE_STAGES[number];
+
+/** Progress through one stage. `completed`/`total` count photos while detecting. */
+export interface SceneStageEvent {
+    stage: SceneStage;
+    completed?: number;
+    total?: number;
+}
+
+/** An `error` event: the status and body a JSON response would have had */
+export type SceneErrorEvent = { status: number; error: string } & Record<string, unknown>;
+
+/** Content type of the progress stream (and the Accept value that asks for it) */
+export const SCENE_EVENT_STREAM = 'text/event-stream';
+
+// ---------------------------------------------------------------------------
+// Wire format
+// ---------------------------------------------------------------------------
+
+export interface SceneStreamFrame {
+    event: string;
+    data: string;
+}
+
+/** One Server-Sent Event frame. `data` must not contain newlines (JSON.stringify never emits them). */
+export function formatSceneFrame(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Split the complete frames off the front of `buffer`. `rest` is the
+ * unfinished tail, to be prefixed to the next chunk. Comment lines and
+ * fields other than event/data are ignored, as the SSE spec asks.
+ */
+export function splitSceneFrames(buffer: string): { frames: SceneStreamFrame[]; rest: string } {
+    const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+    const rest = blocks.pop() ?? '';
+
+    const frames: SceneStreamFrame[] = [];
+    for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length > 0) frames.push({ event, data: data.join('\n') });
+    }
+    return { frames, rest };
+}
@@ -3,7 +3,8 @@
  * =========================
  * 
  * Orchestrates the full flow:
- * 1. Photo capture (CameraCapture)
+ * 1. Photo capture (CameraCapture) — "Add photo" captures up to
+ *    MAX_PHOTOS, which the backend stitches into one scrolling level
  * 2. Photo upload → Scene JSON (UploadFlow)
  * 3. Level preview (handled inside UploadFlow)
  * 
@@ -15,8 +16,8 @@
  * - Preview step: (none needed here, PreviewScreen has its own debug)
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { Minus, Plus, RefreshCw } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ImagePlus, Minus, Plus, RefreshCw } from 'lucide-react';
 import { CameraCapture, CaptureData } from './CameraCapture';
 import { UploadFlow } from './UploadFlow';
 import type { UploadFlowState } from './UploadFlow';
@@ -27,6 +28,23 @@ import './screens/UploadScreens.css';
 
 type ScreenState = 'capture' | 'preview' | 'uploading';
 
+type Difficulty = 'easy' | 'normal' | 'hard';
+
+const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+    { value: 'easy', label: 'Easy' },
+    { value: 'normal', label: 'Normal' },
+    { value: 'hard', label: 'Hard' },
+];
+
+/** Most photos one level can be stitched from (schema MAX_SEGMENTS) */
+const MAX_PHOTOS = 4;
+
+/** A captured photo and the object URL it is displayed from */
+interface CapturedPhoto {
+    blob: Blob;
+    url: string;
+}
+
 const isDev = import.meta.env.DEV;
 
 const STORAGE_KEYS = {
@@ -35,17 +53,28 @@ const STORAGE_KEYS = {
     demoRandom: 'dev_demoRandom',
     mockMode: 'dev_mockMode',
     mockFallback: 'dev_mockFallback',
+    photoLayout: 'dev_photoLayout',
+    difficulty: 'difficulty',
 };
 
 export function CaptureAndUploadScreen() {
     const [screenState, setScreenState] = useState<ScreenState>('capture');
-    const [capturedBlob, setCapturedBlob] = useState<Blob | null>(null);
-    const [photoUrl, setPhotoUrl] = useState<string | null>(null);
-    const photoUrlRef = useRef<string | null>(null);
+    const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
+    const photosRef = useRef<CapturedPhoto[]>([]);
+    const capturedBlob = photos[0]?.blob ?? null;
+    const photoUrl = photos[0]?.url ?? null;
+    const blobs = useMemo(() => photos.map(p => p.blob), [photos]);
+    const photoUrls = useMemo(() => photos.map(p => p.url), [photos]);
 
     // Track the UploadFlow's internal state for dev panel context
     const [flowState, setFlowState] = useState<UploadFlowState | null>(null);
 
+    // Difficulty chosen before upload (persisted across sessions)
+    const [difficulty, setDifficulty] = useState<Difficulty>(() => {
+        const stored = localStorage.getItem(STORAGE_KEYS.difficulty);
+        return DIFFICULTIES.some(d => d.value === stored) ? stored as Difficulty : 'normal';
+    });
+
     // Dev panel state
     const [devPanelOpen, setDevPanelOpen] = useState(false);
     const [showImageInfo, setShowImageInfo] = useState(() => {
@@ -68,6 +97,10 @@ export function CaptureAndUploadScreen() {
         const stored = localStorage.getItem(STORAGE_KEYS.mockFallback);
         return stored === 'true';
     });
+    const [photoLayout, setPhotoLayout] = useState(() => {
+        const stored = localStorage.getItem(STORAGE_KEYS.photoLayout);
+        return stored === 'true';
+    });
 
     // Persist toggles
     useEffect(() => {
@@ -85,25 +118,30 @@ export function CaptureAndUploadScreen() {
     useEffect(() => {
         localStorage.setItem(STORAGE_KEYS.mockFallback, String(mockFallback));
     }, [mockFallback]);
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEYS.photoLayout, String(photoLayout));
+    }, [photoLayout]);
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEYS.difficulty, difficulty);
+    }, [difficulty]);
 
     const handleCapture = useCallback((data: CaptureData) => {
-        setCapturedBlob(data.compressedBlob);
-        const url = URL.createObjectURL(data.compressedBlob);
-        if (photoUrlRef.current) {
-            URL.revokeObjectURL(photoUrlRef.current);
-        }
-        photoUrlRef.current = url;
-        setPhotoUrl(url);
+        const photo = { blob: data.compressedBlob, url: URL.createObjectURL(data.compressedBlob) };
+        photosRef.current = [...photosRef.current, photo].slice(0, MAX_PHOTOS);
+        setPhotos(photosRef.current);
         setScreenState('preview');
     }, []);
 
+    const handleAddPhoto = useCallback(() => {
+        setScreenState('capture');
+    }, []);
+
     const handleRetake = useCallback(() => {
-        setCapturedBlob(null);
-        if (photoUrlRef.current) {
-            URL.revokeObjectURL(photoUrlRef.current);
-            photoUrlRef.current = null;
+        for (const photo of photosRef.current) {
+            URL.revokeObjectURL(photo.url);
         }
-        setPhotoUrl(null);
+        photosRef.current = [];
+        setPhotos([]);
         setFlowState(null);
         setScreenState('capture');
     }, []);
@@ -131,8 +169,12 @@ export function CaptureAndUploadScreen() {
 
     const getSubtitle = () => {
         switch (currentStep) {
-            case 'capture': return 'Take a photo to create your level';
-            case 'photo_preview': return 'Review your photo or upload';
+            case 'capture': return photos.length > 0
+                ? `Take photo ${photos.length + 1} of up to ${MAX_PHOTOS}`
+                : 'Take a photo to create your level';
+            case 'photo_preview': return photos.length > 1
+                ? `Review your ${photos.length} photos or upload`
+                : 'Review your photo or upload';
             case 'uploading': return 'Generating your scene...';
             case 'success': return 'Scene ready';
             case 'phaser_preview': return 'Level preview';
@@ -167,8 +209,17 @@ export function CaptureAndUploadScreen() {
                             Hey Level Designer!
                         </h1>
                         <p className="summary-label" style={{ textAlign: 'center' }}>
-                            Turn your world into a game!<br />
-                            Snap a photo and let's start building.
+                            {photos.length > 0 ? (
+                                <>
+                                    Photo {photos.length + 1} of up to {MAX_PHOTOS}.<br />
+                                    Each photo adds a screen to the right.
+                                </>
+                            ) : (
+                                <>
+                                    Turn your world into a game!<br />
+                                    Snap a photo and let's start building.
+                                </>
+                            )}
                         </p>
                         <div className="capture-upload-screen__intro-action">
                             <CameraCapture 
@@ -183,13 +234,37 @@ export function CaptureAndUploadScreen() {
                 {/* --- Preview state: photo + retake + upload --- */}
                 {screenState === 'preview' && photoUrl && (
                     <div className="capture-upload-screen__preview-section">
-                        <img
-                            src={photoUrl}
-                            alt="Captured photo"
-                            className="capture-upload-screen__preview-img"
-                        />
+                        {photos.length > 1 ? (
+                            <div className="capture-upload-screen__preview-strip">
+                                {photos.map((photo, i) => (
+                                    <img
+                                        key={photo.url}
+                                        src={photo.url}
+                                        alt={`Captured photo ${i + 1}`}
+                                        className="capture-upload-screen__preview-thumb"
+                                    />
+                                ))}
+                            </div>
+                        ) : (
+                            <img
+                                src={photoUrl}
+                                alt="Captured photo"
+                                className="capture-upload-screen__preview-img"
+                            />
+                        )}
                         <div className="capture-upload-screen__preview-row">
-                            <p className="capture-upload-screen__preview-hint">Review your photo or generate a level</p>
+                            <p className="capture-upload-screen__preview-hint">
+                                {photos.length > 1 ? 'Your photos play left to right' : 'Review your photo or generate a level'}
+                            </p>
+                            {photos.length < MAX_PHOTOS && (
+                                <button
+                                    type="button"
+                                    className="capture-upload-screen__retake-btn"
+                                    onClick={handleAddPhoto}
+                                >
+                                    <Icon icon={ImagePlus} size={14} /> Add photo
+                                </button>
+                            )}
                             <button
                                 type="button"
                                 className="capture-upload-screen__retake-btn"
@@ -198,17 +273,38 @@ export function CaptureAndUploadScreen() {
                                 <Icon icon={RefreshCw} size={14} /> Retake
                             </button>
                         </div>
+                        <div className="capture-upload-screen__difficulty">
+                            <p className="capture-upload-screen__preview-hint">Difficulty</p>
+                            <div className="capture-upload-screen__difficulty-options" role="radiogroup" aria-label="Difficulty">
+                                {DIFFICULTIES.map(d => (
+                                    <button
+                                        key={d.value}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={difficulty === d.value}
+                                        className={`capture-upload-screen__difficulty-btn ${difficulty === d.value ? 'capture-upload-screen__difficulty-btn--active' : ''}`}
+                                        onClick={() => setDifficulty(d.value)}
+                                    >
+                                        {d.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                         {capturedBlob && (
                             <div className="capture-upload-screen__upload-section">
                                 <UploadFlow 
                                     blob={capturedBlob}
                                     photoUrl={photoUrl}
+                                    blobs={blobs}
+                                    photoUrls={photoUrls}
                                     onRetake={handleRetake}
                                     onUploadStart={handleUploadStart}
                                     onFlowStateChange={handleFlowStateChange}
                                     demoRandom={demoRandom}
                                     mockMode={mockMode}
                                     mockFallback={mockFallback}
+                                    photoLayout={photoLayout}
+                                    difficulty={difficulty}
                                     showSceneJson={showSceneJson}
                                 />
                             </div>
@@ -221,12 +317,16 @@ export function CaptureAndUploadScreen() {
                     <UploadFlow 
                         blob={capturedBlob}
                         photoUrl={photoUrl}
+                        blobs={blobs}
+                        photoUrls={photoUrls}
                         onRetake={handleRetake}
                         onFlowStateChange={handleFlowStateChange}
                         autoStart={true}
                         demoRandom={demoRandom}
                         mockMode={mockMode}
                         mockFallback={mockFallback}
+                        photoLayout={photoLayout}
+                        difficulty={difficulty}
                         showSceneJson={showSceneJson}
                     />
                 )}
@@ -290,6 +390,17 @@ export function CaptureAndUploadScreen() {
                                                 <span className="toggle-switch__slider"></span>
                                             </label>
                                         </div>
+                                        <div className="dev-panel__item">
+                                            <span className="dev-panel__label">Photo Layout</span>
+                                            <label className="toggle-switch">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={photoLayout}
+                                                    onChange={(e) => setPhotoLayout(e.target.checked)}
+                                                />
+                                                <span className="toggle-switch__slider"></span>
+                                            </label>
+                                        </div>
                                     </div>
                                     <div className="dev-panel__divider"></div>
                                     <div className="dev-panel__section">
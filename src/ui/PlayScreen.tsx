@@ -27,6 +27,8 @@ const isDev = import.meta.env.DEV;
 
 interface PlayScreenProps {
     photoUrl: string;
+    /** All photos of a stitched level, in segment order (photoUrl is the first) */
+    photoUrls?: string[];
     sceneData: SceneV1;
     onBack: () => void;
     onRetake: () => void;
@@ -34,7 +36,7 @@ interface PlayScreenProps {
     levelName?: string;
 }
 
-export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName = 'happy-little-adventurer', levelName = 'Mystery Level' }: PlayScreenProps) {
+export function PlayScreen({ photoUrl, photoUrls, sceneData, onBack, onRetake, playerName = 'happy-little-adventurer', levelName = 'Mystery Level' }: PlayScreenProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const gameRef = useRef<Game | null>(null);
     const inputState = useMemo(() => createInputState(), []);
@@ -44,6 +46,8 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
     const [lost, setLost] = useState(false);
     const [score, setScore] = useState(0);
     const [health, setHealth] = useState(10);
+    /** Seconds left under a time_limit rule (null = untimed level) */
+    const [timeLeft, setTimeLeft] = useState<number | null>(null);
     const [loseShareState, setLoseShareState] = useState<'idle' | 'sharing' | 'shared' | 'error'>('idle');
 
     // Preload photo dimensions, then create Phaser game
@@ -91,6 +95,7 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
 
             const sceneInitData: import('../game/scenes/GameScene').GameSceneData = {
                 photoUrl,
+                photoUrls,
                 sceneData,
                 inputState,
                 debugEnabled,
@@ -128,7 +133,7 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
             }
         };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [photoUrl, sceneData]);
+    }, [photoUrl, photoUrls, sceneData]);
 
     // Listen for game events
     useEffect(() => {
@@ -146,17 +151,22 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
         const handleHealth = (newHealth: number) => {
             setHealth(newHealth);
         };
+        const handleTime = (seconds: number) => {
+            setTimeLeft(seconds);
+        };
 
         EventBus.on('game-won', handleWin);
         EventBus.on('game-lost', handleLose);
         EventBus.on('score-update', handleScore);
         EventBus.on('health-update', handleHealth);
+        EventBus.on('time-update', handleTime);
 
         return () => {
             EventBus.off('game-won', handleWin);
             EventBus.off('game-lost', handleLose);
             EventBus.off('score-update', handleScore);
             EventBus.off('health-update', handleHealth);
+            EventBus.off('time-update', handleTime);
         };
     }, []);
 
@@ -165,7 +175,8 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
         EventBus.emit('toggle-debug', debugEnabled);
     }, [debugEnabled]);
 
-    // Share handler — uses AI-generated names
+    // Share handler — uses AI-generated names. Shared levels keep only the
+    // first photo, so later segments of a stitched level play without one.
     const handleShare = useCallback(async () => {
         const response = await fetch(photoUrl);
         const blob = await response.blob();
@@ -192,6 +203,7 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
         setLost(false);
         setScore(0);
         setHealth(10);
+        setTimeLeft(null);
         setLoseShareState('idle');
         // Restart the scene
         if (gameRef.current) {
@@ -199,6 +211,7 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
             if (scene) {
                 scene.scene.restart({
                     photoUrl,
+                    photoUrls,
                     sceneData,
                     inputState,
                     debugEnabled,
@@ -218,6 +231,11 @@ export function PlayScreen({ photoUrl, sceneData, onBack, onRetake, playerName =
                     <span className={`play-screen__health ${health <= 2 ? 'play-screen__health--low' : ''}`}>
                         HP: {health}
                     </span>
+                    {timeLeft !== null && (
+                        <span className={`play-screen__time ${timeLeft <= 10 ? 'play-screen__time--low' : ''}`}>
+                            Time: {timeLeft}s
+                        </span>
+                    )}
                 </div>
                 {/* Spacer to keep header layout balanced */}
                 <div style={{ width: 32 }} />
@@ -3,6 +3,7 @@
  * ========================
  * Shows the Phaser level preview. Lucide icons replace emojis.
  * Bug icon toggles a JSON panel below the preview showing LLM response + scene data.
+ * The LLM tab also lists what post-processing filtered before the level was built.
  */
 
 import { useState } from 'react';
@@ -17,12 +18,14 @@ type JsonTab = 'llm' | 'scene';
 
 interface PreviewScreenProps {
     photoUrl: string;
+    /** All photos of a stitched level, in segment order */
+    photoUrls?: string[];
     sceneData: SceneV1;
     rawSceneData?: SceneResponse | null;
     onBack: () => void;
 }
 
-export function PreviewScreen({ photoUrl, sceneData, rawSceneData, onBack }: PreviewScreenProps) {
+export function PreviewScreen({ photoUrl, photoUrls, sceneData, rawSceneData, onBack }: PreviewScreenProps) {
     const [debugEnabled, setDebugEnabled] = useState(true);
     const [showJson, setShowJson] = useState(false);
     const [activeTab, setActiveTab] = useState<JsonTab>('llm');
@@ -41,6 +44,11 @@ export function PreviewScreen({ photoUrl, sceneData, rawSceneData, onBack }: Pre
         }
     }
 
+    // Post-processing notes, per photo for multi-photo levels
+    const photos = debugData?.detections ? [debugData.detections].flat() : [];
+    const postprocessNotes = photos.flatMap((photo, i) =>
+        (photo.postprocess?.notes ?? []).map((note) => (photos.length > 1 ? `photo ${i + 1}: ${note}` : note)));
+
     // Scene JSON (without _debug)
     const sceneOnly = rawSceneData ? { ...rawSceneData } : { ...sceneData };
     delete (sceneOnly as any)._debug;
@@ -69,6 +77,7 @@ export function PreviewScreen({ photoUrl, sceneData, rawSceneData, onBack }: Pre
             <div className="preview-screen__canvas">
                 <GameContainer
                     photoUrl={photoUrl}
+                    photoUrls={photoUrls}
                     sceneData={sceneData}
                     debugEnabled={debugEnabled}
                 />
@@ -94,6 +103,16 @@ export function PreviewScreen({ photoUrl, sceneData, rawSceneData, onBack }: Pre
                             Scene JSON
                         </button>
                     </div>
+                    {activeTab === 'llm' && llmJson && photos.some((photo) => photo.postprocess) && (
+                        <div className="preview-screen__postprocess">
+                            <div className="preview-screen__postprocess-title">
+                                Post-processing ({postprocessNotes.length ? `${postprocessNotes.length} changes` : 'nothing filtered'})
+                            </div>
+                            <ul>
+                                {postprocessNotes.map((note, i) => <li key={i}>{note}</li>)}
+                            </ul>
+                        </div>
+                    )}
                     <pre className="preview-screen__json-viewer">
                         {activeTab === 'llm' && llmJson ? llmJson : sceneJson}
                     </pre>
@@ -6,7 +6,9 @@
  *
  * FLOW STATES:
  * 1. idle - Waiting for user to click "Upload" (blob must exist)
- * 2. loading - Upload in progress, showing loading animation
+ * 2. loading - Upload streamed (a scene job submitted and polled on the
+ *    dev server), showing upload and stage progress; Cancel aborts it and
+ *    returns to photo capture
  * 3. success - Backend returned Scene JSON
  * 4. error - Upload failed
  * 5. preview - Showing Phaser level preview
@@ -15,24 +17,33 @@
  * Props:
  * - blob: Blob | null - The compressed photo to upload
  * - photoUrl: string | null - Object URL for the photo (for Phaser preview)
+ * - blobs / photoUrls - All photos of a multi-photo level, in order (the
+ *   first ones are blob / photoUrl); 2–4 photos build a stitched level
  * - onRetake: () => void - Callback to return to photo capture
  * - onUploadStart: () => void - Callback when upload begins
  * - autoStart: boolean - If true, starts upload immediately
  * - demoRandom: boolean - 50/50 show success or error after real success
  * - mockMode: boolean - Return fake data instead of calling backend
  * - mockFallback: boolean - Try backend first, fall back to mock data on error
+ * - photoLayout: boolean - Ask the builder for the photo-faithful layout strategy
+ * - difficulty: string - Difficulty profile for the builder ("easy" | "normal" | "hard")
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { CloudUpload, ChevronUp, ChevronDown } from "lucide-react";
 import {
+    generateSceneWithJob,
+    rebuildScene,
     uploadImageForScene,
     SceneResponse,
     UploadError,
+    type UploadProgress,
 } from "../services/ai_proxy_service";
 import { makeRequestId, formatNow } from "../services/request_trace";
 import { parseSceneV1 } from "../shared/schema/scene_v1.schema";
 import type { SceneV1 } from "../shared/schema/scene_v1.types";
+import type { ApiErrorCode } from "../shared/types/ApiError";
+import type { SceneStageEvent } from "../shared/types/SceneProgress";
 import { Icon } from "./Icon";
 import { UploadLoading } from "./screens/UploadLoading";
 import { UploadSuccess } from "./screens/UploadSuccess";
@@ -47,9 +58,24 @@ export type UploadFlowState = "idle" | "loading" | "success" | "error" | "previe
 // Internal alias for readability
 type FlowState = UploadFlowState;
 
+/** Where a developer keeps a deployment's DEBUG_TOKEN in their own browser */
+const DEBUG_TOKEN_STORAGE_KEY = 'dev_debugToken';
+
+/**
+ * Sent as x-debug-token so the server includes `_debug` (LLM JSON): the
+ * token this browser was given (`localStorage.dev_debugToken = "…"` in the
+ * console), else any value during development, which the Express dev
+ * server accepts by default. Never built into the bundle.
+ */
+function debugToken(): string | undefined {
+    return localStorage.getItem(DEBUG_TOKEN_STORAGE_KEY) || (import.meta.env.DEV ? 'dev' : undefined);
+}
+
 interface UploadFlowProps {
     blob: Blob | null;
     photoUrl?: string | null;
+    blobs?: Blob[];
+    photoUrls?: string[];
     onRetake: () => void;
     onUploadStart?: () => void;
     onFlowStateChange?: (state: UploadFlowState) => void;
@@ -57,6 +83,8 @@ interface UploadFlowProps {
     demoRandom?: boolean;
     mockMode?: boolean;
     mockFallback?: boolean;
+    photoLayout?: boolean;
+    difficulty?: string;
     showSceneJson?: boolean;
 }
 
@@ -96,6 +124,8 @@ const MOCK_SCENE_RESPONSE = {
 export function UploadFlow({
     blob,
     photoUrl,
+    blobs,
+    photoUrls,
     onRetake,
     onUploadStart,
     onFlowStateChange,
@@ -103,6 +133,8 @@ export function UploadFlow({
     demoRandom = false,
     mockMode = false,
     mockFallback = false,
+    photoLayout = false,
+    difficulty,
     showSceneJson = false,
 }: UploadFlowProps) {
     const [state, _setState] = useState<FlowState>(
@@ -124,6 +156,12 @@ export function UploadFlow({
     const [requestId, setRequestId] = useState<string>("");
     const [sceneData, setSceneData] = useState<SceneResponse | null>(null);
     const [error, setError] = useState<Error | null>(null);
+    // Latest pipeline stage streamed by the server (null until one arrives)
+    const [progress, setProgress] = useState<SceneStageEvent | null>(null);
+    // Bytes of the photos sent so far (null until the upload reports any)
+    const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+    // Aborts the request in flight (Cancel, a new upload, or unmount)
+    const abortRef = useRef<AbortController | null>(null);
     const [lastRealResponse, setLastRealResponse] =
         useState<SceneResponse | null>(null);
     const [showDebugResponse, setShowDebugResponse] = useState(false);
@@ -136,16 +174,23 @@ export function UploadFlow({
     const performUpload = useCallback(async () => {
         if (!blob) return;
 
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
         const newRequestId = makeRequestId();
         setRequestId(newRequestId);
         setState("loading");
         setError(null);
+        setProgress(null);
+        setUploadProgress(null);
 
         console.info(`[${formatNow()}] Upload started: ${newRequestId}${mockMode ? ' (MOCK MODE)' : ''}`);
 
         // Mock mode: return fake data after a delay (longer to preview loading screen)
         if (mockMode) {
             await new Promise(resolve => setTimeout(resolve, 3000));
+            if (controller.signal.aborted) return;
             console.info(
                 `[${formatNow()}] Mock response: ${newRequestId}`,
                 `objects=${(Array.isArray((MOCK_SCENE_RESPONSE as unknown as Record<string, unknown>).objects) ? ((MOCK_SCENE_RESPONSE as unknown as Record<string, unknown>).objects as unknown[]).length : 0)}`,
@@ -159,9 +204,27 @@ export function UploadFlow({
         }
 
         try {
-            const response = await uploadImageForScene({
+            // The dev server keeps jobs, so submit one and poll for it there: a
+            // dropped connection or a backgrounded tab doesn't lose the level.
+            // Vercel holds jobs only in one instance's memory, which may be
+            // suspended once it has answered, so production streams the upload.
+            const generate = import.meta.env.DEV ? generateSceneWithJob : uploadImageForScene;
+            const response = await generate({
                 blob,
+                blobs,
                 requestId: newRequestId,
+                strategy: photoLayout ? 'photo' : undefined,
+                difficulty,
+                locale: navigator.language,
+                onProgress: setProgress,
+                onUploadProgress: setUploadProgress,
+                signal: controller.signal,
+                debugToken: debugToken(),
+                onRetry: ({ attempt, delayMs, status }) => console.info(
+                    `[${formatNow()}] Upload retry ${attempt}: ${newRequestId}`,
+                    `status=${status || 'network'}`,
+                    `delay=${delayMs}ms`,
+                ),
             });
 
             setLastRealResponse(response);
@@ -186,6 +249,10 @@ export function UploadFlow({
             setSceneData(response);
             setState("success");
         } catch (err) {
+            if (controller.signal.aborted) {
+                console.info(`[${formatNow()}] Upload cancelled: ${newRequestId}`);
+                return;
+            }
             const uploadErr = err as UploadError;
             console.error(`[${formatNow()}] Upload failed: ${newRequestId}`, uploadErr.message);
 
@@ -200,7 +267,15 @@ export function UploadFlow({
             setError(uploadErr);
             setState("error");
         }
-    }, [blob, demoRandom, mockMode, mockFallback]);
+    }, [blob, blobs, demoRandom, mockMode, mockFallback, photoLayout, difficulty]);
+
+    // Abandon any request in flight when the flow goes away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleCancel = useCallback(() => {
+        abortRef.current?.abort();
+        onRetake();
+    }, [onRetake]);
 
     // Auto-start upload if requested
     useEffect(() => {
@@ -221,6 +296,57 @@ export function UploadFlow({
         performUpload();
     }, [performUpload]);
 
+    // Reroll: rebuild from the stored detections with a fresh seed (no AI call)
+    const handleReroll = useCallback(async () => {
+        const detections = sceneData?.detections;
+        if (!detections) return;
+
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const newRequestId = makeRequestId();
+        setRequestId(newRequestId);
+        setState("loading");
+        setError(null);
+        setProgress(null);
+        setUploadProgress(null);
+
+        console.info(`[${formatNow()}] Reroll started: ${newRequestId} (previous seed=${sceneData?.seed})`);
+
+        try {
+            const response = await rebuildScene({
+                detections,
+                requestId: newRequestId,
+                strategy: photoLayout ? 'photo' : undefined,
+                difficulty,
+                signal: controller.signal,
+                debugToken: debugToken(),
+            });
+
+            console.info(
+                `[${formatNow()}] Reroll success: ${newRequestId}`,
+                `seed=${response.seed}`,
+                `strategy=${response.strategy}`,
+            );
+
+            // Same detections, so the level keeps the prompt they were asked with
+            const rerolled = { ...response, prompt: response.prompt ?? sceneData?.prompt };
+            setLastRealResponse(rerolled);
+            setSceneData(rerolled);
+            setState("success");
+        } catch (err) {
+            if (controller.signal.aborted) {
+                console.info(`[${formatNow()}] Reroll cancelled: ${newRequestId}`);
+                return;
+            }
+            const uploadErr = err as UploadError;
+            console.error(`[${formatNow()}] Reroll failed: ${newRequestId}`, uploadErr.message);
+            setError(uploadErr);
+            setState("error");
+        }
+    }, [sceneData, photoLayout, difficulty, setState]);
+
     const handleUploadAgain = useCallback(() => {
         setState("idle");
         setSceneData(null);
@@ -282,6 +408,7 @@ export function UploadFlow({
         return (
             <PreviewScreen
                 photoUrl={photoUrl}
+                photoUrls={photoUrls}
                 sceneData={validatedScene}
                 rawSceneData={sceneData}
                 onBack={handleBackFromPreview}
@@ -294,6 +421,7 @@ export function UploadFlow({
         return (
             <PlayScreen
                 photoUrl={photoUrl}
+                photoUrls={photoUrls}
                 sceneData={validatedScene}
                 onBack={handleBackFromPlay}
                 onRetake={onRetake}
@@ -327,7 +455,14 @@ export function UploadFlow({
                     </div>
                 )}
 
-                {state === "loading" && <UploadLoading requestId={requestId} />}
+                {state === "loading" && (
+                    <UploadLoading
+                        requestId={requestId}
+                        progress={progress}
+                        upload={uploadProgress}
+                        onCancel={handleCancel}
+                    />
+                )}
 
                 {state === "success" && sceneData && (
                     <UploadSuccess
@@ -337,6 +472,7 @@ export function UploadFlow({
                         onRetake={onRetake}
                         onPreview={handlePreview}
                         onPlay={handlePlay}
+                        onReroll={sceneData.detections ? handleReroll : undefined}
                         showSceneJson={showSceneJson}
                     />
                 )}
@@ -349,6 +485,9 @@ export function UploadFlow({
                                 error as Error & {
                                     status?: number;
                                     responseText?: string;
+                                    retryAfter?: number;
+                                    code?: ApiErrorCode;
+                                    requestId?: string;
                                 }
                             }
                             onRetry={handleRetry}
@@ -2,50 +2,173 @@
  * UPLOAD ERROR SCREEN
  * ===================
  * Displays when the upload fails. Lucide icons replace emojis.
+ *
+ * The server's error code (see src/shared/types/ApiError.ts) picks the
+ * title and explanation; older servers without codes fall back to the
+ * status. Rate limits and a busy server count down their Retry-After, and
+ * Try Again stays disabled until it has passed.
+ *
+ * When the server answered, its x-request-id (the id its logs carry) is
+ * shown for support reports; otherwise the client's id, marked unconfirmed.
  */
 
-import { XCircle, RefreshCw, Camera } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { XCircle, RefreshCw, Camera, Hourglass } from 'lucide-react';
+import type { ApiErrorCode } from '../../shared/types/ApiError';
 import { Icon } from '../Icon';
 import './UploadScreens.css';
 
 interface UploadErrorProps {
+    /** The id the client sent */
     requestId: string;
-    error: Error & { status?: number; responseText?: string };
+    error: Error & { status?: number; responseText?: string; retryAfter?: number; code?: ApiErrorCode; requestId?: string };
     onRetry: () => void;
     onRetake: () => void;
 }
 
-export function UploadError({ 
-    requestId, 
-    error, 
-    onRetry, 
-    onRetake 
+interface ErrorCopy {
+    title: string;
+    message: string;
+    /** "Wait, then retry": hourglass and Retry-After countdown */
+    wait?: boolean;
+}
+
+const SLOW_DOWN: ErrorCopy = {
+    title: 'Slow Down',
+    message: 'Too many uploads in a short time. Your next level is just a moment away.',
+    wait: true,
+};
+
+const SERVER_BUSY: ErrorCopy = {
+    title: 'Server Busy',
+    message: 'Lots of levels are being built right now. Yours will fit in shortly.',
+    wait: true,
+};
+
+const NOT_A_LEVEL: ErrorCopy = {
+    title: 'No Level This Time',
+    message: "We couldn't make sense of this photo. Trying again often works; a brighter photo with a few clear objects helps.",
+};
+
+const SOMETHING_BROKE: ErrorCopy = {
+    title: 'Something Went Wrong',
+    message: 'The level builder hit a problem on our side. Please try again.',
+};
+
+/** Copy for each server error code; codes without an entry show the server's message */
+const ERROR_COPY: Partial<Record<ApiErrorCode, ErrorCopy>> = {
+    RATE_LIMITED: SLOW_DOWN,
+    AI_RATE_LIMITED: {
+        ...SLOW_DOWN,
+        message: 'Our level-making AI needs a short breather. Your level is just a moment away.',
+    },
+    SERVER_BUSY,
+    UPLOAD_TOO_LARGE: {
+        title: 'Photo Too Large',
+        message: 'That photo is bigger than we can take. Retake it or pick a smaller one.',
+    },
+    UNSUPPORTED_MEDIA_TYPE: {
+        title: 'Not a Photo',
+        message: 'Only photos can become levels. Take a picture and try again.',
+    },
+    NO_IMAGE: {
+        title: 'No Photo',
+        message: 'The photo got lost on the way. Retake it and try again.',
+    },
+    TOO_MANY_IMAGES: {
+        title: 'Too Many Photos',
+        message: 'A level can be built from up to 4 photos. Remove a few and try again.',
+    },
+    AI_INVALID_JSON: NOT_A_LEVEL,
+    AI_INVALID_RESPONSE: NOT_A_LEVEL,
+    AI_EMPTY_RESPONSE: NOT_A_LEVEL,
+    AI_FAILED: {
+        title: 'AI Unavailable',
+        message: "We couldn't reach the level-making AI. Please try again in a moment.",
+    },
+    LEVEL_INVALID: SOMETHING_BROKE,
+    JOB_FAILED: SOMETHING_BROKE,
+    INTERNAL_ERROR: SOMETHING_BROKE,
+    JOB_NOT_FOUND: {
+        title: 'Level Expired',
+        message: 'Your level waited too long to be collected. Upload the photo again.',
+    },
+    SERVER_MISCONFIGURED: {
+        title: 'Server Not Ready',
+        message: "The level builder isn't set up correctly right now. Please try again later.",
+    },
+};
+
+/** Copy for statuses from servers that don't send error codes */
+const STATUS_COPY: Record<number, ErrorCopy> = {
+    429: SLOW_DOWN,
+    503: SERVER_BUSY,
+};
+
+export function UploadError({
+    requestId,
+    error,
+    onRetry,
+    onRetake
 }: UploadErrorProps) {
+    const copy = (error.code && ERROR_COPY[error.code]) || (error.status ? STATUS_COPY[error.status] : undefined);
+    const wait = copy?.wait;
+    // The id the server logged the request under, when it answered
+    const serverRequestId = error.requestId;
+
+    // Seconds left before Try Again is allowed
+    const [remaining, setRemaining] = useState(error.retryAfter ?? 0);
+    useEffect(() => {
+        setRemaining(error.retryAfter ?? 0);
+        if (!error.retryAfter) return;
+
+        const until = Date.now() + error.retryAfter * 1000;
+        const timer = setInterval(() => {
+            const left = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+            setRemaining(left);
+            if (left === 0) clearInterval(timer);
+        }, 250);
+        return () => clearInterval(timer);
+    }, [error]);
+
     return (
         <div className="upload-screen">
             <div className="glass-card">
-                <div className="request-id">{requestId}</div>
+                <div className="request-id">{serverRequestId ?? requestId}</div>
 
                 <div style={{ marginTop: '16px', textAlign: 'center' }}>
                     <div className="error-icon">
-                        <Icon icon={XCircle} size={32} />
+                        <Icon icon={wait ? Hourglass : XCircle} size={32} />
                     </div>
-                    <h2 className="screen-title">Upload Failed</h2>
+                    <h2 className="screen-title">{copy ? copy.title : 'Upload Failed'}</h2>
                     <p className="screen-subtitle">
-                        {error.status ? `Status: ${error.status}` : 'Connection error'}
+                        {wait
+                            ? remaining > 0 ? `You can try again in ${remaining}s` : 'You can try again now'
+                            : error.status ? `Status: ${error.status}` : 'Connection error'}
                     </p>
                 </div>
 
                 <div className="error-message" style={{ marginTop: '20px' }}>
-                    {error.message}
-                    {error.responseText && (
-                        <code>{error.responseText.substring(0, 200)}</code>
-                    )}
+                    {copy ? copy.message : error.message}
+                    {copy
+                        ? !wait && error.code && <code>{error.code}</code>
+                        : error.responseText && <code>{error.responseText.substring(0, 200)}</code>}
                 </div>
 
+                <p className="support-reference">
+                    {serverRequestId
+                        ? <>Reporting this? Quote request <code>{serverRequestId}</code>.</>
+                        : <>Request <code>{requestId}</code> (unconfirmed: the server didn't answer)</>}
+                </p>
+
                 <div className="button-group" style={{ marginTop: '24px' }}>
-                    <button className="glass-button glass-button--primary" onClick={onRetry}>
-                        <Icon icon={RefreshCw} size={16} /> Try Again
+                    <button
+                        className="glass-button glass-button--primary"
+                        onClick={onRetry}
+                        disabled={remaining > 0}
+                    >
+                        <Icon icon={RefreshCw} size={16} />
+                        {remaining > 0 ? ` Try Again (${remaining}s)` : ' Try Again'}
                     </button>
                     <button className="glass-button glass-button--secondary" onClick={onRetake}>
                         <Icon icon={Camera} size={16} /> Retake Photo
@@ -7,21 +7,63 @@
  * Shows:
  * - Running stick man animation
  * - Request ID for tracing (matches backend logs)
- * - Animated loading bar
- * - Status message
+ * - Loading bar: bytes sent while the photo uploads, then real stage
+ *   progress when the server streams it, otherwise an endless animation
+ * - Status message for the current stage
+ * - Cancel button (when onCancel is given)
  * 
  * Props:
  * - requestId: string - The unique request ID for this upload
+ * - progress: SceneStageEvent | null - Latest stage the server reported (null until one arrives)
+ * - upload: UploadProgress | null - Bytes of the photo sent so far (null when unknown)
+ * - onCancel: () => void - Abandons the upload
  */
 
+import { X } from 'lucide-react';
+import { Icon } from '../Icon';
 import { SplashLogo } from '../SplashLogo';
+import type { UploadProgress } from '../../services/ai_proxy_service';
+import { SCENE_STAGES, type SceneStage, type SceneStageEvent } from '../../shared/types/SceneProgress';
 import './UploadScreens.css';
 
 interface UploadLoadingProps {
     requestId: string;
+    progress?: SceneStageEvent | null;
+    upload?: UploadProgress | null;
+    onCancel?: () => void;
 }
 
-export function UploadLoading({ requestId }: UploadLoadingProps) {
+/** Status line per stage */
+const STAGE_MESSAGES: Record<SceneStage, string> = {
+    received: 'Photo received',
+    preprocessing: 'Preparing your photo',
+    detecting: 'Spotting objects',
+    validating: 'Checking what was found',
+    building: 'Building your level',
+    done: 'Ready!',
+};
+
+/** How far along the pipeline an event is, 0–1 (detecting advances per photo) */
+function progressFraction({ stage, completed, total }: SceneStageEvent): number {
+    const index = SCENE_STAGES.indexOf(stage);
+    const within = stage === 'detecting' && total ? (completed ?? 0) / total : 0;
+    return (index + within) / (SCENE_STAGES.length - 1);
+}
+
+export function UploadLoading({ requestId, progress, upload, onCancel }: UploadLoadingProps) {
+    // Still sending the photo: nothing from the pipeline yet
+    const uploading = !progress && upload?.total && upload.loaded < upload.total ? upload.loaded / upload.total : undefined;
+
+    let subtitle = 'Analyzing your photo';
+    if (uploading !== undefined) {
+        subtitle = `Uploading photo… ${Math.round(uploading * 100)}%`;
+    } else if (progress) {
+        subtitle = STAGE_MESSAGES[progress.stage];
+        if (progress.stage === 'detecting' && progress.total && progress.total > 1) {
+            subtitle += ` (${progress.completed ?? 0}/${progress.total} photos)`;
+        }
+    }
+
     return (
         <div className="upload-screen">
             <div className="glass-card">
@@ -41,13 +83,28 @@ export function UploadLoading({ requestId }: UploadLoadingProps) {
                         </span>
                     </h2>
                     <p className="screen-subtitle">
-                        Analyzing your photo
+                        {subtitle}
                     </p>
                 </div>
 
                 <div className="loading-bar-container">
-                    <div className="loading-bar"></div>
+                    {uploading !== undefined || progress ? (
+                        <div
+                            className="loading-bar loading-bar--progress"
+                            style={{ width: `${Math.max(5, (uploading ?? progressFraction(progress!)) * 100)}%` }}
+                        ></div>
+                    ) : (
+                        <div className="loading-bar"></div>
+                    )}
                 </div>
+
+                {onCancel && (
+                    <div className="button-group" style={{ marginTop: '24px' }}>
+                        <button className="glass-button glass-button--secondary" onClick={onCancel}>
+                            <Icon icon={X} size={16} /> Cancel
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
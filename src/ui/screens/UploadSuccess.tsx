@@ -5,7 +5,7 @@
  */
 
 import { useState } from 'react';
-import { Play, RefreshCw, Camera } from 'lucide-react';
+import { Play, RefreshCw, Camera, Shuffle } from 'lucide-react';
 import { SceneResponse } from '../../services/ai_proxy_service';
 import { Icon } from '../Icon';
 import './UploadScreens.css';
@@ -17,6 +17,8 @@ interface UploadSuccessProps {
     onRetake: () => void;
     onPreview: () => void;
     onPlay?: () => void;
+    /** Rebuild the layout from the same detections (hidden when unavailable) */
+    onReroll?: () => void;
     showSceneJson?: boolean;
 }
 
@@ -29,6 +31,7 @@ export function UploadSuccess({
     onRetake,
     onPreview,
     onPlay,
+    onReroll,
     showSceneJson = false,
 }: UploadSuccessProps) {
     const [activeTab, setActiveTab] = useState<JsonTab>('llm');
@@ -121,6 +124,11 @@ export function UploadSuccess({
                     <button className="glass-button glass-button--secondary" onClick={onPreview}>
                         <Icon icon={Play} size={14} /> Preview Level
                     </button>
+                    {onReroll && (
+                        <button className="glass-button glass-button--secondary" onClick={onReroll}>
+                            <Icon icon={Shuffle} size={14} /> Reroll Layout
+                        </button>
+                    )}
                     <button className="glass-button glass-button--secondary" onClick={onRetake}>
                         <Icon icon={Camera} size={14} /> Retake Photo
                     </button>